@@ -0,0 +1,98 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { signInAdmin, signOutAdmin, useAdminSecret } from '@/lib/admin-session'
+
+// ============================================================================
+// Main Page
+// ============================================================================
+
+/**
+ * Admin sign-in: stores ADMIN_SECRET in this browser so book pages show
+ * the enrichment editor
+ */
+export default function AdminPage() {
+  const adminSecret = useAdminSecret()
+  const [secret, setSecret] = useState('')
+  const [isSignedIn, setIsSignedIn] = useState(false)
+  const [isChecking, setIsChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const signedIn = isSignedIn || Boolean(adminSecret)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsChecking(true)
+    setError(null)
+    try {
+      if (await signInAdmin(secret.trim())) {
+        setIsSignedIn(true)
+        setSecret('')
+      } else {
+        setError('That admin secret was not accepted')
+      }
+    } catch {
+      setError('Could not reach the server')
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  const handleSignOut = () => {
+    signOutAdmin()
+    // Reload so useAdminSecret forgets the secret too
+    window.location.reload()
+  }
+
+  return (
+    <div className="min-h-screen bg-warm-950 flex items-center justify-center px-4">
+      <div className="w-full max-w-md bg-gradient-to-br from-warm-900/80 to-warm-950/80 backdrop-blur-xl rounded-3xl border border-sand-800/30 p-8">
+        <h1 className="text-2xl font-bold text-white mb-2">Admin</h1>
+
+        {signedIn ? (
+          <>
+            <p className="text-sand-300 mb-6">
+              Signed in. Book pages in this browser now show the &quot;Fix book details&quot; editor.
+            </p>
+            <div className="flex items-center gap-4">
+              <Link
+                href="/"
+                className="px-5 py-2.5 bg-gold-500 text-warm-950 rounded-xl font-semibold hover:bg-gold-400 transition-colors"
+              >
+                Back to books
+              </Link>
+              <button onClick={handleSignOut} className="text-sand-400 hover:text-white transition-colors text-sm font-medium">
+                Sign out
+              </button>
+            </div>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <p className="text-sand-400 mb-6">Enter the server&apos;s ADMIN_SECRET to edit book details.</p>
+            {error && (
+              <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-xl text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+            <input
+              type="password"
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+              placeholder="Admin secret"
+              autoComplete="current-password"
+              className="w-full mb-4 px-4 py-3 bg-warm-950/60 border border-sand-700/50 rounded-xl text-white placeholder-sand-600 focus:outline-none focus:border-gold-500/60"
+            />
+            <button
+              type="submit"
+              disabled={isChecking || !secret.trim()}
+              className="w-full px-5 py-3 bg-gold-500 text-warm-950 rounded-xl font-semibold hover:bg-gold-400 transition-colors disabled:opacity-50"
+            >
+              {isChecking ? 'Checking...' : 'Sign in'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminAuth } from '@/lib/admin-auth'
+
+/**
+ * GET /api/admin/session
+ * Check an admin secret (used by /admin before storing it in the browser)
+ *
+ * Requires `Authorization: Bearer <ADMIN_SECRET>`; answers 401 for a wrong
+ * secret and 503 when ADMIN_SECRET is not configured.
+ */
+export async function GET(request: NextRequest) {
+  const denied = checkAdminAuth(request)
+  if (denied) {
+    return denied
+  }
+
+  return NextResponse.json({ success: true })
+}
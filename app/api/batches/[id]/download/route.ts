@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import archiver from 'archiver'
+import { Readable } from 'stream'
+import { getBatchDownloadFiles } from '@/lib/render-batches'
+
+/**
+ * GET /api/batches/[id]/download
+ * Download every finished video of a batch as one ZIP
+ *
+ * Videos are stored uncompressed in the archive (MP4s don't shrink) and
+ * streamed, so large batches are never buffered in memory.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const files = await getBatchDownloadFiles(params.id)
+
+    if (!files) {
+      return NextResponse.json(
+        { success: false, error: 'Batch not found' },
+        { status: 404 }
+      )
+    }
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No finished videos in this batch yet' },
+        { status: 409 }
+      )
+    }
+
+    const archive = archiver('zip', { store: true })
+    archive.on('error', (error) => {
+      console.error('[Render Batch] ZIP creation error:', error)
+    })
+
+    for (const file of files) {
+      archive.file(file.filePath, { name: file.name })
+    }
+    archive.finalize().catch((error) => {
+      console.error('[Render Batch] ZIP finalize error:', error)
+      archive.destroy(error)
+    })
+
+    return new NextResponse(Readable.toWeb(archive) as unknown as ReadableStream, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="batch-${params.id.slice(0, 8)}.zip"`,
+      },
+    })
+  } catch (error) {
+    console.error('Error downloading batch:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to download batch' },
+      { status: 500 }
+    )
+  }
+}
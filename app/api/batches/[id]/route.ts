@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ensureRenderWorker } from '@/lib/render-queue'
+import { getRenderBatch } from '@/lib/render-batches'
+
+/**
+ * GET /api/batches/[id]
+ * Report per-book status of a batch queued by POST /api/batches
+ *
+ * Each item carries its job's step, progress and video URL; downloadUrl is
+ * set once every job has finished and at least one video was rendered.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Make sure queued jobs get picked up after a server restart
+    ensureRenderWorker()
+
+    const batch = await getRenderBatch(params.id)
+
+    if (!batch) {
+      return NextResponse.json(
+        { success: false, error: 'Batch not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, batch })
+  } catch (error) {
+    console.error('Error fetching batch:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch batch' },
+      { status: 500 }
+    )
+  }
+}
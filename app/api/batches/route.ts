@@ -0,0 +1,222 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { availableGenres } from '@/lib/nyt'
+import { VALID_DURATIONS, VALID_TONES, Tone } from '@/lib/video-pipeline'
+import { isOutputProfileName, OUTPUT_PROFILE_NAMES, OutputProfileName } from '@/lib/output-profiles'
+import { isBrandTemplateName, BrandTemplateName, MAX_CARD_TEXT_LENGTH } from '@/lib/brand-templates'
+import { isLLMProviderName, LLMProviderName } from '@/lib/llm'
+import {
+  BatchSettings,
+  MAX_BATCH_SIZE,
+  createRenderBatch,
+  getBooksById,
+  getGenreBooks,
+  listRenderBatches,
+} from '@/lib/render-batches'
+
+interface CreateBatchRequest {
+  genre?: string
+  bookIds?: number[]
+  limit?: number
+  tone?: Tone
+  duration?: number
+  provider?: LLMProviderName
+  profiles?: OutputProfileName[]
+  music?: boolean
+  template?: BrandTemplateName
+  templateId?: number
+  callToAction?: string
+  handle?: string
+}
+
+/**
+ * GET /api/batches
+ * List recent batches with per-book status
+ *
+ * Query params:
+ * - limit: Max batches to return (optional, default: 10, max: 50)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '10') || 10, 50)
+
+    const batches = await listRenderBatches(limit)
+
+    return NextResponse.json({ success: true, batches })
+  } catch (error) {
+    console.error('Error fetching batches:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch batches' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/batches
+ * Queue a video for every book on a genre's bestseller list, or for a set
+ * of saved books, with shared settings
+ * Body: { genre | bookIds, limit?, tone?, duration?, provider?, profiles?, music?, template?, templateId?, callToAction?, handle? }
+ *
+ * Returns 202 with the batch; poll GET /api/batches/[id] for per-book status.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: CreateBatchRequest
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    const { genre, bookIds, limit = MAX_BATCH_SIZE, tone = 'Motivational', duration = 30 } = body
+
+    if ((genre === undefined) === (bookIds === undefined)) {
+      return NextResponse.json(
+        { success: false, error: 'Provide either genre or bookIds' },
+        { status: 400 }
+      )
+    }
+
+    if (genre !== undefined && !availableGenres.includes(genre)) {
+      return NextResponse.json(
+        { success: false, error: `Genre must be one of: ${availableGenres.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (bookIds !== undefined && (
+      !Array.isArray(bookIds) || bookIds.length === 0 || bookIds.length > MAX_BATCH_SIZE ||
+      !bookIds.every(id => Number.isInteger(id))
+    )) {
+      return NextResponse.json(
+        { success: false, error: `bookIds must be an array of 1-${MAX_BATCH_SIZE} book IDs` },
+        { status: 400 }
+      )
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { success: false, error: `Limit must be between 1 and ${MAX_BATCH_SIZE}` },
+        { status: 400 }
+      )
+    }
+
+    if (!VALID_TONES.includes(tone)) {
+      return NextResponse.json(
+        { success: false, error: `Tone must be one of: ${VALID_TONES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (!VALID_DURATIONS.includes(duration)) {
+      return NextResponse.json(
+        { success: false, error: `Duration must be one of: ${VALID_DURATIONS.join(', ')} seconds` },
+        { status: 400 }
+      )
+    }
+
+    if (body.provider !== undefined && !isLLMProviderName(body.provider)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid provider' },
+        { status: 400 }
+      )
+    }
+
+    if (body.profiles !== undefined && (
+      !Array.isArray(body.profiles) || body.profiles.length === 0 || !body.profiles.every(isOutputProfileName)
+    )) {
+      return NextResponse.json(
+        { success: false, error: `Profiles must be a non-empty array of: ${OUTPUT_PROFILE_NAMES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (body.music !== undefined && typeof body.music !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'Music must be true or false' },
+        { status: 400 }
+      )
+    }
+
+    if (body.template !== undefined && !isBrandTemplateName(body.template)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid brand template' },
+        { status: 400 }
+      )
+    }
+
+    for (const field of ['callToAction', 'handle'] as const) {
+      const value = body[field]
+      if (value !== undefined && (typeof value !== 'string' || value.length > MAX_CARD_TEXT_LENGTH)) {
+        return NextResponse.json(
+          { success: false, error: `${field} must be a string of at most ${MAX_CARD_TEXT_LENGTH} characters` },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (body.templateId !== undefined) {
+      const template = Number.isInteger(body.templateId)
+        ? await prisma.videoTemplate.findUnique({ where: { id: body.templateId } })
+        : null
+
+      if (!template) {
+        return NextResponse.json(
+          { success: false, error: 'Video template not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    let books
+    try {
+      books = genre !== undefined
+        ? await getGenreBooks(genre, limit)
+        : await getBooksById(Array.from(new Set(bookIds)))
+    } catch (error) {
+      console.error('Error loading batch books:', error)
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Failed to load the bestseller list',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: 502 }
+      )
+    }
+
+    if (books.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No books found for this batch' },
+        { status: 404 }
+      )
+    }
+
+    const settings: BatchSettings = {
+      tone,
+      duration,
+      provider: body.provider,
+      profiles: body.profiles ? Array.from(new Set(body.profiles)) : undefined,
+      music: body.music,
+      template: body.template,
+      templateId: body.templateId,
+      callToAction: body.callToAction?.trim(),
+      handle: body.handle?.trim(),
+    }
+
+    const batch = await createRenderBatch(books, settings, genre ?? null)
+
+    return NextResponse.json({ success: true, batch }, { status: 202 })
+  } catch (error) {
+    console.error('Error creating batch:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create batch' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { checkAdminAuth } from '@/lib/admin-auth'
+import { ProviderUnavailableError } from '@/lib/provider-backoff'
+import { searchCandidateVolumes } from '@/lib/book-overrides'
+
+/**
+ * GET /api/books/[id]/enrichment/candidates
+ * Search Google Books volumes that could be this book, best match first
+ *
+ * Query params:
+ * - q: Free-text search (optional, default: the book's ISBN, then title + author)
+ *
+ * Requires `Authorization: Bearer <ADMIN_SECRET>`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const denied = checkAdminAuth(request)
+    if (denied) {
+      return denied
+    }
+
+    const bookId = parseInt(params.id, 10)
+
+    if (isNaN(bookId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid book ID' },
+        { status: 400 }
+      )
+    }
+
+    const book = await prisma.book.findUnique({ where: { id: bookId } })
+    if (!book) {
+      return NextResponse.json(
+        { success: false, error: 'Book not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const candidates = await searchCandidateVolumes(book, searchParams.get('q') ?? undefined)
+
+    return NextResponse.json({ success: true, candidates })
+  } catch (error) {
+    if (error instanceof ProviderUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: 'Google Books is temporarily unavailable, please try again later' },
+        { status: 503 }
+      )
+    }
+    console.error('Error searching candidate volumes:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to search Google Books' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { checkAdminAuth } from '@/lib/admin-auth'
+import { ProviderUnavailableError } from '@/lib/provider-backoff'
+import {
+  EnrichmentOverrideInput,
+  deleteEnrichmentOverride,
+  getEnrichmentOverride,
+  saveEnrichmentOverride,
+  validateOverrideInput,
+} from '@/lib/book-overrides'
+
+/**
+ * GET /api/books/[id]/enrichment
+ * Fetch the book's manual enrichment override (null when there is none)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const bookId = parseInt(params.id, 10)
+
+    if (isNaN(bookId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid book ID' },
+        { status: 400 }
+      )
+    }
+
+    const override = await getEnrichmentOverride(bookId)
+
+    return NextResponse.json({ success: true, override })
+  } catch (error) {
+    console.error('Error fetching enrichment override:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch enrichment override' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/books/[id]/enrichment
+ * Pin a Google Books volume or ISBN and/or set a manual description and cover
+ * Body: { volumeId?, isbn?, description?, thumbnail? } (replaces the whole override)
+ *
+ * Requires `Authorization: Bearer <ADMIN_SECRET>`.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const denied = checkAdminAuth(request)
+    if (denied) {
+      return denied
+    }
+
+    const bookId = parseInt(params.id, 10)
+
+    if (isNaN(bookId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid book ID' },
+        { status: 400 }
+      )
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    const errors = validateOverrideInput(body)
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid enrichment override', details: errors },
+        { status: 400 }
+      )
+    }
+
+    const book = await prisma.book.findUnique({ where: { id: bookId } })
+    if (!book) {
+      return NextResponse.json(
+        { success: false, error: 'Book not found' },
+        { status: 404 }
+      )
+    }
+
+    const override = await saveEnrichmentOverride(book, body as EnrichmentOverrideInput)
+    if (!override) {
+      return NextResponse.json(
+        { success: false, error: 'No Google Books volume found for that volume ID or ISBN' },
+        { status: 422 }
+      )
+    }
+
+    return NextResponse.json({ success: true, override })
+  } catch (error) {
+    if (error instanceof ProviderUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: 'Google Books is temporarily unavailable, please try again later' },
+        { status: 503 }
+      )
+    }
+    console.error('Error saving enrichment override:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save enrichment override' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/books/[id]/enrichment
+ * Remove the override so automatic enrichment applies again
+ *
+ * Requires `Authorization: Bearer <ADMIN_SECRET>`.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const denied = checkAdminAuth(request)
+    if (denied) {
+      return denied
+    }
+
+    const bookId = parseInt(params.id, 10)
+
+    if (isNaN(bookId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid book ID' },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await deleteEnrichmentOverride(bookId)
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Book has no enrichment override' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting enrichment override:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete enrichment override' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,20 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import {
+  ENRICHED_BOOK_FIELDS,
+  getEnrichedBooks,
+  isEnrichedBookField,
+  pickFields,
+} from '@/lib/enriched-books'
 
+/**
+ * GET /api/books
+ * Bestseller books with their enrichment (cover, description, ratings)
+ * joined in, so a grid loads in one request
+ *
+ * Books that haven't been enriched yet come back with NYT data and
+ * `enriched: false`; a background worker fills them in for the next load.
+ *
+ * Query params:
+ * - genre: Limit to one genre (optional)
+ * - days: Only books updated within this many days (optional)
+ * - page: Page number (optional, default: 1)
+ * - limit: Books per page (optional, default: 20, max: 100)
+ * - fields: Comma-separated fields to return (optional, default: all; id is always included)
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const genre = searchParams.get('genre')
     const days = searchParams.get('days')
-    
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.max(Math.min(parseInt(searchParams.get('limit') || '20') || 20, 100), 1)
+    const fieldsParam = searchParams.get('fields')
+
+    const fields = fieldsParam
+      ? fieldsParam.split(',').map(field => field.trim()).filter(Boolean)
+      : null
+    const unknownFields = fields?.filter(field => !isEnrichedBookField(field)) ?? []
+    if (unknownFields.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid fields. Available fields: ${ENRICHED_BOOK_FIELDS.join(', ')}`,
+          details: unknownFields.map(field => `Unknown field "${field}"`),
+        },
+        { status: 400 }
+      )
+    }
+
     // Build filter conditions
     const where: Record<string, unknown> = {}
-    
+
     // Filter by genre if specified
     if (genre && genre !== 'All Genres') {
       where.genre = genre
     }
-    
+
     // Filter by duration (books updated within X days)
     if (days) {
       const daysAgo = new Date()
@@ -23,17 +62,35 @@ export async function GET(request: NextRequest) {
         gte: daysAgo,
       }
     }
-    
-    const books = await prisma.book.findMany({
-      where,
-      orderBy: {
-        popularity_score: 'asc', // Lower rank = more popular on NYT
-      },
-    })
+
+    const [total, rows] = await Promise.all([
+      prisma.book.count({ where }),
+      prisma.book.findMany({
+        where,
+        orderBy: [
+          { popularity_score: 'asc' }, // Lower rank = more popular on NYT
+          { id: 'asc' }, // Stable order across pages
+        ],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ])
+
+    const books = await getEnrichedBooks(rows)
+    const requested = fields?.filter(isEnrichedBookField)
+    const selected = requested
+      ? books.map(book => pickFields(book, requested.includes('id') ? requested : ['id', ...requested]))
+      : books
 
     return NextResponse.json({
       success: true,
-      books: books,
+      books: selected,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
     })
   } catch (error) {
     console.error('Error fetching books:', error)
@@ -47,4 +104,3 @@ export async function GET(request: NextRequest) {
     )
   }
 }
-
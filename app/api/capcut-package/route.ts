@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import archiver from 'archiver'
 import { Readable } from 'stream'
 import { generateSubtitles } from '@/lib/subtitle-generator'
-import { generateStoryboard } from '@/lib/storyboard-generator'
+import { getWordTimings } from '@/lib/word-timing'
+import type { VoiceAlignment } from '@/lib/voice'
+import { generateStoryboard, renderStoryboardText, Storyboard } from '@/lib/storyboard-generator'
 
 interface CapCutPackageRequest {
   title: string
@@ -11,6 +13,7 @@ interface CapCutPackageRequest {
   duration: string | number
   script: string
   voiceAudio: string // Base64 encoded
+  alignment?: VoiceAlignment | null // Character timestamps from /api/generate-voiceover
 }
 
 /**
@@ -44,7 +47,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { title, description, tone, duration, script, voiceAudio } = body
+    const { title, description, tone, duration, script, voiceAudio, alignment } = body
 
     // Validate inputs
     if (!title?.trim()) {
@@ -103,8 +106,11 @@ export async function POST(request: NextRequest) {
     
     let subtitles: string
     try {
-      subtitles = generateSubtitles(script, durationNum)
-      console.log('[CapCut Package] Subtitles generated successfully')
+      const wordTimings = getWordTimings(alignment)
+      subtitles = generateSubtitles(script, durationNum, wordTimings)
+      console.log(
+        `[CapCut Package] Subtitles generated successfully (${wordTimings.length > 0 ? 'word-aligned' : 'estimated'} timing)`
+      )
     } catch (error) {
       console.error('[CapCut Package] Subtitle generation error:', error)
       return NextResponse.json(
@@ -122,7 +128,7 @@ export async function POST(request: NextRequest) {
     // ========================================================================
     console.log('[CapCut Package] Step 3: Generating storyboard...')
     
-    let storyboard: string
+    let storyboard: Storyboard
     try {
       storyboard = await generateStoryboard({
         title,
@@ -132,7 +138,7 @@ export async function POST(request: NextRequest) {
         duration: durationNum,
         sceneCount: 8,
       })
-      console.log('[CapCut Package] Storyboard generated successfully')
+      console.log(`[CapCut Package] Storyboard generated successfully (${storyboard.scenes.length} scenes, ${storyboard.source})`)
     } catch (error) {
       console.error('[CapCut Package] Storyboard generation error:', error)
       return NextResponse.json(
@@ -169,7 +175,8 @@ export async function POST(request: NextRequest) {
       // Add files to archive with specific names
       archive.append(audioBuffer, { name: 'narration.mp3' })
       archive.append(subtitles, { name: 'captions.srt' })
-      archive.append(storyboard, { name: 'storyboard.txt' })
+      archive.append(renderStoryboardText(storyboard), { name: 'storyboard.txt' })
+      archive.append(JSON.stringify(storyboard, null, 2), { name: 'storyboard.json' })
       archive.append(instructions, { name: 'instructions.md' })
 
       // Finalize the archive
@@ -251,6 +258,7 @@ function createInstructions(
 ✅ **narration.mp3** - Professional AI voice-over audio  
 ✅ **captions.srt** - Timed subtitles/captions (SRT format)  
 ✅ **storyboard.txt** - Visual scene descriptions with stock search terms  
+✅ **storyboard.json** - The same scenes as structured data  
 ✅ **instructions.md** - This file
 
 ---
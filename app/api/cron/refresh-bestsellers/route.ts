@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { refreshAllBestsellers } from '@/lib/bestseller-scheduler'
+
+/**
+ * POST /api/cron/refresh-bestsellers
+ * Refresh every NYT list and record rank snapshots (for external cron jobs)
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>`. Lists are fetched 12s
+ * apart, so a full run takes a minute or two.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET
+
+    if (!secret) {
+      return NextResponse.json(
+        { success: false, error: 'CRON_SECRET is not configured' },
+        { status: 503 }
+      )
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await refreshAllBestsellers()
+
+    if (!result.ran) {
+      return NextResponse.json(
+        { success: false, error: 'A refresh is already in progress' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      success: result.failed.length === 0,
+      ...result,
+    })
+  } catch (error) {
+    console.error('Error refreshing bestsellers:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to refresh bestsellers' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { generateScriptWithFallback, generateCapCutScriptWithFallback } from '@/lib/script-generator'
+import { isLLMProviderName, LLMProviderName, LLM_PROVIDERS } from '@/lib/llm'
 
 type Tone = 'Motivational' | 'Emotional' | 'Educational' | 'Aggressive' | 'Calm'
 
@@ -9,6 +10,8 @@ interface GenerateScriptRequest {
   tone: Tone
   duration: number
   capcut?: boolean // Optional: use CapCut-optimized format (short punchy lines)
+  provider?: LLMProviderName // Optional: override LLM_PROVIDER for this request
+  model?: string // Optional: e.g. a cheaper model for drafts
 }
 
 export async function POST(request: NextRequest) {
@@ -27,7 +30,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { title, description, tone, duration, capcut = false } = body
+    const { title, description, tone, duration, capcut = false, provider, model } = body
 
     // Validate inputs
     if (!title?.trim()) {
@@ -70,6 +73,17 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (provider !== undefined && !isLLMProviderName(provider)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid provider',
+          suggestion: `Provider must be one of: ${LLM_PROVIDERS.join(', ')}`,
+        },
+        { status: 400 }
+      )
+    }
+
     // Generate script (CapCut-optimized or standard)
     const scriptType = capcut ? 'CapCut-optimized' : 'Standard'
     console.log(`[Generate Script] Starting ${scriptType} script generation...`)
@@ -80,12 +94,16 @@ export async function POST(request: NextRequest) {
           description,
           tone,
           duration,
+          provider,
+          model,
         })
       : await generateScriptWithFallback({
           title,
           description,
           tone,
           duration,
+          provider,
+          model,
         })
 
     console.log(`[Generate Script] ${scriptType} script generated successfully`)
@@ -94,7 +112,7 @@ export async function POST(request: NextRequest) {
       script: result.script,
       keywords: result.keywords,
       format: capcut ? 'capcut' : 'standard',
-      source: result.script.includes('[AI Generated]') ? 'OpenAI GPT-4' : 'Template',
+      source: result.model ? `${result.provider} (${result.model})` : 'Template',
     })
   } catch (error) {
     console.error('[Generate Script] Error:', error)
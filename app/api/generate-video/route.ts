@@ -1,39 +1,60 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { generateVoice, VOICE_IDS } from '@/lib/voice'
-import { fetchVisualAssets, getFilePaths } from '@/lib/media'
-import { createVideo, VideoClip } from '@/lib/video'
-import { generateScriptWithFallback } from '@/lib/script-generator'
-import { writeFile, mkdir, unlink } from 'fs/promises'
-import { existsSync } from 'fs'
-import path from 'path'
-import os from 'os'
+import {
+  ERROR_CODES,
+  VALID_DURATIONS,
+  VALID_TONES,
+  GenerateVideoRequest,
+} from '@/lib/video-pipeline'
+import { enqueueRenderJob } from '@/lib/render-queue'
+import { isLLMProviderName, LLM_PROVIDERS } from '@/lib/llm'
+import {
+  CROP_MODES,
+  isCropMode,
+  isOutputProfileName,
+  OUTPUT_PROFILE_NAMES,
+} from '@/lib/output-profiles'
+import { isTransitionType, TRANSITION_TYPES } from '@/lib/transitions'
+import { BRAND_TEMPLATE_NAMES, MAX_CARD_TEXT_LENGTH, isBrandTemplateName } from '@/lib/brand-templates'
+import { COVER_HOSTS, parseCoverUrl } from '@/lib/cover-hosts'
+import { prisma } from '@/lib/db'
 
 /**
  * POST /api/generate-video
- * 
- * Video Generation Pipeline:
- * 1. generateScript() - Create video script from book info
- * 2. generateVoice() - Convert script to speech audio (ElevenLabs)
- * 3. fetchVisualAssets() - Get relevant videos/images (Pexels/Unsplash)
- * 4. createVideo() - Combine audio and visuals into final video (FFmpeg)
+ *
+ * Validates the request and queues a render job. The pipeline
+ * (script → voice → storyboard → media → FFmpeg, see lib/video-pipeline.ts) runs in the
+ * background worker from lib/render-queue.ts.
+ *
+ * Returns 202 with { jobId, statusUrl }; poll GET /api/jobs/[id] for the
+ * current step, progress and final VideoResult.
+ *
+ * Pass an optional projectId to save the finished video to that project's
+ * render history (see /api/projects).
+ *
+ * Pass profiles (e.g. ["reels", "square", "landscape"]) to render several
+ * aspect ratios from the same voiceover in one job, and cropMode
+ * (smart | center | fit) to choose how footage fills each frame.
+ *
+ * A music bed from MUSIC_LIBRARY_DIR matching the tone is added when the
+ * library is configured; pass music: false to render narration only.
+ *
+ * Transitions and Ken Burns motion default to the tone (e.g. dissolves for
+ * Calm, hard cuts for Aggressive); pass transition to override the type.
+ *
+ * Pass book (GoogleBookDetails title/authors/thumbnail) to show the cover
+ * and author on the title card and end card, template to pick the brand
+ * look, and callToAction/handle for the end card.
+ *
+ * Pass templateId to render with a stored video template (see
+ * /api/templates); explicit options in the request still take precedence.
  */
 
 // ============================================================================
 // Types
 // ============================================================================
 
-type Tone = 'Motivational' | 'Emotional' | 'Educational' | 'Aggressive' | 'Calm'
-
-interface GenerateVideoRequest {
-  title: string
-  description: string
-  tone: Tone
-  duration: number
-}
-
-interface ScriptResult {
-  script: string
-  keywords: string[]
+interface GenerateVideoBody extends GenerateVideoRequest {
+  projectId?: number
 }
 
 interface ErrorResponse {
@@ -45,32 +66,6 @@ interface ErrorResponse {
   suggestion?: string
 }
 
-// ============================================================================
-// Error Codes
-// ============================================================================
-
-const ERROR_CODES = {
-  INVALID_JSON: 'ERR_INVALID_JSON',
-  MISSING_TITLE: 'ERR_MISSING_TITLE',
-  MISSING_DESCRIPTION: 'ERR_MISSING_DESCRIPTION',
-  INVALID_TONE: 'ERR_INVALID_TONE',
-  INVALID_DURATION: 'ERR_INVALID_DURATION',
-  SCRIPT_FAILED: 'ERR_SCRIPT_GENERATION',
-  OPENAI_API_KEY_MISSING: 'ERR_OPENAI_KEY_MISSING',
-  OPENAI_API_ERROR: 'ERR_OPENAI_API',
-  VOICE_API_KEY_MISSING: 'ERR_ELEVENLABS_KEY_MISSING',
-  VOICE_API_ERROR: 'ERR_ELEVENLABS_API',
-  VOICE_QUOTA_EXCEEDED: 'ERR_ELEVENLABS_QUOTA',
-  VOICE_CONTENT_MODERATION: 'ERR_CONTENT_MODERATION',
-  VOICE_TEXT_VALIDATION: 'ERR_TEXT_VALIDATION',
-  MEDIA_API_KEYS_MISSING: 'ERR_MEDIA_KEYS_MISSING',
-  MEDIA_FETCH_FAILED: 'ERR_MEDIA_FETCH',
-  MEDIA_NO_ASSETS: 'ERR_NO_ASSETS_FOUND',
-  FFMPEG_NOT_INSTALLED: 'ERR_FFMPEG_MISSING',
-  VIDEO_CREATION_FAILED: 'ERR_VIDEO_CREATION',
-  UNKNOWN_ERROR: 'ERR_UNKNOWN',
-} as const
-
 // ============================================================================
 // Helper: Create Error Response
 // ============================================================================
@@ -89,35 +84,18 @@ function createErrorResponse(
     step,
     code,
   }
-  
+
   if (details) response.details = details
   if (suggestion) response.suggestion = suggestion
-  
-  return NextResponse.json(response, { status })
-}
-
-// ============================================================================
-// Voice ID mapping by tone
-// ============================================================================
 
-const toneToVoiceId: Record<Tone, string> = {
-  Motivational: VOICE_IDS.motivational,
-  Emotional: VOICE_IDS.calm,
-  Educational: VOICE_IDS.professional,
-  Aggressive: VOICE_IDS.energetic,
-  Calm: VOICE_IDS.calm,
+  return NextResponse.json(response, { status })
 }
 
-// ============================================================================
-// Script Generation (now uses OpenAI via lib/script-generator.ts)
-// ============================================================================
-
 // ============================================================================
 // Main Handler
 // ============================================================================
 
 export async function POST(request: NextRequest) {
-  const tempFiles: string[] = []
   let currentStep = 'initialization'
 
   try {
@@ -125,8 +103,8 @@ export async function POST(request: NextRequest) {
     // Parse Request Body
     // ========================================================================
     currentStep = 'parsing request'
-    let body: GenerateVideoRequest
-    
+    let body: GenerateVideoBody
+
     try {
       body = await request.json()
     } catch (parseError) {
@@ -167,379 +145,204 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const validTones: Tone[] = ['Motivational', 'Emotional', 'Educational', 'Aggressive', 'Calm']
-    if (!body.tone || !validTones.includes(body.tone)) {
+    if (!body.tone || !VALID_TONES.includes(body.tone)) {
       return createErrorResponse(
         'Invalid tone specified',
         currentStep,
         ERROR_CODES.INVALID_TONE,
         `Received tone: "${body.tone}"`,
-        `Tone must be one of: ${validTones.join(', ')}`,
+        `Tone must be one of: ${VALID_TONES.join(', ')}`,
         400
       )
     }
 
-    const validDurations = [30, 45, 60]
-    if (!body.duration || !validDurations.includes(body.duration)) {
+    if (!body.duration || !VALID_DURATIONS.includes(body.duration)) {
       return createErrorResponse(
         'Invalid duration specified',
         currentStep,
         ERROR_CODES.INVALID_DURATION,
         `Received duration: ${body.duration}`,
-        `Duration must be one of: ${validDurations.join(', ')} seconds`,
+        `Duration must be one of: ${VALID_DURATIONS.join(', ')} seconds`,
         400
       )
     }
 
-    const { title, description, tone, duration } = body
-
-    console.log(`[Video Generation] Starting pipeline for "${title}"`)
-    console.log(`  - Tone: ${tone}`)
-    console.log(`  - Duration: ${duration}s`)
-
-    // Ensure temp directory exists
-    const tempDir = path.join(os.tmpdir(), 'mindshelf-video')
-    if (!existsSync(tempDir)) {
-      await mkdir(tempDir, { recursive: true })
+    if (body.provider !== undefined && !isLLMProviderName(body.provider)) {
+      return createErrorResponse(
+        'Invalid LLM provider specified',
+        currentStep,
+        ERROR_CODES.INVALID_PROVIDER,
+        `Received provider: "${body.provider}"`,
+        `Provider must be one of: ${LLM_PROVIDERS.join(', ')}`,
+        400
+      )
     }
 
-    // ========================================================================
-    // Step 1: Generate Script (using OpenAI)
-    // ========================================================================
-    currentStep = 'generating script'
-    console.log(`[Video Generation] Step 1: ${currentStep}...`)
-    
-    // Check if OpenAI API key is configured
-    if (!process.env.OPENAI_API_KEY) {
-      console.warn('[Video Generation] OPENAI_API_KEY not configured, will use template fallback')
+    if (body.profiles !== undefined && (
+      !Array.isArray(body.profiles) ||
+      body.profiles.length === 0 ||
+      !body.profiles.every(isOutputProfileName)
+    )) {
+      return createErrorResponse(
+        'Invalid output profiles specified',
+        currentStep,
+        ERROR_CODES.INVALID_PROFILE,
+        `Received profiles: ${JSON.stringify(body.profiles)}`,
+        `Profiles must be a non-empty array of: ${OUTPUT_PROFILE_NAMES.join(', ')}`,
+        400
+      )
     }
-    
-    let scriptResult: ScriptResult
-    try {
-      scriptResult = await generateScriptWithFallback({
-        title,
-        description,
-        tone,
-        duration,
-      })
-      console.log(`[Video Generation] Script generated (${scriptResult.script.split(/\s+/).length} words)`)
-      console.log(`[Video Generation] Script preview: "${scriptResult.script.substring(0, 100)}..."`)
-    } catch (scriptError) {
-      const errorMessage = scriptError instanceof Error ? scriptError.message : 'Unknown script generation error'
-      console.error('[Video Generation] Script generation failed:', scriptError)
-      
-      // Check for specific OpenAI errors
-      if (errorMessage.includes('OPENAI_API_KEY') || errorMessage.includes('not configured')) {
-        return createErrorResponse(
-          'OpenAI API key not configured',
-          currentStep,
-          ERROR_CODES.OPENAI_API_KEY_MISSING,
-          errorMessage,
-          'Add your OPENAI_API_KEY to .env.local. The system will use template-based scripts as a fallback.'
-        )
-      }
-      
-      if (errorMessage.includes('rate limit') || errorMessage.includes('429')) {
-        return createErrorResponse(
-          'OpenAI rate limit exceeded',
-          currentStep,
-          ERROR_CODES.OPENAI_API_ERROR,
-          errorMessage,
-          'Please wait a moment and try again, or upgrade your OpenAI plan.'
-        )
-      }
-      
-      if (errorMessage.includes('Invalid OpenAI API key') || errorMessage.includes('401')) {
-        return createErrorResponse(
-          'Invalid OpenAI API key',
-          currentStep,
-          ERROR_CODES.OPENAI_API_ERROR,
-          errorMessage,
-          'Check your OPENAI_API_KEY in .env.local and ensure it is valid.'
-        )
-      }
-      
+
+    if (body.cropMode !== undefined && !isCropMode(body.cropMode)) {
       return createErrorResponse(
-        'Failed to generate video script',
+        'Invalid crop mode specified',
         currentStep,
-        ERROR_CODES.SCRIPT_FAILED,
-        errorMessage,
-        'This is an internal error. Please try again or contact support.'
+        ERROR_CODES.INVALID_PROFILE,
+        `Received cropMode: "${body.cropMode}"`,
+        `Crop mode must be one of: ${CROP_MODES.join(', ')}`,
+        400
       )
     }
 
-    // ========================================================================
-    // Step 2: Generate Voice-Over (ElevenLabs)
-    // ========================================================================
-    currentStep = 'generating voice-over'
-    console.log(`[Video Generation] Step 2: ${currentStep}...`)
-    
-    // Check API key first
-    if (!process.env.ELEVENLABS_API_KEY) {
+    if (body.music !== undefined && typeof body.music !== 'boolean') {
       return createErrorResponse(
-        'Voice generation service not configured',
+        'Invalid music option specified',
         currentStep,
-        ERROR_CODES.VOICE_API_KEY_MISSING,
-        'ELEVENLABS_API_KEY environment variable is not set',
-        'Add your ElevenLabs API key to .env.local file: ELEVENLABS_API_KEY=your_key_here'
+        ERROR_CODES.INVALID_MUSIC,
+        `Received music: ${JSON.stringify(body.music)}`,
+        'music must be true or false.',
+        400
       )
     }
-    
-    let voiceFilePath: string
-    try {
-      const voiceResult = await generateVoice({
-        text: scriptResult.script,
-        voiceId: toneToVoiceId[tone],
-        settings: {
-          stability: tone === 'Calm' ? 0.7 : 0.5,
-          similarity_boost: 0.75,
-          style: tone === 'Aggressive' ? 0.8 : 0.5,
-        }
-      })
-      
-      voiceFilePath = path.join(tempDir, `voice-${Date.now()}.mp3`)
-      await writeFile(voiceFilePath, voiceResult.audioBuffer)
-      tempFiles.push(voiceFilePath)
-      
-      console.log(`[Video Generation] Voice saved to ${voiceFilePath}`)
-      console.log(`[Video Generation] Estimated duration: ${voiceResult.estimatedDuration.toFixed(1)}s`)
-    } catch (voiceError) {
-      const errorMessage = voiceError instanceof Error ? voiceError.message : 'Unknown error'
-      const lowerError = errorMessage.toLowerCase()
-      console.error('[Video Generation] Voice generation failed:', voiceError)
-      
-      // Check for specific ElevenLabs errors
-      if (lowerError.includes('401') || lowerError.includes('unauthorized') || lowerError.includes('invalid') && lowerError.includes('api key')) {
-        return createErrorResponse(
-          'ElevenLabs API authentication failed',
-          currentStep,
-          ERROR_CODES.VOICE_API_ERROR,
-          'Your ElevenLabs API key is invalid or expired',
-          'Check your ELEVENLABS_API_KEY in .env.local and ensure it is valid.'
-        )
-      }
-      
-      if (lowerError.includes('429') || lowerError.includes('rate limit') || lowerError.includes('quota')) {
-        return createErrorResponse(
-          'ElevenLabs API quota exceeded',
-          currentStep,
-          ERROR_CODES.VOICE_QUOTA_EXCEEDED,
-          'You have exceeded your ElevenLabs character limit or rate limit',
-          'Upgrade your ElevenLabs plan, wait for your quota to reset, or try again in a few minutes.'
-        )
-      }
-      
-      // Check for content moderation issues
-      if (lowerError.includes('content moderation') || 
-          lowerError.includes('safety') || 
-          lowerError.includes('policy') ||
-          lowerError.includes('inappropriate') ||
-          lowerError.includes('violat')) {
-        return createErrorResponse(
-          'Content moderation issue detected',
-          currentStep,
-          ERROR_CODES.VOICE_CONTENT_MODERATION,
-          errorMessage,
-          'The book title or description may contain words that trigger content filters. Try rephrasing: avoid religious, political, or sensitive terms in the title.'
-        )
-      }
-      
-      // Check for text validation errors
-      if (lowerError.includes('validation') || lowerError.includes('text') || lowerError.includes('422')) {
-        return createErrorResponse(
-          'Text validation failed',
-          currentStep,
-          ERROR_CODES.VOICE_TEXT_VALIDATION,
-          errorMessage,
-          'The script may be too long or contain unsupported characters. Try a shorter description.'
-        )
-      }
-      
+
+    if (body.transition !== undefined && !isTransitionType(body.transition)) {
       return createErrorResponse(
-        'Failed to generate voice-over audio',
+        'Invalid transition specified',
         currentStep,
-        ERROR_CODES.VOICE_API_ERROR,
-        errorMessage,
-        'Check your ElevenLabs API key and ensure the service is available. The error details above may provide more information.'
+        ERROR_CODES.INVALID_TRANSITION,
+        `Received transition: "${body.transition}"`,
+        `Transition must be one of: ${TRANSITION_TYPES.join(', ')}`,
+        400
       )
     }
 
-    // ========================================================================
-    // Step 3: Fetch Visual Assets (Pexels/Unsplash)
-    // ========================================================================
-    currentStep = 'fetching visual assets'
-    console.log(`[Video Generation] Step 3: ${currentStep}...`)
-    
-    // Check API keys first
-    const hasPexelsKey = !!process.env.PEXELS_API_KEY
-    const hasUnsplashKey = !!process.env.UNSPLASH_ACCESS_KEY
-    
-    if (!hasPexelsKey && !hasUnsplashKey) {
+    if (body.template !== undefined && !isBrandTemplateName(body.template)) {
       return createErrorResponse(
-        'No media API keys configured',
+        'Invalid template specified',
         currentStep,
-        ERROR_CODES.MEDIA_API_KEYS_MISSING,
-        'Neither PEXELS_API_KEY nor UNSPLASH_ACCESS_KEY environment variables are set',
-        'Add at least one media API key to .env.local: PEXELS_API_KEY=your_key or UNSPLASH_ACCESS_KEY=your_key'
+        ERROR_CODES.INVALID_BRANDING,
+        `Received template: "${body.template}"`,
+        `Template must be one of: ${BRAND_TEMPLATE_NAMES.join(', ')}`,
+        400
       )
     }
-    
-    let assetPaths: string[]
-    try {
-      const assets = await fetchVisualAssets(title, description, { 
-        count: 6,
-        orientation: 'portrait',
-      })
-      assetPaths = getFilePaths(assets)
-      tempFiles.push(...assetPaths)
-      console.log(`[Video Generation] Fetched ${assetPaths.length} visual assets`)
-    } catch (mediaError) {
-      const errorMessage = mediaError instanceof Error ? mediaError.message : 'Unknown error'
-      console.error('[Video Generation] Visual asset fetch failed:', mediaError)
-      
-      // Check for specific API errors
-      if (errorMessage.includes('401') || errorMessage.includes('Invalid')) {
-        const invalidApi = errorMessage.includes('Pexels') ? 'Pexels' : 'Unsplash'
+
+    for (const field of ['callToAction', 'handle'] as const) {
+      const value = body[field]
+      if (value !== undefined && (typeof value !== 'string' || value.length > MAX_CARD_TEXT_LENGTH)) {
         return createErrorResponse(
-          `${invalidApi} API authentication failed`,
+          `Invalid ${field} specified`,
           currentStep,
-          ERROR_CODES.MEDIA_FETCH_FAILED,
-          `Your ${invalidApi} API key is invalid`,
-          `Check your ${invalidApi === 'Pexels' ? 'PEXELS_API_KEY' : 'UNSPLASH_ACCESS_KEY'} in .env.local`
+          ERROR_CODES.INVALID_BRANDING,
+          `Received ${field}: ${JSON.stringify(value)}`,
+          `${field} must be a string of at most ${MAX_CARD_TEXT_LENGTH} characters.`,
+          400
         )
       }
-      
-      return createErrorResponse(
-        'Failed to fetch visual assets',
-        currentStep,
-        ERROR_CODES.MEDIA_FETCH_FAILED,
-        errorMessage,
-        'Check your media API keys and ensure Pexels/Unsplash services are available.'
-      )
     }
 
-    if (assetPaths.length === 0) {
+    if (body.book !== undefined && (
+      typeof body.book !== 'object' || body.book === null ||
+      (body.book.title !== undefined && typeof body.book.title !== 'string') ||
+      (body.book.authors !== undefined && (!Array.isArray(body.book.authors) || !body.book.authors.every(a => typeof a === 'string'))) ||
+      (body.book.thumbnail !== undefined && (typeof body.book.thumbnail !== 'string' || !parseCoverUrl(body.book.thumbnail)))
+    )) {
       return createErrorResponse(
-        'No visual assets found',
+        'Invalid book specified',
         currentStep,
-        ERROR_CODES.MEDIA_NO_ASSETS,
-        `Could not find any videos or images matching "${title}"`,
-        'Try using a more generic book title or description with common keywords like "motivation", "success", or "mindset".'
+        ERROR_CODES.INVALID_BRANDING,
+        `book must be an object with optional title, authors (string array) and thumbnail (cover URL on ${COVER_HOSTS.map(host => host.hostname).join(', ')})`,
+        'Pass the GoogleBookDetails returned by /api/google-books, or omit book.',
+        400
       )
     }
 
-    // ========================================================================
-    // Step 4: Create Video (FFmpeg)
-    // ========================================================================
-    currentStep = 'creating video with FFmpeg'
-    console.log(`[Video Generation] Step 4: ${currentStep}...`)
+    if (body.templateId !== undefined && body.templateId !== null) {
+      const template = Number.isInteger(body.templateId)
+        ? await prisma.videoTemplate.findUnique({ where: { id: body.templateId } })
+        : null
 
-    const clips: VideoClip[] = assetPaths.map(filePath => ({
-      filePath,
-      type: filePath.endsWith('.mp4') || filePath.endsWith('.webm') ? 'video' : 'image',
-    }))
-
-    let videoResult
-    try {
-      videoResult = await createVideo(
-        voiceFilePath,
-        clips,
-        scriptResult.script,
-        {
-          width: 1080,
-          height: 1920,
-          fps: 30,
-          subtitleFontSize: 56,
-        }
-      )
-      console.log(`[Video Generation] Video created: ${videoResult.videoUrl}`)
-    } catch (videoError) {
-      const errorMessage = videoError instanceof Error ? videoError.message : 'Unknown error'
-      console.error('[Video Generation] Video creation failed:', videoError)
-      
-      // Check for FFmpeg-specific errors
-      if (errorMessage.includes('ffmpeg') || errorMessage.includes('ENOENT') || errorMessage.includes('spawn')) {
+      if (!template) {
         return createErrorResponse(
-          'FFmpeg is not installed or not found',
+          'Video template not found',
           currentStep,
-          ERROR_CODES.FFMPEG_NOT_INSTALLED,
-          errorMessage,
-          'Install FFmpeg on your system. On Windows: choco install ffmpeg. On Mac: brew install ffmpeg. On Ubuntu: sudo apt install ffmpeg'
+          ERROR_CODES.INVALID_TEMPLATE,
+          `Received templateId: ${body.templateId}`,
+          'Create the template with POST /api/templates or omit templateId.',
+          400
         )
       }
-      
-      if (errorMessage.includes('codec') || errorMessage.includes('encoder')) {
-        return createErrorResponse(
-          'FFmpeg codec error',
-          currentStep,
-          ERROR_CODES.VIDEO_CREATION_FAILED,
-          errorMessage,
-          'Ensure FFmpeg is installed with libx264 and aac codec support.'
-        )
-      }
-      
-      if (errorMessage.includes('permission') || errorMessage.includes('EACCES')) {
+    }
+
+    if (body.projectId !== undefined && body.projectId !== null) {
+      const project = Number.isInteger(body.projectId)
+        ? await prisma.videoProject.findUnique({ where: { id: body.projectId } })
+        : null
+
+      if (!project) {
         return createErrorResponse(
-          'File permission error',
+          'Project not found',
           currentStep,
-          ERROR_CODES.VIDEO_CREATION_FAILED,
-          errorMessage,
-          'Check that the application has write permissions to the public/videos directory.'
+          ERROR_CODES.INVALID_PROJECT,
+          `Received projectId: ${body.projectId}`,
+          'Create the project with POST /api/projects or omit projectId.',
+          400
         )
       }
-      
-      return createErrorResponse(
-        'Failed to create video',
-        currentStep,
-        ERROR_CODES.VIDEO_CREATION_FAILED,
-        errorMessage,
-        'Check server logs for more details. Ensure FFmpeg is properly installed.'
-      )
-    }
-
-    // ========================================================================
-    // Cleanup Temp Files
-    // ========================================================================
-    currentStep = 'cleanup'
-    console.log(`[Video Generation] Cleaning up ${tempFiles.length} temp files...`)
-    for (const tempFile of tempFiles) {
-      try {
-        await unlink(tempFile)
-      } catch {
-        // Ignore cleanup errors
-      }
     }
 
     // ========================================================================
-    // Step 5: Return Success Response
+    // Queue Render Job
     // ========================================================================
-    console.log(`[Video Generation] ✅ Complete!`)
-    console.log(`[Video Generation] Video URL: ${videoResult.videoUrl}`)
-    console.log(`[Video Generation] Duration: ${videoResult.duration.toFixed(1)}s`)
-    console.log(`[Video Generation] File Size: ${(videoResult.fileSize / 1024 / 1024).toFixed(2)} MB`)
-
-    return NextResponse.json({
-      success: true,
-      videoUrl: videoResult.videoUrl,
-      thumbnailUrl: '/images/video-thumbnail.png',
-      duration: videoResult.duration,
-      fileSize: videoResult.fileSize,
-    })
+    currentStep = 'queueing render job'
+
+    const job = await enqueueRenderJob({
+      title: body.title.trim(),
+      description: body.description.trim(),
+      tone: body.tone,
+      duration: body.duration,
+      provider: body.provider,
+      model: typeof body.model === 'string' && body.model.trim() ? body.model.trim() : undefined,
+      profiles: body.profiles ? Array.from(new Set(body.profiles)) : undefined,
+      cropMode: body.cropMode,
+      music: body.music,
+      transition: body.transition,
+      book: body.book && {
+        title: body.book.title?.trim() || undefined,
+        authors: body.book.authors,
+        thumbnail: body.book.thumbnail || undefined,
+      },
+      template: body.template,
+      callToAction: body.callToAction?.trim(),
+      handle: body.handle?.trim(),
+      templateId: body.templateId ?? undefined,
+    }, body.projectId ?? undefined)
+
+    return NextResponse.json(
+      {
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/api/jobs/${job.id}`,
+      },
+      { status: 202 }
+    )
 
   } catch (error) {
-    // Cleanup on error
-    for (const tempFile of tempFiles) {
-      try {
-        await unlink(tempFile)
-      } catch {
-        // Ignore cleanup errors
-      }
-    }
-
     console.error(`[Video Generation] Unexpected error during "${currentStep}":`, error)
-    
+
     return createErrorResponse(
-      'An unexpected error occurred during video generation',
+      'An unexpected error occurred while queueing video generation',
       currentStep,
       ERROR_CODES.UNKNOWN_ERROR,
       error instanceof Error ? error.message : 'Unknown error',
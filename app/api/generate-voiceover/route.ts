@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { generateVoice, type VoiceTone } from '@/lib/voice'
+import { generateVoice, isTTSProviderName, TTS_PROVIDERS, type VoiceTone, type TTSProviderName } from '@/lib/voice'
 
 /**
  * API tone mapping to voice tone presets
@@ -9,6 +9,8 @@ type APITone = 'Motivational' | 'Emotional' | 'Educational' | 'Aggressive' | 'Ca
 interface GenerateVoiceoverRequest {
   script: string
   tone: APITone
+  /** Use only this TTS provider (default: first configured, with fallback) */
+  provider?: TTSProviderName
 }
 
 /**
@@ -23,12 +25,13 @@ const apiToneToVoiceTone: Record<APITone, VoiceTone> = {
 }
 
 /**
- * API Route: Generate voiceover using ElevenLabs TTS
+ * API Route: Generate voiceover using the configured TTS providers
  * 
  * POST /api/generate-voiceover
- * Body: { script: string, tone: APITone }
+ * Body: { script: string, tone: APITone, provider?: 'elevenlabs' | 'openai' | 'local' }
  * 
- * Returns: { success: true, audio: base64, ... } or error
+ * Returns: { success: true, audio: base64, contentType, provider, alignment, ... } or error
+ * (alignment holds character timestamps for subtitle sync, null if unavailable)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -46,7 +49,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { script, tone } = body
+    const { script, tone, provider } = body
 
     // Validate tone (validates before passing to voice generation)
     const validTones: APITone[] = ['Motivational', 'Emotional', 'Educational', 'Aggressive', 'Calm']
@@ -62,6 +65,18 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (provider !== undefined && !isTTSProviderName(provider)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid provider',
+          details: `Provider must be one of: ${TTS_PROVIDERS.join(', ')}`,
+          suggestion: 'Omit provider to use the first configured one',
+        },
+        { status: 400 }
+      )
+    }
+
     // Map API tone to voice tone
     const voiceTone = apiToneToVoiceTone[tone]
 
@@ -74,9 +89,11 @@ export async function POST(request: NextRequest) {
     const result = await generateVoice({
       text: script,
       tone: voiceTone,
+      provider,
     })
 
     console.log('[API] Generation successful')
+    console.log('[API] Provider:', result.provider)
     console.log('[API] Voice used:', result.voiceName, `(${result.voiceId})`)
     console.log('[API] Model used:', result.modelUsed)
     console.log('[API] Audio size:', result.audioBuffer.length, 'bytes')
@@ -93,6 +110,8 @@ export async function POST(request: NextRequest) {
       voiceId: result.voiceId,
       voiceName: result.voiceName,
       modelUsed: result.modelUsed,
+      provider: result.provider,
+      alignment: result.alignment ?? null,
     })
   } catch (error) {
     console.error('[API] Voiceover generation error:', error)
@@ -102,13 +121,25 @@ export async function POST(request: NextRequest) {
     // The refactored library provides detailed error messages
     // We can pass them through with appropriate HTTP status codes
     
+    if (errorMessage.includes('No text-to-speech provider configured')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Voice generation service not configured',
+          details: errorMessage,
+          suggestion: 'Add ELEVENLABS_API_KEY or OPENAI_API_KEY to .env.local, or set LOCAL_TTS_ENGINE for offline audio',
+        },
+        { status: 503 }
+      )
+    }
+
     if (errorMessage.includes('API key') || errorMessage.includes('Authentication')) {
       return NextResponse.json(
         {
           success: false,
           error: 'Authentication failed',
           details: errorMessage,
-          suggestion: 'Check your ELEVENLABS_API_KEY in .env.local',
+          suggestion: 'Check your ELEVENLABS_API_KEY / OPENAI_API_KEY in .env.local',
         },
         { status: 401 }
       )
@@ -1,7 +1,8 @@
 /**
- * Google Books API Enrichment Endpoint
+ * Book Enrichment Endpoint
  * 
- * This API route enriches book data with metadata from Google Books.
+ * This API route enriches book data with metadata from Google Books and
+ * Open Library, merged field by field (lib/book-enrichment.ts).
  * It implements caching to reduce external API calls and improve performance.
  * 
  * SECURITY:
@@ -10,69 +11,42 @@
  * - Input validation prevents injection attacks
  * 
  * PERFORMANCE:
- * - 24-hour cache in Supabase reduces API calls
- * - Multi-strategy search for best match
+ * - 24-hour cache per provider in Supabase reduces API calls; stale entries
+ *   are served while they refresh, "not found" is cached for 6 hours
+ * - Concurrent identical lookups share one provider call
+ * - Rate-limited providers are backed off (503 with Retry-After when
+ *   nothing is cached)
+ * - Providers are queried in parallel, each with a multi-strategy search
  * - Request timeout prevents hanging
  * 
+ * ACCURACY:
+ * - Results are scored against the request (ISBN, title, authors, year) by
+ *   lib/book-matching.ts; summaries and study guides are penalized
+ * - Responses carry a confidence and flag low-confidence matches for
+ *   manual confirmation
+ * - Responses record which provider each field came from (`sources`)
+ * - With a bookId, a manual override (lib/book-overrides.ts) wins over search
+ * 
  * @route POST /api/google-books
- * @param {GoogleBooksRequest} body - { title, author, isbn? }
+ * @param {GoogleBooksRequest} body - { title, author, isbn?, publishedYear?, bookId? }
  * @returns {GoogleBookDetails | GoogleBooksNotFoundResponse | GoogleBooksErrorResponse}
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { prisma } from '@/lib/db'
+import { MatchTarget } from '@/lib/book-matching'
+import { enrichBook } from '@/lib/book-enrichment'
+import { getEnrichmentOverride } from '@/lib/book-overrides'
+import { ProviderUnavailableError } from '@/lib/provider-backoff'
 import {
   GoogleBookDetails,
   GoogleBooksRequest,
   GoogleBooksNotFoundResponse,
-  CachedGoogleBooksData,
-  isNotFoundResponse,
-  CACHE_DURATION_MS,
-  MAX_GOOGLE_BOOKS_RESULTS,
-  API_TIMEOUT_MS,
 } from '@/lib/types/google-books'
 
-// ============================================================================
-// Internal Types (not exported - Google Books API response structure)
-// ============================================================================
-
-interface GoogleBooksVolume {
-  volumeInfo: {
-    title?: string
-    authors?: string[]
-    description?: string
-    publisher?: string
-    publishedDate?: string
-    averageRating?: number
-    ratingsCount?: number
-    imageLinks?: {
-      thumbnail?: string
-      smallThumbnail?: string
-    }
-    industryIdentifiers?: Array<{
-      type: 'ISBN_10' | 'ISBN_13' | 'OTHER'
-      identifier: string
-    }>
-  }
-}
-
-interface GoogleBooksApiResponse {
-  totalItems: number
-  items?: GoogleBooksVolume[]
-}
-
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
-/**
- * Normalize text for consistent cache key generation
- * Trims whitespace and converts to lowercase
- */
-function normalizeText(text: string): string {
-  return text.trim().toLowerCase()
-}
-
 /**
  * Validate and sanitize the request body
  * Returns null if validation fails, otherwise returns sanitized request
@@ -82,7 +56,7 @@ function validateRequest(body: unknown): GoogleBooksRequest | null {
     return null
   }
 
-  const { title, author, isbn } = body as Record<string, unknown>
+  const { title, author, isbn, publishedYear, bookId } = body as Record<string, unknown>
 
   // Title is required and must be a non-empty string
   if (typeof title !== 'string' || title.trim().length === 0) {
@@ -99,166 +73,22 @@ function validateRequest(body: unknown): GoogleBooksRequest | null {
     return null
   }
 
-  return {
-    title: title.trim(),
-    author: author.trim(),
-    isbn: isbn ? isbn.trim() : undefined,
-  }
-}
-
-/**
- * Select the best book from multiple search results
- * 
- * Priority:
- * 1. ISBN match (if ISBN provided)
- * 2. Highest average rating
- * 3. Most ratings (as a tiebreaker)
- * 4. First result (fallback)
- */
-function selectBestBook(
-  items: GoogleBooksVolume[],
-  targetIsbn?: string
-): GoogleBooksVolume {
-  // Single result - return it directly
-  if (items.length === 1) {
-    return items[0]
-  }
-
-  // Try to find ISBN match first (most accurate)
-  if (targetIsbn) {
-    const normalizedIsbn = targetIsbn.replace(/[-\s]/g, '')
-    const isbnMatch = items.find((item) =>
-      item.volumeInfo.industryIdentifiers?.some(
-        (id) => id.identifier.replace(/[-\s]/g, '') === normalizedIsbn
-      )
-    )
-    if (isbnMatch) {
-      return isbnMatch
-    }
-  }
-
-  // Sort by rating (desc), then by ratings count (desc)
-  const sorted = [...items].sort((a, b) => {
-    const ratingA = a.volumeInfo.averageRating ?? 0
-    const ratingB = b.volumeInfo.averageRating ?? 0
-
-    if (ratingB !== ratingA) {
-      return ratingB - ratingA
-    }
-
-    const countA = a.volumeInfo.ratingsCount ?? 0
-    const countB = b.volumeInfo.ratingsCount ?? 0
-    return countB - countA
-  })
-
-  return sorted[0]
-}
-
-/**
- * Fetch books from Google Books API with timeout handling
- * Returns null if the request fails or times out
- */
-async function fetchGoogleBooks(
-  query: string,
-  apiKey: string,
-  maxResults: number = MAX_GOOGLE_BOOKS_RESULTS
-): Promise<GoogleBooksVolume[] | null> {
-  const url = new URL('https://www.googleapis.com/books/v1/volumes')
-  url.searchParams.set('q', query)
-  url.searchParams.set('key', apiKey)
-  url.searchParams.set('maxResults', maxResults.toString())
-
-  try {
-    // Create abort controller for timeout
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), API_TIMEOUT_MS)
-
-    const response = await fetch(url.toString(), {
-      signal: controller.signal,
-      headers: {
-        'Accept': 'application/json',
-      },
-    })
-
-    clearTimeout(timeoutId)
-
-    if (!response.ok) {
-      console.error(`[Google Books API] HTTP ${response.status}: ${response.statusText}`)
-      return null
-    }
-
-    const data: GoogleBooksApiResponse = await response.json()
-    return data.items ?? null
-  } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      console.error('[Google Books API] Request timed out')
-    } else {
-      console.error('[Google Books API] Fetch error:', error)
-    }
+  // Publication year is optional but must be a whole number if provided
+  if (publishedYear !== undefined && !Number.isInteger(publishedYear)) {
     return null
   }
-}
-
-/**
- * Build enriched book data from a Google Books volume
- * Provides fallback values for missing fields
- */
-function buildEnrichedData(
-  volume: GoogleBooksVolume,
-  fallbackTitle: string,
-  fallbackAuthor: string
-): GoogleBookDetails {
-  const info = volume.volumeInfo
 
-  // Prefer HTTPS for thumbnails, handle protocol upgrade
-  let thumbnail = info.imageLinks?.thumbnail || info.imageLinks?.smallThumbnail || ''
-  if (thumbnail.startsWith('http://')) {
-    thumbnail = thumbnail.replace('http://', 'https://')
+  // Book id is optional but must be a whole number if provided
+  if (bookId !== undefined && !Number.isInteger(bookId)) {
+    return null
   }
 
   return {
-    title: info.title || fallbackTitle,
-    authors: info.authors || [fallbackAuthor],
-    description: info.description || 'No description available',
-    publisher: info.publisher || 'Unknown publisher',
-    publishedDate: info.publishedDate || 'Unknown date',
-    averageRating: info.averageRating ?? null,
-    ratingsCount: info.ratingsCount ?? null,
-    thumbnail,
-  }
-}
-
-/**
- * Save data to cache using upsert
- * Handles both successful results and "not found" markers
- */
-async function saveToCache(
-  normalizedTitle: string,
-  normalizedAuthor: string,
-  data: CachedGoogleBooksData
-): Promise<void> {
-  try {
-    await prisma.googleBooksCache.upsert({
-      where: {
-        title_author: {
-          title: normalizedTitle,
-          author: normalizedAuthor,
-        },
-      },
-      update: {
-        data: data as object,
-        cached_at: new Date(),
-      },
-      create: {
-        title: normalizedTitle,
-        author: normalizedAuthor,
-        data: data as object,
-        cached_at: new Date(),
-      },
-    })
-  } catch (error) {
-    // Log but don't fail the request if caching fails
-    console.error('[Cache] Failed to save:', error)
+    title: title.trim(),
+    author: author.trim(),
+    isbn: isbn ? isbn.trim() : undefined,
+    publishedYear: publishedYear as number | undefined,
+    bookId: bookId as number | undefined,
   }
 }
 
@@ -292,104 +122,54 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { title, author, isbn } = validatedRequest
-    const normalizedTitle = normalizeText(title)
-    const normalizedAuthor = normalizeText(author)
+    const { title, author, isbn, publishedYear, bookId } = validatedRequest
+    const target: MatchTarget = { title, author, isbn, publishedYear }
 
     // ========================================================================
-    // 2. Check cache first
+    // 2. Manually curated data wins over everything else
     // ========================================================================
-    try {
-      const cachedEntry = await prisma.googleBooksCache.findUnique({
-        where: {
-          title_author: {
-            title: normalizedTitle,
-            author: normalizedAuthor,
-          },
-        },
-      })
-
-      if (cachedEntry) {
-        const cacheAge = Date.now() - cachedEntry.cached_at.getTime()
-
-        if (cacheAge < CACHE_DURATION_MS) {
-          // Convert Prisma JsonValue to our type (via unknown for type safety)
-          const cachedData = cachedEntry.data as unknown as CachedGoogleBooksData
-
-          // Return cached "not found" with 404 status
-          if (isNotFoundResponse(cachedData)) {
-            return NextResponse.json(cachedData, { status: 404 })
-          }
-
-          // Return cached book data
-          return NextResponse.json(cachedData)
+    if (bookId !== undefined) {
+      try {
+        const override = await getEnrichmentOverride(bookId)
+        if (override) {
+          return NextResponse.json(override.details)
         }
-        // Cache expired - continue to fetch fresh data
+      } catch (error) {
+        // Log override error but continue with automatic enrichment
+        console.error('[Override] Read error:', error)
       }
-    } catch (error) {
-      // Log cache error but continue with API fetch
-      console.error('[Cache] Read error:', error)
     }
 
     // ========================================================================
-    // 3. Validate API key exists
+    // 3. Look the book up in every provider (cached per provider) and merge
     // ========================================================================
-    const apiKey = process.env.GOOGLE_BOOKS_API_KEY
-    if (!apiKey) {
-      console.error('[Config] GOOGLE_BOOKS_API_KEY is not configured')
-      return NextResponse.json(
-        { error: 'CONFIG_ERROR', message: 'Server configuration error' },
-        { status: 500 }
-      )
-    }
-
-    // ========================================================================
-    // 4. Multi-strategy search
-    // ========================================================================
-    let bestBook: GoogleBooksVolume | null = null
-
-    // Strategy 1: ISBN search (most accurate, if provided)
-    if (isbn) {
-      const isbnQuery = `isbn:${isbn}`
-      const isbnResults = await fetchGoogleBooks(isbnQuery, apiKey, 1)
-      if (isbnResults && isbnResults.length > 0) {
-        bestBook = isbnResults[0]
-      }
-    }
-
-    // Strategy 2: Title + Author search
-    if (!bestBook) {
-      const titleAuthorQuery = `intitle:${title}+inauthor:${author}`
-      const results = await fetchGoogleBooks(titleAuthorQuery, apiKey)
-      if (results && results.length > 0) {
-        bestBook = selectBestBook(results, isbn)
-      }
-    }
-
-    // Strategy 3: Title-only fallback
-    if (!bestBook) {
-      const titleQuery = `intitle:${title}`
-      const results = await fetchGoogleBooks(titleQuery, apiKey)
-      if (results && results.length > 0) {
-        bestBook = selectBestBook(results, isbn)
+    let enrichedData: GoogleBookDetails | null
+    try {
+      enrichedData = await enrichBook(target)
+    } catch (error) {
+      // Nothing cached and a provider is rate limited or down: ask the client to retry later
+      if (error instanceof ProviderUnavailableError) {
+        return NextResponse.json(
+          { error: 'PROVIDER_UNAVAILABLE', message: 'Book data is temporarily unavailable' },
+          {
+            status: 503,
+            headers: error.retryAfterMs !== null
+              ? { 'Retry-After': Math.ceil(error.retryAfterMs / 1000).toString() }
+              : undefined,
+          }
+        )
       }
+      throw error
     }
 
     // ========================================================================
-    // 5. Handle "not found" case
+    // 4. Handle "not found" case
     // ========================================================================
-    if (!bestBook) {
+    if (!enrichedData) {
       const notFoundData: GoogleBooksNotFoundResponse = { message: 'No match found' }
-      await saveToCache(normalizedTitle, normalizedAuthor, notFoundData)
       return NextResponse.json(notFoundData, { status: 404 })
     }
 
-    // ========================================================================
-    // 6. Build response and cache
-    // ========================================================================
-    const enrichedData = buildEnrichedData(bestBook, title, author)
-    await saveToCache(normalizedTitle, normalizedAuthor, enrichedData)
-
     return NextResponse.json(enrichedData)
 
   } catch (error) {
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRenderJob, ensureRenderWorker } from '@/lib/render-queue'
+
+/**
+ * GET /api/jobs/[id]
+ * Report status of a render job queued by POST /api/generate-video
+ *
+ * Returns the current pipeline step, FFmpeg progress (0-100), and the
+ * final VideoResult once status is "completed" (or error details if "failed").
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Make sure queued jobs get picked up after a server restart
+    ensureRenderWorker()
+
+    const job = await getRenderJob(params.id)
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, job })
+  } catch (error) {
+    console.error('Error fetching render job:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch job' },
+      { status: 500 }
+    )
+  }
+}
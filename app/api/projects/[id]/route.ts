@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { VALID_DURATIONS, VALID_TONES } from '@/lib/video-pipeline'
+import { PROJECT_DETAIL_INCLUDE, deleteProjectFiles, parseProjectId } from '@/lib/projects'
+
+/**
+ * GET /api/projects/[id]
+ * Fetch a project with its full history (scripts, voice takes, renders)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const projectId = parseProjectId(params.id)
+
+    if (projectId === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid project ID' },
+        { status: 400 }
+      )
+    }
+
+    const project = await prisma.videoProject.findUnique({
+      where: { id: projectId },
+      include: PROJECT_DETAIL_INCLUDE,
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, project })
+  } catch (error) {
+    console.error('Error fetching project:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch project' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/projects/[id]
+ * Update project settings
+ * Body: any of { title, description, tone, duration }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const projectId = parseProjectId(params.id)
+
+    if (projectId === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid project ID' },
+        { status: 400 }
+      )
+    }
+
+    let body: Record<string, unknown>
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    const data: Record<string, unknown> = {}
+
+    if (body.title !== undefined) {
+      if (typeof body.title !== 'string' || !body.title.trim()) {
+        return NextResponse.json(
+          { success: false, error: 'Title must be a non-empty string' },
+          { status: 400 }
+        )
+      }
+      data.title = body.title.trim()
+    }
+
+    if (body.description !== undefined) {
+      if (typeof body.description !== 'string') {
+        return NextResponse.json(
+          { success: false, error: 'Description must be a string' },
+          { status: 400 }
+        )
+      }
+      data.description = body.description.trim()
+    }
+
+    if (body.tone !== undefined) {
+      if (!VALID_TONES.includes(body.tone as never)) {
+        return NextResponse.json(
+          { success: false, error: `Tone must be one of: ${VALID_TONES.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      data.tone = body.tone
+    }
+
+    if (body.duration !== undefined) {
+      if (!VALID_DURATIONS.includes(body.duration as number)) {
+        return NextResponse.json(
+          { success: false, error: `Duration must be one of: ${VALID_DURATIONS.join(', ')} seconds` },
+          { status: 400 }
+        )
+      }
+      data.duration = body.duration
+    }
+
+    const existing = await prisma.videoProject.findUnique({ where: { id: projectId } })
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const project = await prisma.videoProject.update({
+      where: { id: projectId },
+      data,
+    })
+
+    return NextResponse.json({ success: true, project })
+  } catch (error) {
+    console.error('Error updating project:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update project' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]
+ * Delete a project, its history, and its stored audio/video files
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const projectId = parseProjectId(params.id)
+
+    if (projectId === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid project ID' },
+        { status: 400 }
+      )
+    }
+
+    const project = await prisma.videoProject.findUnique({
+      where: { id: projectId },
+      include: { voiceTakes: true, renders: true },
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.videoProject.delete({ where: { id: projectId } })
+
+    await deleteProjectFiles([
+      ...project.voiceTakes.map(take => take.audioUrl),
+      ...project.renders.map(render => render.videoUrl),
+    ])
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting project:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete project' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { parseProjectId } from '@/lib/projects'
+
+type ScriptFormat = 'standard' | 'capcut' | 'manual'
+
+interface CreateScriptVersionRequest {
+  content: string
+  format?: ScriptFormat
+}
+
+const VALID_FORMATS: ScriptFormat[] = ['standard', 'capcut', 'manual']
+
+/** Attempts at saving when a concurrent save takes the same version number */
+const MAX_VERSION_ATTEMPTS = 3
+
+/**
+ * Create the project's next script version and touch the project
+ */
+function saveNextVersion(projectId: number, content: string, format: ScriptFormat) {
+  return prisma.$transaction(async (tx) => {
+    const latest = await tx.scriptVersion.findFirst({
+      where: { projectId },
+      orderBy: { version: 'desc' },
+    })
+
+    const created = await tx.scriptVersion.create({
+      data: {
+        projectId,
+        version: (latest?.version ?? 0) + 1,
+        content,
+        format,
+      },
+    })
+
+    await tx.videoProject.update({
+      where: { id: projectId },
+      data: { updatedAt: new Date() },
+    })
+
+    return created
+  })
+}
+
+/**
+ * POST /api/projects/[id]/scripts
+ * Save a new script version (versions are numbered per project)
+ * Body: { content, format? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const projectId = parseProjectId(params.id)
+
+    if (projectId === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid project ID' },
+        { status: 400 }
+      )
+    }
+
+    let body: CreateScriptVersionRequest
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    const { content, format = 'standard' } = body
+
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Script content is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!VALID_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { success: false, error: `Format must be one of: ${VALID_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const project = await prisma.videoProject.findUnique({ where: { id: projectId } })
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    // Two concurrent saves can pick the same next version; the unique
+    // constraint rejects one of them (P2002), which then tries again
+    let script = null
+    for (let attempt = 1; !script; attempt++) {
+      try {
+        script = await saveNextVersion(projectId, content.trim(), format)
+      } catch (error) {
+        const isVersionConflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+        if (!isVersionConflict || attempt >= MAX_VERSION_ATTEMPTS) {
+          throw error
+        }
+      }
+    }
+
+    return NextResponse.json({ success: true, script }, { status: 201 })
+  } catch (error) {
+    console.error('Error saving script version:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save script version' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import {
+  MAX_VOICE_TAKE_SIZE,
+  getAudioExtension,
+  parseProjectId,
+  saveVoiceTakeAudio,
+} from '@/lib/projects'
+import type { VoiceAlignment } from '@/lib/voice'
+
+interface CreateVoiceTakeRequest {
+  audio: string // Base64 encoded
+  contentType?: string
+  source?: 'ai' | 'recorded'
+  scriptVersionId?: number | null
+  voiceId?: string
+  voiceName?: string
+  modelUsed?: string
+  duration?: number
+  alignment?: VoiceAlignment | null
+}
+
+/**
+ * POST /api/projects/[id]/voice-takes
+ * Store a generated or recorded voiceover for a project
+ * Body: { audio: base64, contentType?, source?, scriptVersionId?, voiceId?, voiceName?, modelUsed?, duration?, alignment? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const projectId = parseProjectId(params.id)
+
+    if (projectId === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid project ID' },
+        { status: 400 }
+      )
+    }
+
+    let body: CreateVoiceTakeRequest
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    const { audio, contentType = 'audio/mpeg', source = 'ai', scriptVersionId } = body
+
+    if (!audio || typeof audio !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Voice audio is required' },
+        { status: 400 }
+      )
+    }
+
+    if (scriptVersionId !== undefined && scriptVersionId !== null && !Number.isInteger(scriptVersionId)) {
+      return NextResponse.json(
+        { success: false, error: 'scriptVersionId must be an integer' },
+        { status: 400 }
+      )
+    }
+
+    for (const field of ['contentType', 'voiceId', 'voiceName', 'modelUsed'] as const) {
+      if (body[field] !== undefined && typeof body[field] !== 'string') {
+        return NextResponse.json(
+          { success: false, error: `${field} must be a string` },
+          { status: 400 }
+        )
+      }
+    }
+
+    const extension = getAudioExtension(contentType)
+    if (!extension) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported audio type: ${contentType}` },
+        { status: 400 }
+      )
+    }
+
+    const audioBuffer = Buffer.from(audio, 'base64')
+    if (audioBuffer.length === 0 || audioBuffer.length > MAX_VOICE_TAKE_SIZE) {
+      return NextResponse.json(
+        { success: false, error: 'Voice audio is empty or too large' },
+        { status: 400 }
+      )
+    }
+
+    const project = await prisma.videoProject.findUnique({ where: { id: projectId } })
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    if (scriptVersionId) {
+      const script = await prisma.scriptVersion.findFirst({
+        where: { id: scriptVersionId, projectId },
+      })
+      if (!script) {
+        return NextResponse.json(
+          { success: false, error: 'Script version not found for this project' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const audioUrl = await saveVoiceTakeAudio(audioBuffer, extension)
+
+    const voiceTake = await prisma.voiceTake.create({
+      data: {
+        projectId,
+        scriptVersionId: scriptVersionId || null,
+        audioUrl,
+        contentType,
+        source: source === 'recorded' ? 'recorded' : 'ai',
+        voiceId: body.voiceId,
+        voiceName: body.voiceName,
+        modelUsed: body.modelUsed,
+        duration: typeof body.duration === 'number' ? body.duration : null,
+        alignment: body.alignment
+          ? (body.alignment as unknown as Prisma.InputJsonValue)
+          : Prisma.DbNull,
+      },
+    })
+
+    await prisma.videoProject.update({
+      where: { id: projectId },
+      data: { updatedAt: new Date() },
+    })
+
+    return NextResponse.json({ success: true, voiceTake }, { status: 201 })
+  } catch (error) {
+    console.error('Error saving voice take:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save voice take' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { VALID_DURATIONS, VALID_TONES, Tone } from '@/lib/video-pipeline'
+
+interface CreateProjectRequest {
+  bookId?: number | null
+  title: string
+  description?: string
+  tone?: Tone
+  duration?: number
+}
+
+/**
+ * GET /api/projects
+ * List video projects, most recently updated first
+ *
+ * Query params:
+ * - bookId: Only projects for this book (optional)
+ * - limit: Max projects to return (optional, default: 20, max: 100)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const bookIdParam = searchParams.get('bookId')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 100)
+
+    const where: Record<string, unknown> = {}
+
+    if (bookIdParam) {
+      const bookId = parseInt(bookIdParam, 10)
+      if (isNaN(bookId)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid book ID' },
+          { status: 400 }
+        )
+      }
+      where.bookId = bookId
+    }
+
+    const projects = await prisma.videoProject.findMany({
+      where,
+      orderBy: { updatedAt: 'desc' },
+      take: limit,
+      include: {
+        book: {
+          select: { id: true, book_title: true, author: true },
+        },
+        renders: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
+        _count: {
+          select: { scripts: true, voiceTakes: true, renders: true },
+        },
+      },
+    })
+
+    return NextResponse.json({ success: true, projects })
+  } catch (error) {
+    console.error('Error fetching projects:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch projects' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/projects
+ * Create a video project
+ * Body: { title, description?, tone?, duration?, bookId? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: CreateProjectRequest
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    const { title, description = '', tone = 'Motivational', duration = 30, bookId } = body
+
+    if (!title || typeof title !== 'string' || !title.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Title is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!VALID_TONES.includes(tone)) {
+      return NextResponse.json(
+        { success: false, error: `Tone must be one of: ${VALID_TONES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (!VALID_DURATIONS.includes(duration)) {
+      return NextResponse.json(
+        { success: false, error: `Duration must be one of: ${VALID_DURATIONS.join(', ')} seconds` },
+        { status: 400 }
+      )
+    }
+
+    if (bookId !== undefined && bookId !== null && !Number.isInteger(bookId)) {
+      return NextResponse.json(
+        { success: false, error: 'bookId must be an integer' },
+        { status: 400 }
+      )
+    }
+
+    if (bookId !== undefined && bookId !== null) {
+      const book = await prisma.book.findUnique({ where: { id: bookId } })
+      if (!book) {
+        return NextResponse.json(
+          { success: false, error: 'Book not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const project = await prisma.videoProject.create({
+      data: {
+        title: title.trim(),
+        description: typeof description === 'string' ? description.trim() : '',
+        tone,
+        duration,
+        bookId: bookId ?? null,
+      },
+    })
+
+    return NextResponse.json({ success: true, project }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating project:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create project' },
+      { status: 500 }
+    )
+  }
+}
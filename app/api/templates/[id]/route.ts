@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { isRecord, parseTemplateId, validateTemplateDefinition } from '@/lib/video-templates'
+
+/**
+ * GET /api/templates/[id]
+ * Fetch a video template with its definition
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const templateId = parseTemplateId(params.id)
+
+    if (templateId === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid template ID' },
+        { status: 400 }
+      )
+    }
+
+    const template = await prisma.videoTemplate.findUnique({ where: { id: templateId } })
+
+    if (!template) {
+      return NextResponse.json(
+        { success: false, error: 'Template not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, template })
+  } catch (error) {
+    console.error('Error fetching template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch template' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/templates/[id]
+ * Update a template
+ * Body: any of { name, description, definition } (definition is replaced whole)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const templateId = parseTemplateId(params.id)
+
+    if (templateId === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid template ID' },
+        { status: 400 }
+      )
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      body = null
+    }
+
+    // Valid JSON can still be null, an array or a scalar
+    if (!isRecord(body)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    const data: Prisma.VideoTemplateUpdateInput = {}
+
+    if (body.name !== undefined) {
+      if (typeof body.name !== 'string' || !body.name.trim()) {
+        return NextResponse.json(
+          { success: false, error: 'Name must be a non-empty string' },
+          { status: 400 }
+        )
+      }
+      data.name = body.name.trim()
+    }
+
+    if (body.description !== undefined) {
+      if (typeof body.description !== 'string') {
+        return NextResponse.json(
+          { success: false, error: 'Description must be a string' },
+          { status: 400 }
+        )
+      }
+      data.description = body.description.trim()
+    }
+
+    if (body.definition !== undefined) {
+      const errors = validateTemplateDefinition(body.definition)
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid template definition', details: errors },
+          { status: 400 }
+        )
+      }
+      data.definition = body.definition as Prisma.InputJsonValue
+    }
+
+    const existing = await prisma.videoTemplate.findUnique({ where: { id: templateId } })
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Template not found' },
+        { status: 404 }
+      )
+    }
+
+    const template = await prisma.videoTemplate.update({
+      where: { id: templateId },
+      data,
+    })
+
+    return NextResponse.json({ success: true, template })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { success: false, error: 'A template with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    console.error('Error updating template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update template' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/templates/[id]
+ * Delete a template (queued jobs using it fail with ERR_INVALID_TEMPLATE)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const templateId = parseTemplateId(params.id)
+
+    if (templateId === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid template ID' },
+        { status: 400 }
+      )
+    }
+
+    const template = await prisma.videoTemplate.findUnique({ where: { id: templateId } })
+
+    if (!template) {
+      return NextResponse.json(
+        { success: false, error: 'Template not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.videoTemplate.delete({ where: { id: templateId } })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete template' },
+      { status: 500 }
+    )
+  }
+}
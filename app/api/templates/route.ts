@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { isRecord, validateTemplateDefinition } from '@/lib/video-templates'
+
+interface CreateTemplateRequest {
+  name: string
+  description?: string
+  definition: unknown
+}
+
+/**
+ * GET /api/templates
+ * List stored video templates, alphabetically
+ */
+export async function GET() {
+  try {
+    const templates = await prisma.videoTemplate.findMany({
+      orderBy: { name: 'asc' },
+    })
+
+    return NextResponse.json({ success: true, templates })
+  } catch (error) {
+    console.error('Error fetching templates:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch templates' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/templates
+ * Create a video template (layer schema: see lib/video-templates.ts)
+ * Body: { name, description?, definition }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      body = null
+    }
+
+    // Valid JSON can still be null, an array or a scalar
+    if (!isRecord(body)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    const { name, description = '', definition } = body as Partial<CreateTemplateRequest>
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Name is required' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof description !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Description must be a string' },
+        { status: 400 }
+      )
+    }
+
+    const errors = validateTemplateDefinition(definition)
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid template definition', details: errors },
+        { status: 400 }
+      )
+    }
+
+    const template = await prisma.videoTemplate.create({
+      data: {
+        name: name.trim(),
+        description: description.trim(),
+        definition: definition as Prisma.InputJsonValue,
+      },
+    })
+
+    return NextResponse.json({ success: true, template }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { success: false, error: 'A template with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    console.error('Error creating template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create template' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { availableGenres } from '@/lib/nyt'
+import { fetchMissingBestsellers } from '@/lib/bestseller-scheduler'
+import { getBookEnrichments } from '@/lib/enriched-books'
+import {
+  DEFAULT_TREND_DAYS,
+  DEFAULT_TREND_LIMIT,
+  MAX_TREND_DAYS,
+  TrendingBook,
+  getTrendingBooks,
+} from '@/lib/trending'
+
+/**
+ * GET /api/trending
+ * Rising, new and falling bestsellers per genre, from stored rank history
+ * Each book carries its `enrichment` (cover, description, ratings; see lib/enriched-books.ts)
+ *
+ * Genres with no stored history yet are fetched from NYT first (see
+ * fetchMissingBestsellers in lib/bestseller-scheduler.ts).
+ *
+ * Query params:
+ * - genre: Limit to one genre (optional, default: all genres)
+ * - days: Window to measure movement over (optional, default: 7, max: 365)
+ * - limit: Books per category (optional, default: 5, max: 15)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const genre = searchParams.get('genre')
+    const days = parseInt(searchParams.get('days') || String(DEFAULT_TREND_DAYS))
+    const limit = Math.min(parseInt(searchParams.get('limit') || String(DEFAULT_TREND_LIMIT)) || DEFAULT_TREND_LIMIT, 15)
+
+    if (genre && genre !== 'All Genres' && !availableGenres.includes(genre)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid genre. Available genres: ${availableGenres.join(', ')}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_TREND_DAYS) {
+      return NextResponse.json(
+        { success: false, error: `days must be between 1 and ${MAX_TREND_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    const genres = genre && genre !== 'All Genres' ? [genre] : availableGenres
+
+    try {
+      await fetchMissingBestsellers(genres)
+    } catch (error) {
+      // Serve whatever history there is
+      console.error('Error fetching missing bestseller lists:', error)
+    }
+
+    const trends = await getTrendingBooks(genres, { days, limit: Math.max(1, limit) })
+
+    const enrichments = await getBookEnrichments(
+      trends.flatMap(trend => [...trend.rising, ...trend.new, ...trend.falling])
+    )
+    const withEnrichment = (books: TrendingBook[]) =>
+      books.map(book => ({ ...book, enrichment: enrichments.get(book.id) }))
+
+    return NextResponse.json({
+      success: true,
+      days,
+      genres: trends.map(trend => ({
+        ...trend,
+        rising: withEnrichment(trend.rising),
+        new: withEnrichment(trend.new),
+        falling: withEnrichment(trend.falling),
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching trending books:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch trending books' },
+      { status: 500 }
+    )
+  }
+}
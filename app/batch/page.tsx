@@ -0,0 +1,476 @@
+'use client'
+
+import { useState, useEffect, Suspense } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useSavedBooks } from '@/lib/saved-books-context'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type Tone = 'Motivational' | 'Emotional' | 'Educational' | 'Aggressive' | 'Calm'
+type Source = 'genre' | 'saved'
+type JobStatus = 'queued' | 'running' | 'completed' | 'failed'
+
+interface BatchItem {
+  jobId: string
+  bookId: number | null
+  title: string
+  status: JobStatus
+  currentStep: string
+  progress: number
+  videoUrl: string | null
+  error: string | null
+}
+
+interface Batch {
+  id: string
+  genre: string | null
+  status: JobStatus
+  counts: Record<JobStatus, number>
+  items: BatchItem[]
+  downloadUrl: string | null
+  createdAt: string
+}
+
+// ============================================================================
+// Data
+// ============================================================================
+
+// Genres matching availableGenres in lib/nyt.ts
+const genres = [
+  { id: 'Fiction', label: 'Fiction', icon: '📖' },
+  { id: 'Non-Fiction', label: 'Non-Fiction', icon: '📰' },
+  { id: 'Young Adult', label: 'Young Adult', icon: '🎒' },
+  { id: 'Children', label: 'Children', icon: '🧒' },
+  { id: 'Graphic Novels', label: 'Graphic Novels', icon: '🎨' },
+  { id: 'Science', label: 'Science', icon: '🔬' },
+  { id: 'Business', label: 'Business', icon: '💼' },
+  { id: 'Motivational Books', label: 'Motivational', icon: '✨' },
+]
+
+const tones: { value: Tone; label: string; icon: string }[] = [
+  { value: 'Motivational', label: 'Motivational', icon: '🔥' },
+  { value: 'Emotional', label: 'Emotional', icon: '💖' },
+  { value: 'Educational', label: 'Educational', icon: '📚' },
+  { value: 'Aggressive', label: 'Aggressive', icon: '⚡' },
+  { value: 'Calm', label: 'Calm', icon: '🧘' },
+]
+
+const durations = [30, 45, 60]
+const bookLimits = [5, 10, 15]
+
+/** Most books in one batch (MAX_BATCH_SIZE in lib/render-batches.ts) */
+const MAX_BATCH_BOOKS = 15
+
+/** How often a running batch is refreshed */
+const POLL_INTERVAL_MS = 4000
+
+const statusStyles: Record<JobStatus, string> = {
+  queued: 'bg-warm-800 text-sand-400',
+  running: 'bg-purple-500/20 text-purple-300',
+  completed: 'bg-green-500/20 text-green-300',
+  failed: 'bg-red-500/20 text-red-300',
+}
+
+// ============================================================================
+// Components
+// ============================================================================
+
+function Header() {
+  const { savedBooks } = useSavedBooks()
+  const savedCount = savedBooks.length
+
+  return (
+    <header className="fixed top-0 left-0 right-0 z-50 bg-warm-950/80 backdrop-blur-xl border-b border-white/5">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+        <Link href="/" className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-br from-gold-400 to-amber-500 rounded-xl flex items-center justify-center shadow-lg">
+            <svg className="w-6 h-6 text-warm-950" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+            </svg>
+          </div>
+          <span className="font-bold text-xl text-white">BookReel</span>
+        </Link>
+
+        <nav className="flex items-center gap-6">
+          <Link href="/video-machine" className="inline-flex items-center gap-2 text-sand-300 hover:text-white transition-colors font-medium">
+            Create Video
+          </Link>
+          <Link href="/batch" className="inline-flex items-center gap-2 text-white font-medium">
+            Batch Videos
+          </Link>
+          <Link
+            href="/library"
+            className="relative inline-flex items-center gap-2 text-sand-300 hover:text-white transition-colors font-medium"
+          >
+            My Library
+            {savedCount > 0 && (
+              <span className="absolute -top-2 -right-3 inline-flex items-center justify-center w-5 h-5 text-xs font-bold text-warm-950 bg-gold-400 rounded-full">
+                {savedCount > 9 ? '9+' : savedCount}
+              </span>
+            )}
+          </Link>
+        </nav>
+      </div>
+    </header>
+  )
+}
+
+function BatchItemRow({ item, index }: { item: BatchItem; index: number }) {
+  return (
+    <li className="flex items-center gap-4 p-3 rounded-xl border border-sand-700/50">
+      <span className="w-6 text-sand-500 text-sm text-right flex-shrink-0">{index + 1}</span>
+      <div className="flex-1 min-w-0">
+        <div className="text-white font-semibold truncate">{item.title}</div>
+        {item.status === 'running' && (
+          <div className="mt-1">
+            <div className="text-sand-500 text-xs mb-1">{item.currentStep} · {Math.round(item.progress)}%</div>
+            <div className="h-1.5 bg-warm-800 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-purple-500 to-pink-500 transition-all"
+                style={{ width: `${Math.max(2, item.progress)}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {item.status === 'failed' && item.error && (
+          <div className="text-red-400 text-xs mt-1 truncate">{item.error}</div>
+        )}
+      </div>
+      {item.videoUrl && (
+        <a
+          href={item.videoUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-gold-400 hover:text-gold-300 text-sm font-semibold flex-shrink-0"
+        >
+          Watch
+        </a>
+      )}
+      <span className={`px-2 py-0.5 text-xs font-medium rounded-full flex-shrink-0 ${statusStyles[item.status]}`}>
+        {item.status}
+      </span>
+    </li>
+  )
+}
+
+// ============================================================================
+// Main Page
+// ============================================================================
+
+function BatchPageContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const batchIdParam = searchParams.get('id')
+  const { savedBooks } = useSavedBooks()
+
+  const [source, setSource] = useState<Source>(searchParams.get('source') === 'saved' ? 'saved' : 'genre')
+  const [genre, setGenre] = useState(genres[0].id)
+  const [limit, setLimit] = useState(10)
+  const [tone, setTone] = useState<Tone>('Motivational')
+  const [duration, setDuration] = useState(30)
+  const [selectedIds, setSelectedIds] = useState<number[] | null>(null)
+
+  const [batch, setBatch] = useState<Batch | null>(null)
+  const [isStarting, setIsStarting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Search results are saved with placeholder ids, so only stored bestsellers can be batched
+  const batchableBooks = savedBooks.filter((book) => book.genre !== 'Search Result')
+  const chosenIds = selectedIds ?? batchableBooks.slice(0, MAX_BATCH_BOOKS).map((book) => book.id)
+  const isOverLimit = source === 'saved' && chosenIds.length > MAX_BATCH_BOOKS
+
+  // Load (and keep refreshing) the batch in the URL until every job has finished
+  useEffect(() => {
+    if (!batchIdParam) {
+      setBatch(null)
+      return
+    }
+
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/batches/${batchIdParam}`)
+        const data = await response.json()
+
+        if (cancelled) return
+
+        if (!response.ok || !data.success) {
+          setError(data.error || 'Failed to load batch')
+          return
+        }
+
+        setBatch(data.batch)
+        if (data.batch.status === 'queued' || data.batch.status === 'running') {
+          timer = setTimeout(load, POLL_INTERVAL_MS)
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError('Lost connection while refreshing the batch')
+          timer = setTimeout(load, POLL_INTERVAL_MS)
+        }
+      }
+    }
+
+    load()
+
+    return () => {
+      cancelled = true
+      if (timer) clearTimeout(timer)
+    }
+  }, [batchIdParam])
+
+  const toggleBook = (id: number) => {
+    if (chosenIds.includes(id)) {
+      setSelectedIds(chosenIds.filter((chosen) => chosen !== id))
+    } else if (chosenIds.length < MAX_BATCH_BOOKS) {
+      setSelectedIds([...chosenIds, id])
+    }
+  }
+
+  const handleStart = async () => {
+    setIsStarting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/batches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(source === 'genre' ? { genre, limit } : { bookIds: chosenIds }),
+          tone,
+          duration,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to start batch')
+        return
+      }
+
+      setBatch(data.batch)
+      router.replace(`/batch?id=${data.batch.id}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start batch')
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const canStart = !isStarting && !isOverLimit && (source === 'genre' || chosenIds.length > 0)
+  const isRunning = batch?.status === 'queued' || batch?.status === 'running'
+
+  return (
+    <div className="min-h-screen bg-warm-950">
+      <Header />
+
+      {/* Hero Section */}
+      <section className="pt-28 pb-8 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-4xl mx-auto text-center">
+          <h1 className="text-4xl sm:text-5xl font-bold text-white mb-4">
+            Batch Videos
+          </h1>
+          <p className="text-sand-400 text-lg max-w-2xl mx-auto">
+            Turn a whole bestseller list into videos with one click
+          </p>
+        </div>
+      </section>
+
+      <section className="pb-20 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-4xl mx-auto">
+          {/* Settings Card */}
+          <div className="mb-6 bg-gradient-to-br from-warm-900/90 to-warm-950/90 backdrop-blur-xl rounded-3xl border border-sand-800/30 p-6">
+            <div className="flex gap-2 mb-6">
+              {(['genre', 'saved'] as Source[]).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setSource(option)}
+                  className={`flex-1 px-4 py-3 rounded-xl font-bold transition-all ${
+                    source === option
+                      ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white shadow-lg'
+                      : 'bg-warm-900/50 text-sand-400 hover:bg-warm-900'
+                  }`}
+                >
+                  {option === 'genre' ? 'Bestseller list' : `Saved books (${batchableBooks.length})`}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {source === 'genre' ? (
+                <>
+                  <div>
+                    <label className="block text-sm font-semibold text-gold-400 mb-2">Genre</label>
+                    <select
+                      value={genre}
+                      onChange={(e) => setGenre(e.target.value)}
+                      className="w-full px-4 py-3 bg-warm-950/80 border border-sand-700/50 rounded-xl text-white focus:outline-none focus:border-gold-500 cursor-pointer"
+                    >
+                      {genres.map((g) => (
+                        <option key={g.id} value={g.id}>{g.icon} {g.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-gold-400 mb-2">Books</label>
+                    <select
+                      value={limit}
+                      onChange={(e) => setLimit(parseInt(e.target.value))}
+                      className="w-full px-4 py-3 bg-warm-950/80 border border-sand-700/50 rounded-xl text-white focus:outline-none focus:border-gold-500 cursor-pointer"
+                    >
+                      {bookLimits.map((value) => (
+                        <option key={value} value={value}>Top {value}</option>
+                      ))}
+                    </select>
+                  </div>
+                </>
+              ) : (
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-semibold text-gold-400 mb-2">
+                    Books
+                    {batchableBooks.length > 0 && (
+                      <span className={`ml-2 font-normal ${isOverLimit ? 'text-red-400' : 'text-sand-500'}`}>
+                        {chosenIds.length} of up to {MAX_BATCH_BOOKS} selected
+                      </span>
+                    )}
+                  </label>
+                  {batchableBooks.length === 0 ? (
+                    <p className="text-sand-500 text-sm">
+                      Save bestsellers from the <Link href="/" className="text-gold-400 hover:text-gold-300">home page</Link> to batch them here.
+                    </p>
+                  ) : (
+                    <ul className="space-y-1 max-h-64 overflow-y-auto">
+                      {batchableBooks.map((book) => (
+                        <li key={book.id}>
+                          <label className="flex items-center gap-3 text-sand-300 text-sm cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={chosenIds.includes(book.id)}
+                              disabled={!chosenIds.includes(book.id) && chosenIds.length >= MAX_BATCH_BOOKS}
+                              onChange={() => toggleBook(book.id)}
+                              className="accent-gold-500"
+                            />
+                            <span className="truncate">{book.title}</span>
+                            <span className="text-sand-500 truncate">{book.author}</span>
+                          </label>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-semibold text-gold-400 mb-2">Tone</label>
+                <select
+                  value={tone}
+                  onChange={(e) => setTone(e.target.value as Tone)}
+                  className="w-full px-4 py-3 bg-warm-950/80 border border-sand-700/50 rounded-xl text-white focus:outline-none focus:border-gold-500 cursor-pointer"
+                >
+                  {tones.map((t) => (
+                    <option key={t.value} value={t.value}>{t.icon} {t.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-gold-400 mb-2">Duration</label>
+                <select
+                  value={duration}
+                  onChange={(e) => setDuration(parseInt(e.target.value))}
+                  className="w-full px-4 py-3 bg-warm-950/80 border border-sand-700/50 rounded-xl text-white focus:outline-none focus:border-gold-500 cursor-pointer"
+                >
+                  {durations.map((d) => (
+                    <option key={d} value={d}>{d} seconds</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <button
+              onClick={handleStart}
+              disabled={!canStart}
+              className="mt-6 w-full px-6 py-4 bg-gradient-to-r from-gold-500 to-amber-500 text-warm-950 rounded-xl font-bold text-lg hover:scale-[1.01] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isStarting ? 'Queueing videos...' : 'Generate Videos'}
+            </button>
+            {isOverLimit && (
+              <p className="mt-3 text-sm text-red-400 text-center">
+                A batch can include at most {MAX_BATCH_BOOKS} books. Deselect {chosenIds.length - MAX_BATCH_BOOKS} to continue.
+              </p>
+            )}
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="mb-6 p-5 bg-red-500/10 border border-red-500/30 rounded-xl text-red-300">
+              {error}
+            </div>
+          )}
+
+          {/* Batch Status */}
+          {batch && (
+            <div className="bg-gradient-to-br from-warm-900/90 to-warm-950/90 backdrop-blur-xl rounded-3xl border border-sand-800/30 p-6">
+              <div className="flex items-center justify-between gap-4 mb-4">
+                <div>
+                  <h2 className="text-lg font-bold text-white">
+                    {batch.genre ? `${batch.genre} bestsellers` : 'Saved books'}
+                  </h2>
+                  <p className="text-sand-500 text-sm">
+                    {batch.counts.completed} done · {batch.counts.running} rendering · {batch.counts.queued} queued
+                    {batch.counts.failed > 0 && ` · ${batch.counts.failed} failed`}
+                    {' '}· started {new Date(batch.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                {batch.downloadUrl ? (
+                  <a
+                    href={batch.downloadUrl}
+                    className="flex-shrink-0 px-4 py-2 bg-gold-500 text-warm-950 text-sm font-bold rounded-xl hover:scale-105 transition-all"
+                  >
+                    Download all (ZIP)
+                  </a>
+                ) : isRunning && (
+                  <div className="flex-shrink-0 animate-spin rounded-full h-6 w-6 border-b-2 border-gold-400"></div>
+                )}
+              </div>
+
+              <ul className="space-y-2">
+                {batch.items.map((item, index) => (
+                  <BatchItemRow key={item.jobId} item={item} index={index} />
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </section>
+
+      {/* Footer */}
+      <footer className="py-12 px-4 sm:px-6 lg:px-8 border-t border-white/5">
+        <div className="max-w-7xl mx-auto text-center text-sand-600 text-sm">
+          © 2026 BookReel. Transform books into videos.
+        </div>
+      </footer>
+    </div>
+  )
+}
+
+// Wrap in Suspense to handle useSearchParams during static export
+export default function BatchPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-warm-950 flex items-center justify-center">
+        <div className="text-center">
+          <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-gold-400"></div>
+          <p className="mt-4 text-sand-300">Loading...</p>
+        </div>
+      </div>
+    }>
+      <BatchPageContent />
+    </Suspense>
+  )
+}
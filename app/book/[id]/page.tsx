@@ -1,11 +1,13 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import Image from 'next/image'
 import Link from 'next/link'
 import { useParams } from 'next/navigation'
 import { getGoogleBookDetails, GoogleBookDetails } from '@/lib/google-books'
+import type { FieldSource } from '@/lib/types/google-books'
 import { useSavedBooks } from '@/lib/saved-books-context'
+import { adminHeaders, useAdminSecret } from '@/lib/admin-session'
 
 // ============================================================================
 // Types
@@ -17,12 +19,48 @@ interface DBBook {
   author: string
   popularity_score: number
   genre: string
+  primary_isbn13: string | null
+  description: string | null
+  publisher: string | null
+  book_image: string | null
+  amazon_product_url: string | null
+  buy_links: { name: string; url: string }[] | null
 }
 
 interface BookDetails extends GoogleBookDetails {
   id: number
   rank: number
   genre: string
+  buyUrl: string | null
+}
+
+interface CandidateVolume {
+  volumeId: string
+  title: string
+  authors: string[]
+  publishedDate: string
+  thumbnail: string
+  isbns: string[]
+  confidence: number
+}
+
+interface EnrichmentOverride {
+  volumeId: string | null
+  isbn: string | null
+  description: string | null
+  thumbnail: string | null
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Display names for enrichment provenance */
+const SOURCE_LABELS: Record<FieldSource, string> = {
+  google: 'Google Books',
+  openlibrary: 'Open Library',
+  manual: 'Edited manually',
+  nyt: 'NYT Best Sellers',
 }
 
 // ============================================================================
@@ -101,6 +139,245 @@ function StarRating({ rating, count, size = 'lg' }: { rating: number | null; cou
   )
 }
 
+function EnrichmentEditor({
+  bookId,
+  adminSecret,
+  defaultQuery,
+  onSaved,
+  onClose,
+}: {
+  bookId: number
+  adminSecret: string
+  defaultQuery: string
+  onSaved: () => void
+  onClose: () => void
+}) {
+  const [query, setQuery] = useState(defaultQuery)
+  const [candidates, setCandidates] = useState<CandidateVolume[]>([])
+  const [hasOverride, setHasOverride] = useState(false)
+  const [volumeId, setVolumeId] = useState('')
+  const [isbn, setIsbn] = useState('')
+  const [description, setDescription] = useState('')
+  const [thumbnail, setThumbnail] = useState('')
+  const [isSearching, setIsSearching] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const searchCandidates = useCallback(async (q?: string) => {
+    setIsSearching(true)
+    setError(null)
+    try {
+      const params = q ? `?q=${encodeURIComponent(q)}` : ''
+      const response = await fetch(`/api/books/${bookId}/enrichment/candidates${params}`, {
+        headers: adminHeaders(adminSecret),
+      })
+      const data = await response.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Search failed')
+      }
+      setCandidates(data.candidates)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed')
+    } finally {
+      setIsSearching(false)
+    }
+  }, [bookId, adminSecret])
+
+  useEffect(() => {
+    async function loadOverride() {
+      try {
+        const response = await fetch(`/api/books/${bookId}/enrichment`)
+        const data = await response.json()
+        const override: EnrichmentOverride | null = data.success ? data.override : null
+        if (override) {
+          setHasOverride(true)
+          setVolumeId(override.volumeId ?? '')
+          setIsbn(override.isbn ?? '')
+          setDescription(override.description ?? '')
+          setThumbnail(override.thumbnail ?? '')
+        }
+      } catch {
+        // Editing still works without the current values
+      }
+    }
+
+    loadOverride()
+    searchCandidates()
+  }, [bookId, searchCandidates])
+
+  const saveOverride = async (pinnedVolumeId: string) => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/books/${bookId}/enrichment`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...adminHeaders(adminSecret) },
+        body: JSON.stringify({ volumeId: pinnedVolumeId, isbn, description, thumbnail }),
+      })
+      const data = await response.json()
+      if (!data.success) {
+        throw new Error(data.details?.join(', ') || data.error || 'Failed to save')
+      }
+      onSaved()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const removeOverride = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/books/${bookId}/enrichment`, {
+        method: 'DELETE',
+        headers: adminHeaders(adminSecret),
+      })
+      const data = await response.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to remove override')
+      }
+      onSaved()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove override')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-gradient-to-br from-warm-900/80 to-warm-950/80 backdrop-blur-xl rounded-3xl border border-gold-500/30 p-8 lg:p-10">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-white">Fix Book Details</h2>
+        <button onClick={onClose} className="text-sand-400 hover:text-white transition-colors text-sm font-medium">
+          Close
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/20 border border-red-500/30 rounded-xl text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Candidate search */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          searchCandidates(query)
+        }}
+        className="flex gap-3 mb-6"
+      >
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search Google Books (title, author or ISBN)"
+          className="flex-1 px-4 py-2.5 bg-warm-900 border border-sand-700/50 rounded-xl text-white placeholder-sand-500 focus:outline-none focus:border-gold-500"
+        />
+        <button
+          type="submit"
+          disabled={isSearching}
+          className="px-5 py-2.5 bg-warm-800 text-white rounded-xl font-semibold hover:bg-warm-700 transition-colors disabled:opacity-70"
+        >
+          {isSearching ? 'Searching...' : 'Search'}
+        </button>
+      </form>
+
+      <div className="space-y-3 mb-8 max-h-96 overflow-y-auto">
+        {!isSearching && candidates.length === 0 && (
+          <p className="text-sand-500 text-sm">No matching volumes found.</p>
+        )}
+        {candidates.map((candidate) => (
+          <div
+            key={candidate.volumeId}
+            className={`flex items-center gap-4 p-3 rounded-2xl border ${
+              candidate.volumeId === volumeId ? 'border-gold-500/60 bg-gold-500/10' : 'border-sand-800/30 bg-warm-900/60'
+            }`}
+          >
+            <div className="relative w-12 h-16 flex-shrink-0 bg-warm-800 rounded-lg overflow-hidden">
+              {candidate.thumbnail && (
+                <Image src={candidate.thumbnail} alt={candidate.title} fill className="object-cover" sizes="48px" />
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-white font-semibold truncate">{candidate.title}</p>
+              <p className="text-sand-400 text-sm truncate">
+                {candidate.authors.join(', ')} • {candidate.publishedDate}
+                {candidate.isbns.length > 0 && ` • ISBN ${candidate.isbns[0]}`}
+              </p>
+              <p className="text-sand-500 text-xs">{Math.round(candidate.confidence * 100)}% match</p>
+            </div>
+            <button
+              onClick={() => saveOverride(candidate.volumeId)}
+              disabled={isSaving}
+              className="px-4 py-2 bg-gold-500 text-warm-950 rounded-xl font-semibold text-sm hover:bg-gold-400 transition-colors disabled:opacity-70"
+            >
+              {candidate.volumeId === volumeId ? 'Pinned' : 'Pin'}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Manual fields */}
+      <div className="grid gap-4 sm:grid-cols-2 mb-4">
+        <label className="block">
+          <span className="text-sand-400 text-sm font-medium">Pinned volume ID</span>
+          <input
+            value={volumeId}
+            onChange={(e) => setVolumeId(e.target.value)}
+            className="mt-1 w-full px-4 py-2.5 bg-warm-900 border border-sand-700/50 rounded-xl text-white focus:outline-none focus:border-gold-500"
+          />
+        </label>
+        <label className="block">
+          <span className="text-sand-400 text-sm font-medium">ISBN (used when no volume is pinned)</span>
+          <input
+            value={isbn}
+            onChange={(e) => setIsbn(e.target.value)}
+            className="mt-1 w-full px-4 py-2.5 bg-warm-900 border border-sand-700/50 rounded-xl text-white focus:outline-none focus:border-gold-500"
+          />
+        </label>
+      </div>
+      <label className="block mb-4">
+        <span className="text-sand-400 text-sm font-medium">Description (leave empty to use the pinned volume&apos;s)</span>
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={5}
+          className="mt-1 w-full px-4 py-2.5 bg-warm-900 border border-sand-700/50 rounded-xl text-white focus:outline-none focus:border-gold-500"
+        />
+      </label>
+      <label className="block mb-6">
+        <span className="text-sand-400 text-sm font-medium">Cover URL (Google Books, Open Library or NYT)</span>
+        <input
+          value={thumbnail}
+          onChange={(e) => setThumbnail(e.target.value)}
+          className="mt-1 w-full px-4 py-2.5 bg-warm-900 border border-sand-700/50 rounded-xl text-white focus:outline-none focus:border-gold-500"
+        />
+      </label>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => saveOverride(volumeId)}
+          disabled={isSaving}
+          className="px-6 py-3 bg-gradient-to-r from-gold-500 to-amber-500 text-warm-950 rounded-xl font-bold hover:scale-105 transition-transform disabled:opacity-70 disabled:hover:scale-100"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+        {hasOverride && (
+          <button
+            onClick={removeOverride}
+            disabled={isSaving}
+            className="px-6 py-3 text-sand-400 hover:text-red-400 transition-colors font-medium disabled:opacity-70"
+          >
+            Remove override
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
 function LoadingSkeleton() {
   return (
     <div className="min-h-screen bg-warm-950 animate-pulse">
@@ -122,11 +399,14 @@ export default function BookDetailsPage() {
   const params = useParams()
   const bookId = params.id as string
   const { isBookSaved, toggleSaveBook, savedBooks } = useSavedBooks()
+  const adminSecret = useAdminSecret()
   
   const [book, setBook] = useState<BookDetails | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false)
+  const [showEditor, setShowEditor] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
 
   const numericBookId = parseInt(bookId, 10)
   const isSaved = isBookSaved(numericBookId)
@@ -149,21 +429,37 @@ export default function BookDetailsPage() {
         
         const dbBook: DBBook = data.book
         
-        // Enrich with Google Books data
-        const googleData = await getGoogleBookDetails(dbBook.book_title, dbBook.author)
+        // Enrich with Google Books data (matched by ISBN when NYT provided one)
+        const googleData = await getGoogleBookDetails(
+          dbBook.book_title,
+          dbBook.author,
+          dbBook.primary_isbn13 ?? undefined,
+          dbBook.id
+        )
         
+        // NYT list metadata fills whatever Google Books doesn't have
+        const useNytDescription = googleData.description === 'No description available' && Boolean(dbBook.description)
         setBook({
           id: dbBook.id,
           rank: dbBook.popularity_score,
           genre: dbBook.genre,
           title: googleData.title,
           authors: googleData.authors,
-          description: googleData.description,
-          publisher: googleData.publisher,
+          description: useNytDescription && dbBook.description
+            ? dbBook.description
+            : googleData.description,
+          publisher: googleData.publisher === 'Unknown publisher' && dbBook.publisher
+            ? dbBook.publisher
+            : googleData.publisher,
           publishedDate: googleData.publishedDate,
           averageRating: googleData.averageRating,
           ratingsCount: googleData.ratingsCount,
-          thumbnail: googleData.thumbnail,
+          thumbnail: googleData.thumbnail || dbBook.book_image || '',
+          volumeId: googleData.volumeId,
+          confidence: googleData.confidence,
+          needsConfirmation: googleData.needsConfirmation,
+          sources: useNytDescription ? { ...googleData.sources, description: 'nyt' } : googleData.sources,
+          buyUrl: dbBook.amazon_product_url || dbBook.buy_links?.[0]?.url || null,
         })
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load book')
@@ -173,7 +469,7 @@ export default function BookDetailsPage() {
     }
     
     fetchBook()
-  }, [bookId])
+  }, [bookId, reloadKey])
 
   const handleSaveBook = () => {
     if (book) {
@@ -188,6 +484,24 @@ export default function BookDetailsPage() {
     }
   }
 
+  // Pin the current automatic match as correct
+  const handleConfirmMatch = async () => {
+    if (!book?.volumeId || !adminSecret) return
+    const response = await fetch(`/api/books/${book.id}/enrichment`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...adminHeaders(adminSecret) },
+      body: JSON.stringify({ volumeId: book.volumeId }),
+    })
+    if (response.ok) {
+      setReloadKey((key) => key + 1)
+    }
+  }
+
+  const handleEnrichmentSaved = () => {
+    setShowEditor(false)
+    setReloadKey((key) => key + 1)
+  }
+
   const handleGenerateSummary = () => {
     setIsGeneratingSummary(true)
     // Simulate AI summary generation
@@ -316,6 +630,31 @@ export default function BookDetailsPage() {
                 by {book.authors.join(', ')}
               </p>
 
+              {/* Low-confidence match notice */}
+              {book.needsConfirmation && (
+                <div className="inline-flex items-start gap-2 px-4 py-3 mb-6 bg-amber-500/10 border border-amber-500/30 rounded-xl text-amber-300 text-sm text-left">
+                  <svg className="w-5 h-5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                  </svg>
+                  <span>
+                    Unconfirmed match ({Math.round(book.confidence * 100)}% confidence): the cover and
+                    details below may belong to a different edition or a summary of this book.
+                    {adminSecret && (
+                      <span className="flex gap-4 mt-2">
+                        {book.volumeId && (
+                          <button onClick={handleConfirmMatch} className="font-semibold text-amber-200 hover:text-white">
+                            This is correct
+                          </button>
+                        )}
+                        <button onClick={() => setShowEditor(true)} className="font-semibold text-amber-200 hover:text-white">
+                          Fix match
+                        </button>
+                      </span>
+                    )}
+                  </span>
+                </div>
+              )}
+
               {/* Rating */}
               <div className="mb-6">
                 <StarRating rating={book.averageRating} count={book.ratingsCount} size="lg" />
@@ -381,7 +720,7 @@ export default function BookDetailsPage() {
                 </button>
 
                 <Link
-                  href={`/video-machine?title=${encodeURIComponent(book.title)}&description=${encodeURIComponent(book.description.slice(0, 200))}`}
+                  href={`/video-machine?title=${encodeURIComponent(book.title)}&description=${encodeURIComponent(book.description.slice(0, 200))}&bookId=${bookId}`}
                   className="inline-flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-2xl font-semibold text-lg hover:opacity-90 transition-opacity"
                 >
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -401,17 +740,47 @@ export default function BookDetailsPage() {
         </div>
       </section>
 
+      {/* Manual Enrichment Editor (admins only) */}
+      {showEditor && adminSecret && (
+        <section className="pt-12 px-4 sm:px-6 lg:px-8">
+          <div className="max-w-6xl mx-auto">
+            <EnrichmentEditor
+              bookId={book.id}
+              adminSecret={adminSecret}
+              defaultQuery={`${book.title} ${book.authors.join(' ')}`}
+              onSaved={handleEnrichmentSaved}
+              onClose={() => setShowEditor(false)}
+            />
+          </div>
+        </section>
+      )}
+
       {/* Description Section */}
       <section className="py-12 px-4 sm:px-6 lg:px-8">
         <div className="max-w-6xl mx-auto">
           <div className="bg-gradient-to-br from-warm-900/80 to-warm-950/80 backdrop-blur-xl rounded-3xl border border-sand-800/30 p-8 lg:p-12">
-            <h2 className="text-2xl font-bold text-white mb-6 flex items-center gap-3">
-              <span className="text-3xl">📖</span>
-              About This Book
-            </h2>
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+                <span className="text-3xl">📖</span>
+                About This Book
+              </h2>
+              {adminSecret && !showEditor && (
+                <button
+                  onClick={() => setShowEditor(true)}
+                  className="text-sand-400 hover:text-gold-300 transition-colors text-sm font-medium"
+                >
+                  Fix book details
+                </button>
+              )}
+            </div>
             <p className="text-sand-300 text-lg leading-relaxed">
               {book.description}
             </p>
+            {book.sources?.description && (
+              <p className="text-sand-500 text-sm mt-4">
+                Source: {SOURCE_LABELS[book.sources.description]}
+              </p>
+            )}
           </div>
         </div>
       </section>
@@ -454,9 +823,20 @@ export default function BookDetailsPage() {
               Join thousands of readers who have already transformed their lives with the wisdom from this book.
             </p>
             <div className="flex flex-wrap items-center justify-center gap-4">
-              <button className="inline-flex items-center gap-2 px-8 py-4 bg-gradient-to-r from-gold-500 to-amber-500 text-warm-950 rounded-2xl font-bold text-lg hover:scale-105 transition-transform">
-                Get This Book
-              </button>
+              {book.buyUrl ? (
+                <a
+                  href={book.buyUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-2 px-8 py-4 bg-gradient-to-r from-gold-500 to-amber-500 text-warm-950 rounded-2xl font-bold text-lg hover:scale-105 transition-transform"
+                >
+                  Get This Book
+                </a>
+              ) : (
+                <button className="inline-flex items-center gap-2 px-8 py-4 bg-gradient-to-r from-gold-500 to-amber-500 text-warm-950 rounded-2xl font-bold text-lg hover:scale-105 transition-transform">
+                  Get This Book
+                </button>
+              )}
               <button className="inline-flex items-center gap-2 px-8 py-4 border-2 border-white/20 text-white rounded-2xl font-semibold text-lg hover:bg-white/10 transition-colors">
                 Add to Reading List
               </button>
@@ -146,7 +146,13 @@ export default function LibraryPage() {
             </div>
 
             {savedBooks.length > 0 && (
-              <div className="relative">
+              <div className="relative flex items-center gap-4">
+                <Link
+                  href="/batch?source=saved"
+                  className="px-4 py-2 bg-gradient-to-r from-gold-500 to-amber-500 text-warm-950 rounded-lg font-bold hover:scale-105 transition-transform text-sm"
+                >
+                  Make Videos
+                </Link>
                 {showConfirmClear ? (
                   <div className="flex items-center gap-2">
                     <button
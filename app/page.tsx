@@ -3,21 +3,42 @@
 import { useState, useRef, useEffect } from 'react'
 import Image from 'next/image'
 import Link from 'next/link'
-import { getGoogleBookDetails, GoogleBookDetails } from '@/lib/google-books'
 import { useSavedBooks } from '@/lib/saved-books-context'
 
 // ============================================================================
 // Types
 // ============================================================================
 
-interface DBBook {
+type TrendCategory = 'rising' | 'new' | 'falling'
+
+interface TrendingBook {
   id: number
-  book_title: string
+  title: string
   author: string
-  popularity_score: number
   genre: string
-  createdAt: string
-  updatedAt: string
+  isbn13: string | null
+  description: string | null
+  coverImage: string | null
+  rank: number
+  rankChange: number | null
+  weeksOnList: number
+  trendScore: number
+  /** Cover, description and ratings joined in by /api/trending */
+  enrichment: {
+    description: string
+    publisher: string
+    publishedDate: string
+    averageRating: number | null
+    ratingsCount: number | null
+    thumbnail: string
+  }
+}
+
+interface GenreTrends {
+  genre: string
+  rising: TrendingBook[]
+  new: TrendingBook[]
+  falling: TrendingBook[]
 }
 
 interface DisplayBook {
@@ -33,6 +54,8 @@ interface DisplayBook {
   ratingsCount: number | null
   thumbnail: string
   motivationalSummary: string
+  trend: TrendCategory
+  rankChange: number | null
 }
 
 interface SearchResult {
@@ -64,6 +87,12 @@ const genres = [
   { id: 'Motivational Books', label: 'Motivational', icon: '✨' },
 ]
 
+const trendCategories: { id: TrendCategory; label: string }[] = [
+  { id: 'rising', label: 'Rising' },
+  { id: 'new', label: 'New' },
+  { id: 'falling', label: 'Falling' },
+]
+
 const trendDurations = [
   { label: 'Last 7 days', value: 7 },
   { label: 'Last 14 days', value: 14 },
@@ -521,12 +550,22 @@ function BookCard({ book, index }: { book: DisplayBook; index: number }) {
       className="group relative bg-gradient-to-br from-warm-900/90 to-warm-950/90 backdrop-blur-xl rounded-3xl overflow-hidden border border-sand-800/30 hover:border-gold-500/50 transition-all duration-500 hover:shadow-2xl hover:shadow-gold-500/10 hover:-translate-y-2"
       style={{ animationDelay: `${index * 100}ms` }}
     >
-      {/* NYT Rank Badge */}
-      <div className="absolute top-4 left-4 z-20">
+      {/* NYT Rank & Movement Badges */}
+      <div className="absolute top-4 left-4 z-20 flex items-center gap-2">
         <div className="flex items-center gap-1 px-3 py-1.5 bg-gradient-to-r from-gold-500 to-amber-500 rounded-full shadow-lg">
           <span className="text-warm-950 font-bold text-sm">#{book.rank}</span>
           <span className="text-warm-950/70 text-xs font-medium">NYT</span>
         </div>
+        {book.trend === 'new' && (
+          <span className="px-2.5 py-1 bg-purple-500 text-white text-xs font-bold rounded-full shadow-lg">NEW</span>
+        )}
+        {book.trend !== 'new' && book.rankChange !== null && book.rankChange !== 0 && (
+          <span className={`px-2.5 py-1 text-xs font-bold rounded-full shadow-lg ${
+            book.rankChange > 0 ? 'bg-emerald-500 text-white' : 'bg-red-500 text-white'
+          }`}>
+            {book.rankChange > 0 ? '▲' : '▼'} {Math.abs(book.rankChange)}
+          </span>
+        )}
       </div>
 
       {/* Thumbnail Container */}
@@ -587,7 +626,7 @@ function BookCard({ book, index }: { book: DisplayBook; index: number }) {
           </button>
           
           <Link
-            href={`/video-machine?title=${encodeURIComponent(book.title)}&description=${encodeURIComponent(book.motivationalSummary)}`}
+            href={`/video-machine?title=${encodeURIComponent(book.title)}&description=${encodeURIComponent(book.motivationalSummary)}&bookId=${book.id}`}
             onClick={(e) => e.stopPropagation()}
             className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl font-semibold text-sm bg-gradient-to-r from-purple-500 to-pink-500 text-white hover:opacity-90 transition-opacity z-10"
           >
@@ -644,6 +683,7 @@ export default function Home() {
   const [hasSearched, setHasSearched] = useState(false)
   const [selectedGenre, setSelectedGenre] = useState('All Genres')
   const [selectedDuration, setSelectedDuration] = useState(30)
+  const [selectedTrend, setSelectedTrend] = useState<TrendCategory>('rising')
   const [error, setError] = useState<string | null>(null)
   
   // Search state
@@ -666,45 +706,43 @@ export default function Home() {
         params.append('genre', selectedGenre)
       }
       params.append('days', selectedDuration.toString())
+      params.append('limit', '15')
 
-      // Fetch from NYT API for the selected genre
-      if (selectedGenre !== 'All Genres') {
-        await fetch(`/api/fetch-bestsellers?genre=${encodeURIComponent(selectedGenre)}`, {
-          method: 'POST',
-        })
-      } else {
-        // Fetch a default genre when "All Genres" is selected
-        await fetch('/api/fetch-bestsellers?genre=Fiction', { method: 'POST' })
-      }
-
-      // Get books from database
-      const response = await fetch(`/api/books?${params.toString()}`)
+      // Get rank movement from stored bestseller history
+      const response = await fetch(`/api/trending?${params.toString()}`)
       const data = await response.json()
 
       if (!data.success) {
         throw new Error(data.error || 'Failed to fetch books')
       }
 
-      // Enrich with Google Books data
-      const enrichedBooks: DisplayBook[] = await Promise.all(
-        data.books.map(async (book: DBBook) => {
-          const googleData = await getGoogleBookDetails(book.book_title, book.author)
-          return {
-            id: book.id,
-            title: book.book_title,
-            author: book.author,
-            rank: book.popularity_score,
-            genre: book.genre,
-            description: googleData.description,
-            publisher: googleData.publisher,
-            publishedDate: googleData.publishedDate,
-            averageRating: googleData.averageRating,
-            ratingsCount: googleData.ratingsCount,
-            thumbnail: googleData.thumbnail,
-            motivationalSummary: generateMotivationalSummary(googleData.description, book.book_title),
-          }
-        })
-      )
+      // Merge genres (a book can be on several lists); biggest drops first when showing falling books
+      const trendingBooks: TrendingBook[] = (data.genres as GenreTrends[])
+        .flatMap((genre) => genre[selectedTrend])
+        .filter((book, index, all) => all.findIndex((other) => other.id === book.id) === index)
+        .sort((a, b) =>
+          selectedTrend === 'falling'
+            ? (a.rankChange ?? 0) - (b.rankChange ?? 0)
+            : b.trendScore - a.trendScore
+        )
+
+      // Enrichment (with NYT fallbacks) comes with the response
+      const enrichedBooks: DisplayBook[] = trendingBooks.map((book) => ({
+        id: book.id,
+        title: book.title,
+        author: book.author,
+        rank: book.rank,
+        genre: book.genre,
+        description: book.enrichment.description,
+        publisher: book.enrichment.publisher,
+        publishedDate: book.enrichment.publishedDate,
+        averageRating: book.enrichment.averageRating,
+        ratingsCount: book.enrichment.ratingsCount,
+        thumbnail: book.enrichment.thumbnail,
+        motivationalSummary: generateMotivationalSummary(book.enrichment.description, book.title),
+        trend: selectedTrend,
+        rankChange: book.rankChange,
+      }))
 
       setBooks(enrichedBooks)
     } catch (err) {
@@ -892,8 +930,24 @@ export default function Home() {
             <GenreFilterChips selectedGenre={selectedGenre} onSelectGenre={handleGenreChange} />
           </div>
 
-          {/* Duration Filter & Search Button */}
+          {/* Movement, Duration Filter & Search Button */}
           <div className="flex flex-col sm:flex-row items-center justify-center gap-4 mb-12">
+            <div className="inline-flex p-1 bg-warm-900/80 border border-sand-700/50 rounded-xl">
+              {trendCategories.map((category) => (
+                <button
+                  key={category.id}
+                  onClick={() => setSelectedTrend(category.id)}
+                  className={`px-4 py-1.5 rounded-lg text-sm font-semibold transition-colors ${
+                    selectedTrend === category.id
+                      ? 'bg-gold-500 text-warm-950'
+                      : 'text-sand-300 hover:text-white'
+                  }`}
+                >
+                  {category.label}
+                </button>
+              ))}
+            </div>
+
             <div className="flex items-center gap-3">
               <label htmlFor="duration" className="text-sand-400 font-medium">
                 Trending in:
@@ -943,7 +997,9 @@ export default function Home() {
               <div className="flex items-center justify-between mb-8">
                 <div>
                   <h3 className="text-2xl font-bold text-white">
-                    {isLoading ? 'Finding your next read...' : `${books.length} Trending Book${books.length !== 1 ? 's' : ''}`}
+                    {isLoading
+                      ? 'Finding your next read...'
+                      : `${books.length} ${trendCategories.find((c) => c.id === selectedTrend)?.label} Book${books.length !== 1 ? 's' : ''}`}
                   </h3>
                   {!isLoading && books.length > 0 && (
                     <p className="text-sand-400 mt-1">
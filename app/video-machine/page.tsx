@@ -1,9 +1,10 @@
 'use client'
 
-import { useState, useEffect, useRef, Suspense } from 'react'
+import { useState, useEffect, useRef, useCallback, Suspense } from 'react'
 import Link from 'next/link'
 import { useSearchParams } from 'next/navigation'
 import { useSavedBooks } from '@/lib/saved-books-context'
+import type { VoiceAlignment } from '@/lib/voice'
 
 // ============================================================================
 // Types
@@ -14,6 +15,7 @@ type Duration = '30' | '45' | '60'
 type Tab = 'script' | 'voice'
 type ScriptMode = 'ai' | 'manual'
 type VoiceMode = 'ai' | 'record'
+type ScriptFormat = 'standard' | 'capcut' | 'manual'
 
 interface VideoError {
   error: string
@@ -23,6 +25,60 @@ interface VideoError {
   suggestion?: string
 }
 
+interface ProjectSummary {
+  id: number
+  title: string
+  tone: Tone
+  duration: number
+  updatedAt: string
+  _count: { scripts: number; voiceTakes: number; renders: number }
+}
+
+interface ScriptVersionData {
+  id: number
+  version: number
+  content: string
+  format: ScriptFormat
+}
+
+interface VoiceTakeData {
+  id: number
+  audioUrl: string
+  contentType: string
+  source: 'ai' | 'recorded'
+  alignment: VoiceAlignment | null
+}
+
+interface RenderOutputData {
+  id: number
+  profile: string
+  width: number
+  height: number
+  videoUrl: string
+  duration: number
+  createdAt: string
+}
+
+interface ProjectDetail {
+  id: number
+  title: string
+  description: string
+  tone: Tone
+  duration: number
+  scripts: ScriptVersionData[]
+  voiceTakes: VoiceTakeData[]
+  renders: RenderOutputData[]
+}
+
+interface VoiceTakeMeta {
+  source: 'ai' | 'recorded'
+  voiceId?: string
+  voiceName?: string
+  modelUsed?: string
+  duration?: number
+  alignment?: VoiceAlignment | null
+}
+
 // ============================================================================
 // Data
 // ============================================================================
@@ -41,6 +97,23 @@ const durations: { value: Duration; label: string }[] = [
   { value: '60', label: '60 seconds' },
 ]
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// Read a blob as base64 (without the data URL prefix)
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onloadend = () => {
+      const base64 = reader.result as string
+      resolve(base64.split(',')[1])
+    }
+    reader.onerror = reject
+    reader.readAsDataURL(blob)
+  })
+}
+
 // ============================================================================
 // Components
 // ============================================================================
@@ -119,6 +192,7 @@ function VideoMachinePageContent() {
   const [recordingTime, setRecordingTime] = useState(0)
   const [isGeneratingVoice, setIsGeneratingVoice] = useState(false)
   const [generatedAudioUrl, setGeneratedAudioUrl] = useState<string | null>(null)
+  const [voiceAlignment, setVoiceAlignment] = useState<VoiceAlignment | null>(null) // Word timing for captions (AI voice only)
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
   const audioChunksRef = useRef<Blob[]>([])
   const timerRef = useRef<NodeJS.Timeout | null>(null)
@@ -127,26 +201,277 @@ function VideoMachinePageContent() {
   const [isCreatingCapCutPackage, setIsCreatingCapCutPackage] = useState(false)
   const [capCutPackageUrl, setCapCutPackageUrl] = useState<string | null>(null)
   
+  // Project state (scripts and voice takes are saved as project history)
+  const [bookId, setBookId] = useState<number | null>(null)
+  const [projectId, setProjectId] = useState<number | null>(null)
+  const [projects, setProjects] = useState<ProjectSummary[]>([])
+  const [projectRenders, setProjectRenders] = useState<RenderOutputData[]>([])
+  const [isLoadingProject, setIsLoadingProject] = useState(false)
+  const projectIdRef = useRef<number | null>(null)
+  const lastSavedScriptRef = useRef<{ id: number; content: string } | null>(null)
+  const prefilledRef = useRef(false)
+  
   // UI state
   const [error, setError] = useState<VideoError | null>(null)
 
-  // Pre-fill from URL params
+  // Cleanup timer on unmount
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) {
+        clearInterval(timerRef.current)
+      }
+    }
+  }, [])
+
+  // ==========================================================================
+  // Project persistence
+  // ==========================================================================
+
+  // Keep the URL pointing at the open project so a reload resumes it
+  const setCurrentProject = useCallback((id: number | null) => {
+    projectIdRef.current = id
+    setProjectId(id)
+
+    const url = new URL(window.location.href)
+    if (id === null) {
+      url.searchParams.delete('projectId')
+    } else {
+      url.searchParams.set('projectId', String(id))
+    }
+    window.history.replaceState(null, '', url.toString())
+  }, [])
+
+  // List recent projects (for this book when opened from a book page)
+  const loadProjects = useCallback(async (forBookId: number | null) => {
+    try {
+      const query = forBookId !== null ? `?bookId=${forBookId}` : ''
+      const response = await fetch(`/api/projects${query}`)
+      const data = await response.json()
+
+      if (response.ok && data.success) {
+        setProjects(data.projects)
+      }
+    } catch (err) {
+      console.warn('[Projects] Failed to load projects:', err)
+    }
+  }, [])
+
+  // Open a saved project and restore its latest script and voice take
+  const openProject = useCallback(async (id: number) => {
+    setIsLoadingProject(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/projects/${id}`)
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError({ error: data.error || 'Failed to open project' })
+        return
+      }
+
+      const project: ProjectDetail = data.project
+      setTitle(project.title)
+      setDescription(project.description)
+      setTone(project.tone)
+      setDuration(String(project.duration) as Duration)
+      setProjectRenders(project.renders)
+      setCapCutPackageUrl(null)
+
+      // Scripts and takes are returned newest first
+      const latestScript = project.scripts[0]
+      lastSavedScriptRef.current = latestScript
+        ? { id: latestScript.id, content: latestScript.content }
+        : null
+
+      if (latestScript?.format === 'manual') {
+        setManualScript(latestScript.content)
+        setGeneratedScript('')
+        setScriptMode('manual')
+      } else {
+        setGeneratedScript(latestScript?.content ?? '')
+        setManualScript('')
+        setScriptMode('ai')
+        if (latestScript) setUseCapCutMode(latestScript.format === 'capcut')
+      }
+
+      setGeneratedAudioUrl(null)
+      setAudioBlob(null)
+      setVoiceAlignment(null)
+
+      const latestTake = project.voiceTakes[0]
+      if (latestTake) {
+        const audioResponse = await fetch(latestTake.audioUrl)
+        if (audioResponse.ok) {
+          const blob = await audioResponse.blob()
+          setAudioBlob(blob)
+          setVoiceAlignment(latestTake.alignment)
+
+          if (latestTake.source === 'ai') {
+            setGeneratedAudioUrl(URL.createObjectURL(blob))
+            setVoiceMode('ai')
+          } else {
+            setVoiceMode('record')
+          }
+        }
+      }
+
+      setCurrentProject(project.id)
+      setActiveTab(latestTake ? 'voice' : 'script')
+    } catch (err) {
+      setError({
+        error: err instanceof Error ? err.message : 'Failed to open project',
+        suggestion: 'Check your connection and try again.',
+      })
+    } finally {
+      setIsLoadingProject(false)
+    }
+  }, [setCurrentProject])
+
+  // Pre-fill from URL params, once: setCurrentProject rewrites the URL, and
+  // re-running on that would reopen (and wipe) the project being saved
   useEffect(() => {
+    if (prefilledRef.current) return
+    prefilledRef.current = true
+
     const bookTitle = searchParams.get('title')
     const bookDescription = searchParams.get('description')
+    const bookIdParam = parseInt(searchParams.get('bookId') || '', 10)
+    const projectIdParam = parseInt(searchParams.get('projectId') || '', 10)
     
     if (bookTitle) setTitle(bookTitle)
     if (bookDescription) setDescription(bookDescription)
-  }, [searchParams])
 
-  // Cleanup timer on unmount
-  useEffect(() => {
-    return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current)
+    const parsedBookId = isNaN(bookIdParam) ? null : bookIdParam
+    setBookId(parsedBookId)
+    loadProjects(parsedBookId)
+
+    if (!isNaN(projectIdParam)) {
+      openProject(projectIdParam)
+    }
+  }, [searchParams, loadProjects, openProject])
+
+  // Start over with an empty project (created on the next save)
+  const startNewProject = () => {
+    setCurrentProject(null)
+    lastSavedScriptRef.current = null
+    setProjectRenders([])
+    setGeneratedScript('')
+    setManualScript('')
+    setScriptMode('ai')
+    setGeneratedAudioUrl(null)
+    setAudioBlob(null)
+    setVoiceAlignment(null)
+    setCapCutPackageUrl(null)
+    setActiveTab('script')
+  }
+
+  // Create the project on first save, or sync its settings afterwards
+  const ensureProject = async (): Promise<number | null> => {
+    const settings = {
+      title: title.trim(),
+      description: description.trim(),
+      tone,
+      duration: parseInt(duration),
+    }
+
+    try {
+      if (projectIdRef.current !== null) {
+        await fetch(`/api/projects/${projectIdRef.current}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(settings),
+        })
+        return projectIdRef.current
+      }
+
+      const response = await fetch('/api/projects', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...settings, bookId }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        console.warn('[Projects] Failed to create project:', data.error)
+        return null
       }
+
+      setCurrentProject(data.project.id)
+      loadProjects(bookId)
+      return data.project.id
+    } catch (err) {
+      console.warn('[Projects] Failed to save project:', err)
+      return null
     }
-  }, [])
+  }
+
+  // Save a script as a new version (skipped if unchanged since the last save)
+  const saveScriptVersion = async (content: string, format: ScriptFormat): Promise<number | null> => {
+    const trimmed = content.trim()
+    if (!trimmed) return null
+
+    const id = await ensureProject()
+    if (id === null) return null
+
+    if (lastSavedScriptRef.current?.content === trimmed) {
+      return lastSavedScriptRef.current.id
+    }
+
+    try {
+      const response = await fetch(`/api/projects/${id}/scripts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: trimmed, format }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        console.warn('[Projects] Failed to save script:', data.error)
+        return null
+      }
+
+      lastSavedScriptRef.current = { id: data.script.id, content: trimmed }
+      return data.script.id
+    } catch (err) {
+      console.warn('[Projects] Failed to save script:', err)
+      return null
+    }
+  }
+
+  // Save the script currently shown in the editor
+  const saveCurrentScript = () => {
+    return scriptMode === 'ai'
+      ? saveScriptVersion(generatedScript, useCapCutMode ? 'capcut' : 'standard')
+      : saveScriptVersion(manualScript, 'manual')
+  }
+
+  // Save a generated or recorded voice take against the current script
+  const saveVoiceTake = async (blob: Blob, meta: VoiceTakeMeta) => {
+    const scriptVersionId = await saveCurrentScript()
+    const id = projectIdRef.current
+    if (id === null) return
+
+    try {
+      const response = await fetch(`/api/projects/${id}/voice-takes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...meta,
+          audio: await blobToBase64(blob),
+          contentType: blob.type || 'audio/mpeg',
+          scriptVersionId,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        console.warn('[Projects] Failed to save voice take:', data.error)
+      }
+    } catch (err) {
+      console.warn('[Projects] Failed to save voice take:', err)
+    }
+  }
 
   // Generate script with AI
   const handleGenerateScript = async () => {
@@ -184,6 +509,7 @@ function VideoMachinePageContent() {
 
       setGeneratedScript(data.script)
       setScriptMode('ai')
+      saveScriptVersion(data.script, useCapCutMode ? 'capcut' : 'standard')
     } catch (err) {
       setError({
         error: err instanceof Error ? err.message : 'Failed to generate script',
@@ -211,6 +537,8 @@ function VideoMachinePageContent() {
       mediaRecorder.onstop = () => {
         const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' })
         setAudioBlob(audioBlob)
+        setVoiceAlignment(null)
+        saveVoiceTake(audioBlob, { source: 'recorded' })
         stream.getTracks().forEach(track => track.stop())
         if (timerRef.current) {
           clearInterval(timerRef.current)
@@ -253,6 +581,7 @@ function VideoMachinePageContent() {
     setIsGeneratingVoice(true)
     setError(null)
     setGeneratedAudioUrl(null)
+    setVoiceAlignment(null)
 
     try {
       const response = await fetch('/api/generate-voiceover', {
@@ -281,12 +610,22 @@ function VideoMachinePageContent() {
       for (let i = 0; i < audioData.length; i++) {
         audioArray[i] = audioData.charCodeAt(i)
       }
-      const audioBlob = new Blob([audioArray], { type: 'audio/mpeg' })
+      const audioBlob = new Blob([audioArray], { type: data.contentType || 'audio/mpeg' })
       const audioUrl = URL.createObjectURL(audioBlob)
       
       setGeneratedAudioUrl(audioUrl)
       setAudioBlob(audioBlob) // Store for future use
+      setVoiceAlignment(data.alignment ?? null)
       console.log('[Voiceover] Generated audio duration:', data.duration, 'seconds')
+
+      saveVoiceTake(audioBlob, {
+        source: 'ai',
+        voiceId: data.voiceId,
+        voiceName: data.voiceName,
+        modelUsed: data.modelUsed,
+        duration: data.duration,
+        alignment: data.alignment ?? null,
+      })
     } catch (err) {
       setError({
         error: err instanceof Error ? err.message : 'Failed to generate voiceover',
@@ -332,17 +671,7 @@ function VideoMachinePageContent() {
 
     try {
       // Convert audio blob to base64
-      const reader = new FileReader()
-      const audioBase64Promise = new Promise<string>((resolve, reject) => {
-        reader.onloadend = () => {
-          const base64 = reader.result as string
-          resolve(base64.split(',')[1]) // Remove data URL prefix
-        }
-        reader.onerror = reject
-        reader.readAsDataURL(audioBlob)
-      })
-
-      const voiceAudio = await audioBase64Promise
+      const voiceAudio = await blobToBase64(audioBlob)
 
       console.log('[CapCut] Creating package...')
       console.log('[CapCut] Title:', title)
@@ -359,6 +688,7 @@ function VideoMachinePageContent() {
           duration: duration,
           script: finalScript.trim(),
           voiceAudio,
+          alignment: voiceAlignment,
         }),
       })
 
@@ -426,6 +756,75 @@ function VideoMachinePageContent() {
       {/* Main Content */}
       <section className="pb-20 px-4 sm:px-6 lg:px-8">
         <div className="max-w-5xl mx-auto">
+          {/* Projects Panel */}
+          {(projects.length > 0 || projectId !== null) && (
+            <div className="mb-6 bg-gradient-to-br from-warm-900/90 to-warm-950/90 backdrop-blur-xl rounded-3xl border border-sand-800/30 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-bold text-white">
+                  {bookId !== null ? 'Projects for this book' : 'Recent projects'}
+                </h2>
+                <button
+                  onClick={startNewProject}
+                  disabled={projectId === null}
+                  className="px-4 py-2 bg-warm-800 text-white text-sm rounded-xl hover:bg-warm-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  + New Project
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                {projects.map((project) => (
+                  <div
+                    key={project.id}
+                    className={`flex items-center justify-between gap-4 p-3 rounded-xl border ${
+                      project.id === projectId
+                        ? 'border-purple-500 bg-purple-500/10'
+                        : 'border-sand-700/50'
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <div className="text-white font-semibold truncate">{project.title}</div>
+                      <div className="text-sand-500 text-xs">
+                        {project.tone} · {project.duration}s · {project._count.scripts} scripts · {project._count.voiceTakes} takes · {project._count.renders} renders · updated {new Date(project.updatedAt).toLocaleDateString()}
+                      </div>
+                    </div>
+                    {project.id === projectId ? (
+                      <span className="text-purple-400 text-sm font-semibold flex-shrink-0">Open</span>
+                    ) : (
+                      <button
+                        onClick={() => openProject(project.id)}
+                        disabled={isLoadingProject}
+                        className="flex-shrink-0 px-4 py-2 bg-gold-500 text-warm-950 text-sm font-bold rounded-xl hover:scale-105 transition-all disabled:opacity-50"
+                      >
+                        Resume
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {projectRenders.length > 0 && (
+                <div className="mt-4 pt-4 border-t border-sand-700/30">
+                  <div className="text-sm font-semibold text-gold-400 mb-2">Rendered videos</div>
+                  <ul className="space-y-1">
+                    {projectRenders.map((render) => (
+                      <li key={render.id}>
+                        <a
+                          href={render.videoUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sand-300 hover:text-white text-sm transition-colors"
+                        >
+                          🎬 {new Date(render.createdAt).toLocaleString()} ({render.profile} {render.width}x{render.height}, {Math.round(render.duration)}s)
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Basic Info Card */}
           <div className="mb-6 bg-gradient-to-br from-warm-900/90 to-warm-950/90 backdrop-blur-xl rounded-3xl border border-sand-800/30 p-6">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -652,7 +1051,10 @@ function VideoMachinePageContent() {
                 )}
 
                 <button
-                  onClick={() => setActiveTab('voice')}
+                  onClick={() => {
+                    saveCurrentScript()
+                    setActiveTab('voice')
+                  }}
                   disabled={scriptMode === 'ai' ? !generatedScript : !manualScript}
                   className="w-full mt-6 inline-flex items-center justify-center gap-2 bg-gold-500 text-warm-950 px-6 py-3 rounded-xl font-bold hover:scale-[1.02] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                 >
@@ -747,6 +1149,7 @@ function VideoMachinePageContent() {
                           onClick={() => {
                             setGeneratedAudioUrl(null)
                             setAudioBlob(null)
+                            setVoiceAlignment(null)
                           }}
                           className="inline-flex items-center gap-2 px-6 py-3 bg-warm-800 text-white rounded-xl hover:bg-warm-700 transition-colors"
                         >
@@ -884,6 +1287,9 @@ function VideoMachinePageContent() {
                             <li className="flex items-center gap-2">
                               <span className="text-green-400">✓</span> storyboard.txt - Scene descriptions
                             </li>
+                            <li className="flex items-center gap-2">
+                              <span className="text-green-400">✓</span> storyboard.json - Scenes as structured data
+                            </li>
                             <li className="flex items-center gap-2">
                               <span className="text-green-400">✓</span> script.txt - Full script
                             </li>
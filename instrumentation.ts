@@ -0,0 +1,18 @@
+/**
+ * Server startup hook (Next.js instrumentation)
+ *
+ * Starts background work that should run without waiting for a request:
+ * - Render job worker, which re-queues jobs from a crashed process and
+ *   sweeps stale workspaces (lib/render-queue.ts)
+ * - Scheduled bestseller ingestion (lib/bestseller-scheduler.ts)
+ */
+export async function register() {
+  // Prisma and timers only work in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { ensureRenderWorker } = await import('./lib/render-queue')
+    ensureRenderWorker()
+
+    const { ensureBestsellerScheduler } = await import('./lib/bestseller-scheduler')
+    ensureBestsellerScheduler()
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Admin Authentication
+ *
+ * Guards admin-only API routes (manual enrichment overrides) with a shared
+ * secret, the same way CRON_SECRET guards /api/cron/refresh-bestsellers:
+ * requests must send `Authorization: Bearer <ADMIN_SECRET>`.
+ *
+ * The browser side lives in lib/admin-session.ts.
+ *
+ * Environment Variables:
+ * - ADMIN_SECRET: Admin secret (admin routes answer 503 while it is unset)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Check a request's admin credentials
+ *
+ * @returns The error response to send, or null when the request is authorized
+ *
+ * @example
+ * ```typescript
+ * const denied = checkAdminAuth(request)
+ * if (denied) {
+ *   return denied
+ * }
+ * ```
+ */
+export function checkAdminAuth(request: NextRequest): NextResponse | null {
+  const secret = process.env.ADMIN_SECRET
+
+  if (!secret) {
+    return NextResponse.json(
+      { success: false, error: 'ADMIN_SECRET is not configured' },
+      { status: 503 }
+    )
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  return null
+}
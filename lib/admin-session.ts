@@ -0,0 +1,93 @@
+'use client'
+
+/**
+ * Admin Session (browser)
+ *
+ * Keeps the admin secret entered on /admin in localStorage so admin-only
+ * controls (the book enrichment editor) can be shown and their requests
+ * authorized. The secret is checked against GET /api/admin/session before
+ * it is stored and again on every page load, so a rotated secret signs the
+ * browser out. See lib/admin-auth.ts for the server side.
+ */
+
+import { useEffect, useState } from 'react'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const STORAGE_KEY = 'mindshelf-admin-secret'
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Authorization header for an admin API request
+ */
+export function adminHeaders(secret: string): Record<string, string> {
+  return { Authorization: `Bearer ${secret}` }
+}
+
+/**
+ * Whether the server accepts a secret (throws on network errors)
+ */
+export async function verifyAdminSecret(secret: string): Promise<boolean> {
+  const response = await fetch('/api/admin/session', { headers: adminHeaders(secret) })
+  return response.ok
+}
+
+/**
+ * Verify and remember a secret
+ *
+ * @returns Whether the secret was accepted (throws on network errors)
+ */
+export async function signInAdmin(secret: string): Promise<boolean> {
+  if (!await verifyAdminSecret(secret)) {
+    return false
+  }
+  localStorage.setItem(STORAGE_KEY, secret)
+  return true
+}
+
+export function signOutAdmin(): void {
+  localStorage.removeItem(STORAGE_KEY)
+}
+
+/**
+ * The stored admin secret once the server has accepted it, otherwise null
+ *
+ * @example
+ * ```typescript
+ * const adminSecret = useAdminSecret()
+ * {adminSecret && <button onClick={() => setShowEditor(true)}>Fix book details</button>}
+ * ```
+ */
+export function useAdminSecret(): string | null {
+  const [secret, setSecret] = useState<string | null>(null)
+
+  useEffect(() => {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return
+
+    let cancelled = false
+    verifyAdminSecret(stored)
+      .then((valid) => {
+        if (cancelled) return
+        if (valid) {
+          setSecret(stored)
+        } else {
+          signOutAdmin()
+        }
+      })
+      .catch(() => {
+        // Server unreachable: stay signed in, but hide admin controls for now
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return secret
+}
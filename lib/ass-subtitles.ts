@@ -0,0 +1,442 @@
+/**
+ * ASS Subtitle Builder
+ *
+ * Builds Advanced SubStation Alpha (.ass) captions for burning into videos
+ * with FFmpeg's subtitles filter (libass):
+ * - Named style presets (TikTok bold-center, lower-third, boxed, classic)
+ * - Word-by-word highlight: one event per spoken word, with the current word
+ *   recolored and briefly scaled up
+ * - Keyword emphasis colors for chosen words
+ * - Emoji runs switched to a color emoji font so they don't render as boxes
+ * - Positioned text overlays (title card, end card) alongside the captions
+ *
+ * Timing comes from SubtitleSegment.words (narration word timestamps, or
+ * an even estimate when the voiceover has no alignment).
+ *
+ * Environment Variables:
+ * - SUBTITLE_FONTS_DIR: Extra font directory passed to libass (e.g. bundled
+ *   Noto Sans / Noto Color Emoji for servers without system fonts)
+ *
+ * @see http://www.tcax.org/docs/ass-specs.htm
+ */
+
+import type { WordTiming } from './word-timing'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SubtitlePresetName = 'tiktok' | 'lower-third' | 'boxed' | 'classic'
+
+export type SubtitlePosition = 'top' | 'center' | 'bottom'
+
+/**
+ * Caption with optional per-word timing (from lib/video.ts)
+ */
+export interface AssSubtitleSegment {
+  startTime: number
+  endTime: number
+  text: string
+  words?: WordTiming[]
+}
+
+export interface SubtitleStyleOptions {
+  /** Style preset (default: 'tiktok') */
+  preset?: SubtitlePresetName
+  /** Highlight each word as it is spoken (default: the preset's setting) */
+  karaoke?: boolean
+  /** Words drawn in the emphasis color (case-insensitive, punctuation ignored) */
+  emphasisWords?: string[]
+  /** Emphasis color as #RRGGBB (default: the preset's) */
+  emphasisColor?: string
+  /** Current-word color as #RRGGBB (default: the preset's) */
+  highlightColor?: string
+  /** Override the preset font */
+  fontName?: string
+  /** Override the preset font size (pixels at the output resolution) */
+  fontSize?: number
+  /** Text color as #RRGGBB (default: the preset's) */
+  textColor?: string
+  /** Override the preset's vertical placement */
+  position?: SubtitlePosition
+  /** Distance from the top/bottom edge as a fraction of the frame height */
+  marginV?: number
+}
+
+/**
+ * Free-positioned text shown for a time range (e.g. title and end cards)
+ */
+export interface AssTextOverlay {
+  text: string
+  /** Start and end in seconds */
+  start: number
+  end: number
+  /** Center of the text in pixels */
+  x: number
+  y: number
+  fontName: string
+  /** Font size in pixels at the output resolution */
+  fontSize: number
+  /** #RRGGBB */
+  color: string
+  bold?: boolean
+  /** Fade in/out length in ms (default: 250) */
+  fadeMs?: number
+}
+
+interface SubtitlePreset {
+  fontName: string
+  /** Font size relative to a 1080px-wide frame */
+  fontSize: number
+  bold: boolean
+  uppercase: boolean
+  textColor: string
+  highlightColor: string
+  emphasisColor: string
+  outlineColor: string
+  /** Box color for borderStyle 3 (opaque box), shadow color otherwise */
+  backColor: string
+  backAlpha: number
+  /** 1 = outline + shadow, 3 = opaque box */
+  borderStyle: 1 | 3
+  outline: number
+  shadow: number
+  /** Numpad position: 2 = bottom center, 5 = middle center */
+  alignment: number
+  /** Vertical margin as a fraction of the frame height */
+  marginV: number
+  /** Words per caption */
+  maxWords: number
+  karaoke: boolean
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SUBTITLE_PRESETS: Record<SubtitlePresetName, SubtitlePreset> = {
+  // Big bold captions in the middle of the frame, current word in yellow
+  tiktok: {
+    fontName: 'Montserrat Black',
+    fontSize: 78,
+    bold: true,
+    uppercase: true,
+    textColor: '#FFFFFF',
+    highlightColor: '#FFE500',
+    emphasisColor: '#00E5FF',
+    outlineColor: '#000000',
+    backColor: '#000000',
+    backAlpha: 0x80,
+    borderStyle: 1,
+    outline: 6,
+    shadow: 2,
+    alignment: 5,
+    marginV: 0.1,
+    maxWords: 4,
+    karaoke: true,
+  },
+  // Smaller sentence-case captions in the lower third
+  'lower-third': {
+    fontName: 'Noto Sans',
+    fontSize: 54,
+    bold: true,
+    uppercase: false,
+    textColor: '#FFFFFF',
+    highlightColor: '#7CFFB2',
+    emphasisColor: '#FFD166',
+    outlineColor: '#000000',
+    backColor: '#000000',
+    backAlpha: 0x60,
+    borderStyle: 1,
+    outline: 3,
+    shadow: 1,
+    alignment: 2,
+    marginV: 0.2,
+    maxWords: 7,
+    karaoke: true,
+  },
+  // Text on a semi-opaque box, readable over busy footage
+  boxed: {
+    fontName: 'Noto Sans',
+    fontSize: 58,
+    bold: true,
+    uppercase: false,
+    textColor: '#FFFFFF',
+    highlightColor: '#FF4D8D',
+    emphasisColor: '#FFD166',
+    outlineColor: '#000000',
+    backColor: '#000000',
+    backAlpha: 0x40,
+    borderStyle: 3,
+    outline: 14,
+    shadow: 0,
+    alignment: 2,
+    marginV: 0.22,
+    maxWords: 6,
+    karaoke: true,
+  },
+  // The original look: white Arial with an outline near the bottom
+  classic: {
+    fontName: 'Arial',
+    fontSize: 56,
+    bold: false,
+    uppercase: false,
+    textColor: '#FFFFFF',
+    highlightColor: '#FFFFFF',
+    emphasisColor: '#FFD166',
+    outlineColor: '#000000',
+    backColor: '#000000',
+    backAlpha: 0x80,
+    borderStyle: 1,
+    outline: 2,
+    shadow: 1,
+    alignment: 2,
+    marginV: 0.05,
+    maxWords: 8,
+    karaoke: false,
+  },
+}
+
+export const DEFAULT_SUBTITLE_PRESET: SubtitlePresetName = 'tiktok'
+
+export const SUBTITLE_PRESET_NAMES = Object.keys(SUBTITLE_PRESETS) as SubtitlePresetName[]
+export const SUBTITLE_POSITIONS: SubtitlePosition[] = ['top', 'center', 'bottom']
+
+/** ASS numpad alignment for each position (horizontally centered) */
+const POSITION_ALIGNMENT: Record<SubtitlePosition, number> = {
+  top: 8,
+  center: 5,
+  bottom: 2,
+}
+
+/** Font used for emoji runs (libass falls back per run, not per glyph) */
+const EMOJI_FONT = 'Noto Color Emoji'
+
+/** Pop-in animation for the current word (ms) */
+const HIGHLIGHT_SCALE = 112
+const HIGHLIGHT_POP_MS = 80
+
+// Built with RegExp() because the `u` flag needs an ES2015+ compile target
+const EMOJI_PATTERN = new RegExp(
+  '(\\p{Extended_Pictographic}(?:\\uFE0F|\\u200D\\p{Extended_Pictographic}|\\p{Emoji_Modifier})*)',
+  'gu'
+)
+const NON_WORD_PATTERN = new RegExp("[^\\p{L}\\p{N}']", 'gu')
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Convert #RRGGBB (+ alpha, 0 = opaque) to ASS &HAABBGGRR
+ */
+function toAssColor(hex: string, alpha = 0): string {
+  const value = /^#?([0-9a-f]{6})$/i.exec(hex.trim())?.[1] ?? 'FFFFFF'
+  const [r, g, b] = [value.slice(0, 2), value.slice(2, 4), value.slice(4, 6)]
+  return `&H${alpha.toString(16).padStart(2, '0')}${b}${g}${r}`.toUpperCase()
+}
+
+/**
+ * Format seconds as an ASS timestamp (H:MM:SS.cc)
+ */
+function formatAssTime(seconds: number): string {
+  const totalCs = Math.max(0, Math.round(seconds * 100))
+  const hours = Math.floor(totalCs / 360000)
+  const minutes = Math.floor((totalCs % 360000) / 6000)
+  const secs = Math.floor((totalCs % 6000) / 100)
+  const cs = totalCs % 100
+
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(cs).padStart(2, '0')}`
+}
+
+/**
+ * Make caption text safe for an ASS Dialogue line and switch emoji to the emoji font
+ */
+function escapeAssText(text: string, fontName: string): string {
+  return text
+    .replace(/\\/g, '/')
+    .replace(/[{}]/g, '')
+    .replace(/\r?\n/g, ' ')
+    .replace(EMOJI_PATTERN, `{\\fn${EMOJI_FONT}}$1{\\fn${fontName}}`)
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(NON_WORD_PATTERN, '')
+}
+
+/**
+ * Spread a caption's duration over its words, weighted by length
+ */
+function estimateWordTimings(segment: AssSubtitleSegment): WordTiming[] {
+  const words = segment.text.split(/\s+/).filter(Boolean)
+  const weights = words.map(word => Math.max(2, word.length))
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0)
+  const duration = Math.max(0, segment.endTime - segment.startTime)
+
+  let cursor = segment.startTime
+  return words.map((word, i) => {
+    const start = cursor
+    cursor += (weights[i] / totalWeight) * duration
+    return { word, start, end: cursor }
+  })
+}
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+export function isSubtitlePresetName(value: unknown): value is SubtitlePresetName {
+  return typeof value === 'string' && SUBTITLE_PRESET_NAMES.includes(value as SubtitlePresetName)
+}
+
+/**
+ * Resolve a preset name plus overrides into the style used for rendering
+ */
+export function resolveSubtitlePreset(options: SubtitleStyleOptions = {}): SubtitlePreset {
+  const preset = SUBTITLE_PRESETS[options.preset ?? DEFAULT_SUBTITLE_PRESET] ?? SUBTITLE_PRESETS[DEFAULT_SUBTITLE_PRESET]
+
+  return {
+    ...preset,
+    fontName: options.fontName ?? preset.fontName,
+    fontSize: options.fontSize ?? preset.fontSize,
+    highlightColor: options.highlightColor ?? preset.highlightColor,
+    emphasisColor: options.emphasisColor ?? preset.emphasisColor,
+    textColor: options.textColor ?? preset.textColor,
+    alignment: options.position ? POSITION_ALIGNMENT[options.position] : preset.alignment,
+    marginV: options.marginV ?? preset.marginV,
+    karaoke: options.karaoke ?? preset.karaoke,
+  }
+}
+
+/**
+ * Build a complete .ass document
+ *
+ * @param segments - Captions in order (with word timings for karaoke)
+ * @param width - Output video width (ASS PlayResX)
+ * @param height - Output video height (ASS PlayResY)
+ * @param options - Preset and overrides
+ * @param overlays - Extra positioned text (drawn above the captions)
+ *
+ * @example
+ * ```typescript
+ * const ass = buildAssSubtitles(segments, 1080, 1920, {
+ *   preset: 'tiktok',
+ *   emphasisWords: ['habits', 'identity'],
+ * })
+ * await writeFile('captions.ass', ass, 'utf-8')
+ * ```
+ */
+export function buildAssSubtitles(
+  segments: AssSubtitleSegment[],
+  width: number,
+  height: number,
+  options: SubtitleStyleOptions = {},
+  overlays: AssTextOverlay[] = []
+): string {
+  const style = resolveSubtitlePreset(options)
+
+  // Preset sizes are designed for a 1080px-wide frame
+  const scale = width / 1080
+  const fontSize = Math.round(style.fontSize * (options.fontSize ? 1 : scale))
+  const marginV = Math.round(height * style.marginV)
+  const marginH = Math.round(width * 0.06)
+
+  const emphasis = new Set((options.emphasisWords ?? []).map(normalizeWord).filter(Boolean))
+  const primary = toAssColor(style.textColor)
+  const highlight = toAssColor(style.highlightColor)
+  const emphasisColor = toAssColor(style.emphasisColor)
+
+  const styleLine = [
+    'Default',
+    style.fontName,
+    fontSize,
+    primary,
+    highlight,
+    toAssColor(style.outlineColor),
+    toAssColor(style.backColor, style.backAlpha),
+    style.bold ? -1 : 0,
+    0, 0, 0,
+    100, 100, 0, 0,
+    style.borderStyle,
+    Math.round(style.outline * scale),
+    Math.round(style.shadow * scale),
+    style.alignment,
+    marginH, marginH, marginV,
+    1,
+  ].join(',')
+
+  const renderWord = (word: string, isCurrent: boolean): string => {
+    const text = escapeAssText(style.uppercase ? word.toUpperCase() : word, style.fontName)
+
+    if (isCurrent) {
+      const pop = `\\t(0,${HIGHLIGHT_POP_MS},\\fscx${HIGHLIGHT_SCALE}\\fscy${HIGHLIGHT_SCALE})` +
+        `\\t(${HIGHLIGHT_POP_MS},${HIGHLIGHT_POP_MS * 2},\\fscx100\\fscy100)`
+      return `{\\1c${highlight}${pop}}${text}{\\r}`
+    }
+
+    if (emphasis.has(normalizeWord(word))) {
+      return `{\\1c${emphasisColor}}${text}{\\r}`
+    }
+
+    return text
+  }
+
+  const events: string[] = []
+  const dialogue = (start: number, end: number, text: string) => {
+    if (end > start) {
+      events.push(`Dialogue: 0,${formatAssTime(start)},${formatAssTime(end)},Default,,0,0,0,,${text}`)
+    }
+  }
+
+  for (const segment of segments) {
+    const words = segment.words && segment.words.length > 0
+      ? segment.words
+      : estimateWordTimings(segment)
+
+    if (!style.karaoke || words.length === 0) {
+      dialogue(segment.startTime, segment.endTime, words.map(w => renderWord(w.word, false)).join(' '))
+      continue
+    }
+
+    // One event per word; each lasts until the next word starts so the caption never flickers
+    words.forEach((current, i) => {
+      const start = i === 0 ? segment.startTime : current.start
+      const end = i === words.length - 1 ? segment.endTime : words[i + 1].start
+      const text = words.map((w, j) => renderWord(w.word, j === i)).join(' ')
+      dialogue(start, Math.min(end, segment.endTime), text)
+    })
+  }
+
+  for (const overlay of overlays) {
+    const fade = overlay.fadeMs ?? 250
+    const tags = `{\\an5\\pos(${Math.round(overlay.x)},${Math.round(overlay.y)})` +
+      `\\fn${overlay.fontName}\\fs${Math.round(overlay.fontSize)}\\b${overlay.bold ? 1 : 0}` +
+      `\\1c${toAssColor(overlay.color)}\\3c&H000000&\\bord${Math.max(1, Math.round(2 * scale))}\\shad0` +
+      `\\fad(${fade},${fade})}`
+
+    if (overlay.end > overlay.start) {
+      events.push(
+        `Dialogue: 1,${formatAssTime(overlay.start)},${formatAssTime(overlay.end)},Default,,0,0,0,,` +
+        `${tags}${escapeAssText(overlay.text, overlay.fontName)}`
+      )
+    }
+  }
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: ${styleLine}`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n')
+}
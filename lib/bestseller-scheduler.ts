@@ -0,0 +1,260 @@
+/**
+ * Bestseller Ingestion Scheduler
+ *
+ * Refreshes every NYT list in genreToNYTList on a fixed interval so rank
+ * history (BookRankSnapshot) builds up without anyone opening the app.
+ *
+ * - Started from instrumentation.ts when the server boots; the first run
+ *   starts at once when no rank history has been stored yet
+ * - Lists are fetched one at a time, NYT_REQUEST_INTERVAL_MS apart, to stay
+ *   inside the NYT API rate limit (5 requests per minute)
+ * - A run is skipped when snapshots are already fresher than the interval,
+ *   so restarts and several server instances don't refetch the same data
+ * - External cron jobs can trigger a run through POST /api/cron/refresh-bestsellers
+ * - While the scheduler is off, lists with no history at all are fetched on
+ *   demand (fetchMissingBestsellers), so trends are never empty for good
+ *
+ * Environment Variables:
+ * - NYT_API_KEY: Required (the scheduler stays off without it)
+ * - BESTSELLER_REFRESH_INTERVAL_HOURS: Hours between runs (default: 24, 0 disables)
+ */
+
+import { prisma } from './db'
+import { availableGenres, fetchAndStoreBestsellers, genreToNYTList } from './nyt'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BestsellerRefreshResult {
+  /** False when the run was skipped because the data is still fresh */
+  ran: boolean
+  refreshed: string[]
+  failed: { genre: string; error: string }[]
+  books: number
+}
+
+interface SchedulerState {
+  started: boolean
+  running: boolean
+  timer: NodeJS.Timeout | null
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_INTERVAL_HOURS = 24
+
+/** NYT asks for 12 seconds between calls */
+const NYT_REQUEST_INTERVAL_MS = 12 * 1000
+
+/** Delay before the first run after boot, so startup isn't slowed down */
+const STARTUP_DELAY_MS = 60 * 1000
+
+// Keep a single scheduler across hot reloads (same pattern as lib/db.ts)
+const globalForScheduler = globalThis as unknown as {
+  bestsellerScheduler: SchedulerState | undefined
+}
+
+const scheduler: SchedulerState = globalForScheduler.bestsellerScheduler ?? {
+  started: false,
+  running: false,
+  timer: null,
+}
+
+globalForScheduler.bestsellerScheduler = scheduler
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Configured interval in milliseconds (0 = disabled)
+ */
+function getRefreshInterval(): number {
+  const raw = process.env.BESTSELLER_REFRESH_INTERVAL_HOURS
+  const hours = raw === undefined || raw === '' ? DEFAULT_INTERVAL_HOURS : parseFloat(raw)
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Whether every list was snapshotted within the given window
+ */
+async function isFresh(maxAgeMs: number): Promise<boolean> {
+  const latest = await prisma.bookRankSnapshot.groupBy({
+    by: ['list'],
+    _max: { fetchedAt: true },
+  })
+
+  if (latest.length < availableGenres.length) {
+    return false
+  }
+
+  const cutoff = Date.now() - maxAgeMs
+  return latest.every(entry => (entry._max.fetchedAt?.getTime() ?? 0) > cutoff)
+}
+
+function scheduleRun(delayMs: number): void {
+  if (scheduler.timer) {
+    clearTimeout(scheduler.timer)
+  }
+  scheduler.timer = setTimeout(() => {
+    scheduler.timer = null
+    void runScheduled()
+  }, delayMs)
+}
+
+async function runScheduled(): Promise<void> {
+  const interval = getRefreshInterval()
+
+  try {
+    // Leave a little slack so a run finishing late doesn't skip the next one
+    await refreshAllBestsellers({ skipIfFresherThan: interval * 0.9 })
+  } catch (error) {
+    console.error('[Bestseller Scheduler] Scheduled refresh failed:', error)
+  } finally {
+    if (interval > 0) {
+      scheduleRun(interval)
+    }
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Fetch every genre's current list and record rank snapshots
+ * One failing list doesn't stop the others.
+ *
+ * @param options.genres - Lists to fetch (default: every genre)
+ * @param options.skipIfFresherThan - Skip the run if every list was fetched within this many ms
+ *
+ * @example
+ * ```typescript
+ * const result = await refreshAllBestsellers()
+ * // { ran: true, refreshed: ['Fiction', ...], failed: [], books: 120 }
+ * ```
+ */
+export async function refreshAllBestsellers(
+  options: { genres?: string[]; skipIfFresherThan?: number } = {}
+): Promise<BestsellerRefreshResult> {
+  const genres = options.genres ?? availableGenres
+  const result: BestsellerRefreshResult = { ran: false, refreshed: [], failed: [], books: 0 }
+
+  if (scheduler.running) {
+    console.log('[Bestseller Scheduler] Refresh already in progress, skipping')
+    return result
+  }
+
+  // Claim the run before any await, so a cron call and the timer can't both start one
+  scheduler.running = true
+
+  try {
+    if (options.skipIfFresherThan && await isFresh(options.skipIfFresherThan)) {
+      console.log('[Bestseller Scheduler] Lists are up to date, skipping')
+      return result
+    }
+
+    result.ran = true
+    console.log(`[Bestseller Scheduler] Refreshing ${genres.length} lists...`)
+
+    for (let i = 0; i < genres.length; i++) {
+      const genre = genres[i]
+      if (i > 0) {
+        await sleep(NYT_REQUEST_INTERVAL_MS)
+      }
+
+      try {
+        const books = await fetchAndStoreBestsellers(genre)
+        result.refreshed.push(genre)
+        result.books += books.length
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        console.error(`[Bestseller Scheduler] Failed to refresh ${genre}:`, message)
+        result.failed.push({ genre, error: message })
+      }
+    }
+
+    console.log(
+      `[Bestseller Scheduler] Refreshed ${result.refreshed.length}/${genres.length} lists ` +
+      `(${result.books} books)`
+    )
+    return result
+  } finally {
+    scheduler.running = false
+  }
+}
+
+/**
+ * Start the periodic refresh (idempotent)
+ * Does nothing when NYT_API_KEY is missing or the interval is 0.
+ */
+export function ensureBestsellerScheduler(): void {
+  if (scheduler.started) {
+    return
+  }
+
+  const interval = getRefreshInterval()
+  if (!process.env.NYT_API_KEY || interval === 0) {
+    console.log('[Bestseller Scheduler] Disabled (no NYT_API_KEY or interval is 0)')
+    return
+  }
+
+  scheduler.started = true
+  console.log(`[Bestseller Scheduler] Started (every ${interval / 3600000}h)`)
+
+  // Without any history the trends are empty, so don't wait for the usual delay
+  prisma.bookRankSnapshot.count()
+    .then(count => scheduleRun(count === 0 ? 0 : STARTUP_DELAY_MS))
+    .catch(() => scheduleRun(STARTUP_DELAY_MS))
+}
+
+/**
+ * Fetch the lists among `genres` that have no rank history yet
+ *
+ * Waits for the first missing list (one NYT call), so a fresh install shows
+ * books on the first load, and fetches the others in the background,
+ * NYT_REQUEST_INTERVAL_MS apart. Does nothing without NYT_API_KEY, while a
+ * fetch is in progress, or when the scheduler is on (it fetches every list
+ * at boot when there is no history).
+ *
+ * @example
+ * ```typescript
+ * await fetchMissingBestsellers(['Fiction'])
+ * const trends = await getTrendingBooks(['Fiction'])
+ * ```
+ */
+export async function fetchMissingBestsellers(genres: string[]): Promise<void> {
+  if (!process.env.NYT_API_KEY || scheduler.started || scheduler.running || scheduler.timer) {
+    return
+  }
+
+  const stored = await prisma.bookRankSnapshot.groupBy({
+    by: ['list'],
+    where: { list: { in: genres.map(genre => genreToNYTList[genre]) } },
+  })
+  const missing = genres.filter(genre => !stored.some(entry => entry.list === genreToNYTList[genre]))
+
+  if (missing.length === 0) {
+    return
+  }
+
+  const [first, ...rest] = missing
+  console.log(`[Bestseller Scheduler] No history for ${missing.join(', ')}, fetching`)
+  await refreshAllBestsellers({ genres: [first] })
+
+  if (rest.length > 0) {
+    scheduler.timer = setTimeout(() => {
+      scheduler.timer = null
+      refreshAllBestsellers({ genres: rest }).catch((error) => {
+        console.error('[Bestseller Scheduler] Background fetch failed:', error)
+      })
+    }, NYT_REQUEST_INTERVAL_MS)
+  }
+}
@@ -0,0 +1,465 @@
+/**
+ * Book Enrichment
+ *
+ * Looks a book up in every enrichment provider (Google Books, Open Library),
+ * caches each provider's answer separately and merges them field by field,
+ * so a book Google Books knows without a cover or description still gets
+ * one from Open Library.
+ *
+ * MERGING:
+ * - The provider with the most confident match is the primary source
+ * - Other providers only fill in when they matched the same book confidently
+ * - Each field takes the first provider (by preference) that has a real value
+ * - The provider used for each field is recorded in `sources`
+ *
+ * CACHING:
+ * - One EnrichmentCache row per provider + title + author (24 hours)
+ * - "Not found" is cached per provider too, with a shorter TTL (6 hours),
+ *   so unknown titles don't hit the APIs on every page view
+ * - Stale-while-revalidate: entries past their TTL are served right away
+ *   and refreshed in the background, for up to 7 days
+ * - Concurrent lookups of the same book share one provider call
+ * - Provider failures and rate limits (lib/provider-backoff.ts) are never
+ *   cached; stale data keeps being served instead
+ *
+ * Manual overrides (lib/book-overrides.ts) are applied by the callers
+ * and always win over merged data.
+ */
+
+import { prisma } from './db'
+import { LOW_CONFIDENCE_THRESHOLD, MatchTarget } from './book-matching'
+import { lookupGoogleBook } from './google-books-api'
+import { lookupOpenLibraryBook } from './open-library'
+import { ProviderUnavailableError } from './provider-backoff'
+import {
+  CACHE_DURATION_MS,
+  CachedGoogleBooksData,
+  EnrichedField,
+  EnrichmentProvider,
+  FieldSources,
+  GoogleBookDetails,
+  GoogleBooksNotFoundResponse,
+  NOT_FOUND_CACHE_DURATION_MS,
+  STALE_CACHE_DURATION_MS,
+  createDefaultBookDetails,
+  isBookDetails,
+  isNotFoundResponse,
+} from './types/google-books'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Each provider's match for one book (providers without a match are absent)
+ */
+export type ProviderResults = Partial<Record<EnrichmentProvider, GoogleBookDetails>>
+
+interface EnrichmentSource {
+  /** Whether the provider can be called (e.g. its API key is set) */
+  isConfigured(): boolean
+  /** Best match, or null when the provider has nothing */
+  lookup(target: MatchTarget): Promise<GoogleBookDetails | null>
+}
+
+type CachedResults = Partial<Record<EnrichmentProvider, CachedGoogleBooksData>>
+
+interface CacheEntry {
+  data: CachedGoogleBooksData
+  cachedAt: Date
+}
+
+type CachedEntries = Partial<Record<EnrichmentProvider, CacheEntry>>
+
+/**
+ * - fresh: within its TTL
+ * - stale: past its TTL, served while a refresh runs
+ * - expired: too old to serve
+ */
+type Freshness = 'fresh' | 'stale' | 'expired'
+
+export interface EnrichOptions {
+  /** Wait for stale entries to be refreshed instead of refreshing in the background */
+  waitForRevalidation?: boolean
+}
+
+/**
+ * Where a merged field is taken from:
+ * - 'primary': the best-matching provider first, then the others
+ * - 'mostRatings': the provider with the most ratings (larger sample)
+ * - a provider list: that order
+ */
+type FieldPreference = 'primary' | 'mostRatings' | EnrichmentProvider[]
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Provider order; also breaks confidence ties when picking the primary source */
+export const ENRICHMENT_PROVIDERS: EnrichmentProvider[] = ['google', 'openlibrary']
+
+const SOURCES: Record<EnrichmentProvider, EnrichmentSource> = {
+  google: {
+    isConfigured: () => Boolean(process.env.GOOGLE_BOOKS_API_KEY),
+    lookup: (target) => lookupGoogleBook(target, process.env.GOOGLE_BOOKS_API_KEY as string),
+  },
+  openlibrary: {
+    isConfigured: () => true,
+    lookup: lookupOpenLibraryBook,
+  },
+}
+
+/**
+ * Google Books descriptions are publisher copy and its covers match the
+ * edition; Open Library fills the gaps
+ */
+const FIELD_PREFERENCES: Record<EnrichedField, FieldPreference> = {
+  title: 'primary',
+  authors: 'primary',
+  description: ['google', 'openlibrary'],
+  publisher: 'primary',
+  publishedDate: 'primary',
+  rating: 'mostRatings',
+  thumbnail: ['google', 'openlibrary'],
+}
+
+const PLACEHOLDERS = createDefaultBookDetails('', '')
+
+const NOT_FOUND: GoogleBooksNotFoundResponse = { message: 'No match found' }
+
+/** Provider lookups in progress, so concurrent requests for the same book share one call */
+const inFlight = new Map<string, Promise<CachedGoogleBooksData>>()
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function normalizeKey(book: { title: string; author: string }): { title: string; author: string } {
+  return {
+    title: book.title.trim().toLowerCase(),
+    author: book.author.trim().toLowerCase(),
+  }
+}
+
+/**
+ * Whether a provider has a real (non-placeholder) value for a field
+ */
+function hasField(details: GoogleBookDetails, field: EnrichedField): boolean {
+  switch (field) {
+    case 'title':
+      return Boolean(details.title)
+    case 'authors':
+      return details.authors.length > 0
+    case 'description':
+      return Boolean(details.description) && details.description !== PLACEHOLDERS.description
+    case 'publisher':
+      return Boolean(details.publisher) && details.publisher !== PLACEHOLDERS.publisher
+    case 'publishedDate':
+      return Boolean(details.publishedDate) && details.publishedDate !== PLACEHOLDERS.publishedDate
+    case 'rating':
+      return details.averageRating !== null
+    case 'thumbnail':
+      return Boolean(details.thumbnail)
+  }
+}
+
+function toProviderResults(cached: CachedResults): ProviderResults {
+  const results: ProviderResults = {}
+  for (const provider of ENRICHMENT_PROVIDERS) {
+    const data = cached[provider]
+    if (isBookDetails(data)) {
+      results[provider] = data
+    }
+  }
+  return results
+}
+
+function getFreshness(entry: CacheEntry): Freshness {
+  const age = Date.now() - entry.cachedAt.getTime()
+  const ttl = isNotFoundResponse(entry.data) ? NOT_FOUND_CACHE_DURATION_MS : CACHE_DURATION_MS
+
+  if (age < ttl) return 'fresh'
+  return age < STALE_CACHE_DURATION_MS ? 'stale' : 'expired'
+}
+
+/**
+ * Cached data young enough to serve, by provider
+ */
+function getServableData(entries: CachedEntries, maxAgeMs: number = STALE_CACHE_DURATION_MS): CachedResults {
+  const data: CachedResults = {}
+  for (const provider of ENRICHMENT_PROVIDERS) {
+    const entry = entries[provider]
+    if (entry && Date.now() - entry.cachedAt.getTime() < maxAgeMs) {
+      data[provider] = entry.data
+    }
+  }
+  return data
+}
+
+/**
+ * Cache entries (of any age) for each book, by provider
+ */
+async function readCacheEntries(books: Array<{ title: string; author: string }>): Promise<CachedEntries[]> {
+  const keys = books.map(normalizeKey)
+  if (keys.length === 0) {
+    return []
+  }
+
+  const rows = await prisma.enrichmentCache.findMany({ where: { OR: keys } })
+  const byBook = new Map<string, CachedEntries>()
+
+  for (const row of rows) {
+    if (!ENRICHMENT_PROVIDERS.includes(row.provider as EnrichmentProvider)) continue
+
+    const bookKey = `${row.title}\n${row.author}`
+    const entries = byBook.get(bookKey) ?? {}
+    entries[row.provider as EnrichmentProvider] = {
+      // Convert Prisma JsonValue to our type (via unknown for type safety)
+      data: row.data as unknown as CachedGoogleBooksData,
+      cachedAt: row.cached_at,
+    }
+    byBook.set(bookKey, entries)
+  }
+
+  return keys.map(key => byBook.get(`${key.title}\n${key.author}`) ?? {})
+}
+
+/**
+ * Save one provider's answer using upsert
+ * Handles both successful results and "not found" markers
+ */
+async function saveToCache(
+  provider: EnrichmentProvider,
+  book: { title: string; author: string },
+  data: CachedGoogleBooksData
+): Promise<void> {
+  const key = normalizeKey(book)
+
+  try {
+    await prisma.enrichmentCache.upsert({
+      where: {
+        provider_title_author: { provider, ...key },
+      },
+      update: {
+        data: data as object,
+        cached_at: new Date(),
+      },
+      create: {
+        provider,
+        ...key,
+        data: data as object,
+        cached_at: new Date(),
+      },
+    })
+  } catch (error) {
+    // Log but don't fail the request if caching fails
+    console.error(`[Enrichment] Failed to cache ${provider} result:`, error)
+  }
+}
+
+/**
+ * Look a book up in one provider and cache the answer
+ * Concurrent calls for the same provider and book share one lookup.
+ *
+ * @throws ProviderUnavailableError if the provider can't answer (nothing is cached)
+ */
+function lookupAndCache(provider: EnrichmentProvider, target: MatchTarget): Promise<CachedGoogleBooksData> {
+  const key = normalizeKey(target)
+  const flightKey = `${provider}\n${key.title}\n${key.author}`
+
+  const pending = inFlight.get(flightKey)
+  if (pending) {
+    return pending
+  }
+
+  const lookup = (async () => {
+    const details = await SOURCES[provider].lookup(target)
+    const data: CachedGoogleBooksData = details ?? NOT_FOUND
+    await saveToCache(provider, target, data)
+    return data
+  })().finally(() => inFlight.delete(flightKey))
+
+  inFlight.set(flightKey, lookup)
+  return lookup
+}
+
+function logLookupError(provider: EnrichmentProvider, target: MatchTarget, error: unknown): void {
+  if (error instanceof ProviderUnavailableError) {
+    console.warn(`[Enrichment] ${error.message} ("${target.title}")`)
+  } else {
+    console.error(`[Enrichment] ${provider} lookup failed for "${target.title}":`, error)
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Merge provider matches field by field, recording where each field came from
+ * Returns null when no provider matched.
+ *
+ * @example
+ * ```typescript
+ * mergeEnrichment({
+ *   google: { ...googleDetails, description: 'No description available', confidence: 0.95 },
+ *   openlibrary: { ...openLibraryDetails, description: 'A guide to...', confidence: 0.9 },
+ * })
+ * // { ...googleDetails, description: 'A guide to...', sources: { title: 'google', description: 'openlibrary', ... } }
+ * ```
+ */
+export function mergeEnrichment(results: ProviderResults): GoogleBookDetails | null {
+  const ranked = ENRICHMENT_PROVIDERS
+    .filter(provider => results[provider])
+    .sort((a, b) => results[b]!.confidence - results[a]!.confidence)
+
+  if (ranked.length === 0) {
+    return null
+  }
+
+  const primary = results[ranked[0]]!
+  // A low-confidence match in another provider may be a different book entirely
+  const usable = ranked.filter((provider, index) =>
+    index === 0 || results[provider]!.confidence >= LOW_CONFIDENCE_THRESHOLD
+  )
+
+  const sources: FieldSources = {}
+  const from = (field: EnrichedField): GoogleBookDetails => {
+    const preference = FIELD_PREFERENCES[field]
+    const order = preference === 'primary'
+      ? usable
+      : preference === 'mostRatings'
+        ? [...usable].sort((a, b) => (results[b]!.ratingsCount ?? 0) - (results[a]!.ratingsCount ?? 0))
+        : preference.filter(provider => usable.includes(provider))
+
+    const provider = order.find(candidate => hasField(results[candidate]!, field))
+    if (!provider) {
+      return primary
+    }
+    sources[field] = provider
+    return results[provider]!
+  }
+
+  const rating = from('rating')
+
+  return {
+    title: from('title').title,
+    authors: from('authors').authors,
+    description: from('description').description,
+    publisher: from('publisher').publisher,
+    publishedDate: from('publishedDate').publishedDate,
+    averageRating: rating.averageRating,
+    ratingsCount: rating.ratingsCount,
+    thumbnail: from('thumbnail').thumbnail,
+    volumeId: usable.includes('google') ? results.google!.volumeId : undefined,
+    confidence: primary.confidence,
+    needsConfirmation: primary.needsConfirmation,
+    sources,
+  }
+}
+
+/**
+ * Merged details for a book from every configured provider
+ * Fresh cached answers are reused, stale ones are served and refreshed in
+ * the background, and only missing or expired ones are looked up.
+ *
+ * @returns Merged details, or null when no provider found the book
+ * @throws ProviderUnavailableError when nothing could be served because a
+ *   provider is unavailable (e.g. rate limited)
+ *
+ * @example
+ * ```typescript
+ * const details = await enrichBook({ title: 'Atomic Habits', author: 'James Clear', isbn: '9780735211292' })
+ * console.log(details?.sources) // { title: 'google', description: 'google', thumbnail: 'openlibrary', ... }
+ * ```
+ */
+export async function enrichBook(target: MatchTarget, options: EnrichOptions = {}): Promise<GoogleBookDetails | null> {
+  let entries: CachedEntries = {}
+  try {
+    [entries] = await readCacheEntries([target])
+  } catch (error) {
+    // Log cache error but continue with provider lookups
+    console.error('[Enrichment] Cache read error:', error)
+  }
+
+  const configured = ENRICHMENT_PROVIDERS.filter(provider => SOURCES[provider].isConfigured())
+  const freshness = (provider: EnrichmentProvider) => {
+    const entry = entries[provider]
+    return entry ? getFreshness(entry) : 'expired'
+  }
+  const stale = configured.filter(provider => freshness(provider) === 'stale')
+  const missing = configured.filter(provider => freshness(provider) === 'expired')
+
+  const data = getServableData(entries)
+  const failures: unknown[] = []
+
+  const refresh = async (provider: EnrichmentProvider) => {
+    try {
+      data[provider] = await lookupAndCache(provider, target)
+    } catch (error) {
+      // Keep serving whatever is cached
+      failures.push(error)
+      logLookupError(provider, target, error)
+    }
+  }
+
+  if (options.waitForRevalidation) {
+    await Promise.all([...stale, ...missing].map(refresh))
+  } else {
+    for (const provider of stale) {
+      lookupAndCache(provider, target).catch(error => logLookupError(provider, target, error))
+    }
+    await Promise.all(missing.map(refresh))
+  }
+
+  const merged = mergeEnrichment(toProviderResults(data))
+  const unavailable = failures.find(error => error instanceof ProviderUnavailableError)
+  if (!merged && unavailable) {
+    throw unavailable
+  }
+  return merged
+}
+
+/**
+ * Each provider's cached match for a list of books (no lookups)
+ *
+ * @param maxAgeMs - Ignore entries older than this (default: the stale limit)
+ * @returns Provider matches per book, in input order
+ */
+export async function getCachedProviderResults(
+  books: Array<{ title: string; author: string }>,
+  maxAgeMs: number = STALE_CACHE_DURATION_MS
+): Promise<ProviderResults[]> {
+  const entries = await readCacheEntries(books)
+  return entries.map(bookEntries => toProviderResults(getServableData(bookEntries, maxAgeMs)))
+}
+
+/**
+ * Merged details for a list of books from the cache only (no lookups)
+ * Stale entries are included; `complete` is false when a configured
+ * provider has no fresh answer, i.e. the book should be (re-)enriched.
+ *
+ * @returns Cached details per book, in input order
+ */
+export async function getCachedEnrichments(
+  books: Array<{ title: string; author: string }>
+): Promise<Array<{ details: GoogleBookDetails | null; complete: boolean }>> {
+  const entries = await readCacheEntries(books)
+  const configured = ENRICHMENT_PROVIDERS.filter(provider => SOURCES[provider].isConfigured())
+
+  return entries.map(bookEntries => ({
+    details: mergeEnrichment(toProviderResults(getServableData(bookEntries))),
+    complete: configured.every(provider => {
+      const entry = bookEntries[provider]
+      return entry !== undefined && getFreshness(entry) === 'fresh'
+    }),
+  }))
+}
+
+/**
+ * Merged details for a book from the cache only, or null when nothing is cached
+ */
+export async function getCachedEnrichment(book: { title: string; author: string }): Promise<GoogleBookDetails | null> {
+  const [{ details }] = await getCachedEnrichments([book])
+  return details
+}
@@ -0,0 +1,257 @@
+/**
+ * Book Match Scoring
+ *
+ * Scores how likely a search result (e.g. a Google Books volume) is the
+ * book that was asked for, so enrichment stops picking study guides and
+ * summaries just because they have better ratings.
+ *
+ * Signals:
+ * - ISBN match (authoritative when present)
+ * - Normalized title similarity (main title and title + subtitle)
+ * - Author overlap (surnames of every requested author)
+ * - Publication year (only when the caller knows it)
+ * - Penalty for derivative works ("Summary of ...", workbooks, analyses)
+ *
+ * The result is a 0-1 confidence; matches below LOW_CONFIDENCE_THRESHOLD
+ * should be confirmed by a person before they are trusted.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MatchTarget {
+  title: string
+  author: string
+  isbn?: string
+  publishedYear?: number
+}
+
+export interface MatchCandidate {
+  title: string
+  subtitle?: string
+  authors: string[]
+  /** YYYY, YYYY-MM or YYYY-MM-DD */
+  publishedDate?: string
+  isbns: string[]
+}
+
+export interface MatchScore {
+  /** 0-1, rounded to two decimals */
+  confidence: number
+  isbnMatch: boolean
+  titleSimilarity: number
+  authorOverlap: number
+  /** null when the target year is unknown */
+  yearScore: number | null
+  derivative: boolean
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Below this a match should be confirmed manually */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6
+
+const MATCH_WEIGHTS = {
+  withYear: { title: 0.55, author: 0.35, year: 0.1 },
+  withoutYear: { title: 0.6, author: 0.4, year: 0 },
+  /** Subtracted when the candidate looks like a summary/guide of the book */
+  derivativePenalty: 0.4,
+  /** Floor for an exact ISBN match */
+  isbnMatch: 0.97,
+}
+
+/** Years apart at which the year signal reaches zero */
+const YEAR_TOLERANCE = 5
+
+/** Title words that mark summaries, guides and other derivative works */
+const DERIVATIVE_TERMS = [
+  'summary',
+  'workbook',
+  'analysis',
+  'study guide',
+  'reading guide',
+  'sparknotes',
+  'cliffsnotes',
+  'key takeaways',
+  'conversation starters',
+  'trivia',
+  'quicklet',
+  'book companion',
+]
+
+const TITLE_STOPWORDS = new Set(['the', 'a', 'an'])
+
+const NON_WORD_PATTERN = new RegExp('[^\\p{L}\\p{N}\\s]', 'gu')
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Lowercase, strip accents and punctuation, collapse whitespace
+ */
+function normalize(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(NON_WORD_PATTERN, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function titleTokens(title: string): string[] {
+  return normalize(title).split(' ').filter(token => token && !TITLE_STOPWORDS.has(token))
+}
+
+/**
+ * Title without its subtitle ("Atomic Habits: An Easy..." → "Atomic Habits")
+ */
+function mainTitle(title: string): string {
+  return title.split(/:| - | — /)[0]
+}
+
+/**
+ * Dice coefficient over word tokens (1 = same words)
+ */
+function tokenSimilarity(a: string, b: string): number {
+  const tokensA = titleTokens(a)
+  const tokensB = titleTokens(b)
+  if (tokensA.length === 0 || tokensB.length === 0) {
+    return 0
+  }
+
+  const remaining = [...tokensB]
+  let shared = 0
+  for (const token of tokensA) {
+    const index = remaining.indexOf(token)
+    if (index !== -1) {
+      shared++
+      remaining.splice(index, 1)
+    }
+  }
+
+  return (2 * shared) / (tokensA.length + tokensB.length)
+}
+
+/**
+ * Split "A and B", "A, B & C" or "A with B" into individual names
+ */
+function splitAuthors(author: string): string[] {
+  return author
+    .split(/\s*(?:,|&|\band\b|\bwith\b)\s*/i)
+    .map(name => normalize(name))
+    .filter(Boolean)
+}
+
+function surname(name: string): string {
+  const parts = name.split(' ')
+  return parts[parts.length - 1]
+}
+
+/**
+ * Digits (and a trailing X) only, ISBN-10s converted to ISBN-13
+ */
+export function normalizeIsbn(isbn: string): string {
+  const clean = isbn.replace(/[^0-9Xx]/g, '').toUpperCase()
+  if (clean.length !== 10) {
+    return clean
+  }
+
+  const body = `978${clean.slice(0, 9)}`
+  const sum = body
+    .split('')
+    .reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 1 : 3), 0)
+  return `${body}${(10 - (sum % 10)) % 10}`
+}
+
+function parseYear(date?: string): number | null {
+  const match = date?.match(/^(\d{4})/)
+  return match ? parseInt(match[1], 10) : null
+}
+
+/**
+ * Whether the candidate is a summary/guide of the book rather than the book
+ * Terms that also appear in the requested title don't count.
+ */
+function isDerivativeWork(target: MatchTarget, candidate: MatchCandidate): boolean {
+  // Padded so terms only match whole words ("analysis" but not "psychoanalysis")
+  const requested = ` ${normalize(target.title)} `
+  const found = ` ${normalize(`${candidate.title} ${candidate.subtitle ?? ''}`)} `
+
+  return DERIVATIVE_TERMS.some(term => found.includes(` ${term} `) && !requested.includes(` ${term} `))
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Score how well a candidate matches the requested book
+ *
+ * @example
+ * ```typescript
+ * scoreBookMatch(
+ *   { title: 'ATOMIC HABITS', author: 'James Clear' },
+ *   { title: 'Atomic Habits', subtitle: 'An Easy & Proven Way...', authors: ['James Clear'], isbns: [] }
+ * )
+ * // { confidence: 1, titleSimilarity: 1, authorOverlap: 1, derivative: false, ... }
+ *
+ * scoreBookMatch(
+ *   { title: 'ATOMIC HABITS', author: 'James Clear' },
+ *   { title: 'Summary of Atomic Habits', authors: ['QuickRead'], isbns: [] }
+ * )
+ * // { confidence: 0, derivative: true, ... }
+ * ```
+ */
+export function scoreBookMatch(target: MatchTarget, candidate: MatchCandidate): MatchScore {
+  const targetIsbn = target.isbn ? normalizeIsbn(target.isbn) : null
+  const isbnMatch = targetIsbn !== null &&
+    candidate.isbns.some(isbn => normalizeIsbn(isbn) === targetIsbn)
+
+  const fullTitle = candidate.subtitle ? `${candidate.title}: ${candidate.subtitle}` : candidate.title
+  const titleSimilarity = Math.max(
+    tokenSimilarity(mainTitle(target.title), mainTitle(candidate.title)),
+    tokenSimilarity(target.title, fullTitle)
+  )
+
+  const requestedAuthors = splitAuthors(target.author)
+  const candidateTokens = new Set(
+    candidate.authors.flatMap(author => normalize(author).split(' '))
+  )
+  const authorOverlap = requestedAuthors.length === 0
+    ? 0
+    : requestedAuthors.filter(name => candidateTokens.has(surname(name))).length / requestedAuthors.length
+
+  const candidateYear = parseYear(candidate.publishedDate)
+  const yearScore = target.publishedYear !== undefined && candidateYear !== null
+    ? Math.max(0, 1 - Math.abs(target.publishedYear - candidateYear) / YEAR_TOLERANCE)
+    : null
+
+  const derivative = isDerivativeWork(target, candidate)
+
+  const weights = yearScore === null ? MATCH_WEIGHTS.withoutYear : MATCH_WEIGHTS.withYear
+  let confidence = titleSimilarity * weights.title +
+    authorOverlap * weights.author +
+    (yearScore ?? 0) * weights.year
+
+  if (derivative) {
+    confidence -= MATCH_WEIGHTS.derivativePenalty
+  }
+  if (isbnMatch) {
+    confidence = Math.max(confidence, MATCH_WEIGHTS.isbnMatch)
+  }
+
+  return {
+    confidence: Math.round(Math.min(1, Math.max(0, confidence)) * 100) / 100,
+    isbnMatch,
+    titleSimilarity: Math.round(titleSimilarity * 100) / 100,
+    authorOverlap: Math.round(authorOverlap * 100) / 100,
+    yearScore: yearScore === null ? null : Math.round(yearScore * 100) / 100,
+    derivative,
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Book Enrichment Overrides
+ *
+ * Manual curation for when automatic enrichment picks the wrong edition:
+ * pin a Google Books volume (by id or ISBN) to a Book and/or edit its
+ * description and cover. An override always wins over automatic lookups
+ * (/api/google-books, render batches) until it is removed.
+ *
+ * The pinned volume's details are stored with the override, so pinned
+ * books never hit the Google Books API again.
+ */
+
+import { Book, BookEnrichmentOverride, Prisma } from '@prisma/client'
+import { prisma } from './db'
+import { getCachedEnrichment } from './book-enrichment'
+import { COVER_HOSTS, parseCoverUrl } from './cover-hosts'
+import {
+  buildEnrichedData,
+  fetchGoogleBooks,
+  fetchGoogleVolume,
+  getVolumeIsbns,
+  rankVolumes,
+  GoogleBooksVolume,
+} from './google-books-api'
+import {
+  EnrichedField,
+  FieldSources,
+  GoogleBookDetails,
+  createDefaultBookDetails,
+} from './types/google-books'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Body of PUT /api/books/[id]/enrichment (replaces the whole override)
+ */
+export interface EnrichmentOverrideInput {
+  /** Google Books volume to pin */
+  volumeId?: string
+  /** ISBN to pin (used when no volumeId is given) */
+  isbn?: string
+  description?: string
+  /** Cover URL (must be on a host allowed in next.config.js images) */
+  thumbnail?: string
+}
+
+export interface EnrichmentOverrideView {
+  bookId: number
+  volumeId: string | null
+  isbn: string | null
+  description: string | null
+  thumbnail: string | null
+  /** Details served for the book (pinned volume + manual edits) */
+  details: GoogleBookDetails
+  updatedAt: string
+}
+
+/**
+ * A search result offered for pinning
+ */
+export interface CandidateVolume extends GoogleBookDetails {
+  volumeId: string
+  isbns: string[]
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_DESCRIPTION_LENGTH = 10000
+
+/** Fields taken from a pinned Google Books volume */
+const PINNED_FIELDS: EnrichedField[] = [
+  'title',
+  'authors',
+  'description',
+  'publisher',
+  'publishedDate',
+  'rating',
+  'thumbnail',
+]
+const MAX_CANDIDATES = 10
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function getApiKey(): string {
+  const apiKey = process.env.GOOGLE_BOOKS_API_KEY
+  if (!apiKey) {
+    throw new Error('GOOGLE_BOOKS_API_KEY is not configured')
+  }
+  return apiKey
+}
+
+/**
+ * Pinned volume details; a manual pin is fully trusted
+ */
+function toPinnedDetails(volume: GoogleBooksVolume, book: Book): GoogleBookDetails {
+  const [scored] = rankVolumes([volume], { title: book.book_title, author: book.author })
+  return {
+    ...buildEnrichedData(scored, book.book_title, book.author),
+    confidence: 1,
+    needsConfirmation: false,
+  }
+}
+
+/**
+ * What the book currently shows without a pin: the cached automatic match, or defaults
+ */
+async function getAutomaticDetails(book: Book): Promise<GoogleBookDetails> {
+  const details = await getCachedEnrichment({ title: book.book_title, author: book.author })
+  return details ?? createDefaultBookDetails(book.book_title, book.author)
+}
+
+/**
+ * Provenance for override details: manual edits, else Google Books for a
+ * pinned volume, else whatever the frozen automatic details came from
+ */
+function getOverrideSources(row: BookEnrichmentOverride, data: GoogleBookDetails): FieldSources {
+  const sources: FieldSources = row.volumeId
+    ? Object.fromEntries(PINNED_FIELDS.map(field => [field, 'google']))
+    : { ...data.sources }
+
+  if (row.description) sources.description = 'manual'
+  if (row.thumbnail) sources.thumbnail = 'manual'
+  return sources
+}
+
+function toOverrideView(row: BookEnrichmentOverride): EnrichmentOverrideView {
+  const data = row.data as unknown as GoogleBookDetails
+
+  return {
+    bookId: row.bookId,
+    volumeId: row.volumeId,
+    isbn: row.isbn,
+    description: row.description,
+    thumbnail: row.thumbnail,
+    details: {
+      ...data,
+      description: row.description ?? data.description,
+      thumbnail: row.thumbnail ?? data.thumbnail,
+      confidence: 1,
+      needsConfirmation: false,
+      sources: getOverrideSources(row, data),
+    },
+    updatedAt: row.updatedAt.toISOString(),
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Validate an override body
+ * @returns Validation errors (empty when valid)
+ */
+export function validateOverrideInput(value: unknown): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ['Body must be an object']
+  }
+
+  const input = value as Record<string, unknown>
+  const errors: string[] = []
+
+  for (const field of ['volumeId', 'isbn', 'description', 'thumbnail']) {
+    if (input[field] !== undefined && typeof input[field] !== 'string') {
+      errors.push(`${field} must be a string`)
+    }
+  }
+
+  if (typeof input.isbn === 'string' && input.isbn.trim() &&
+    !/^(\d{9}[\dXx]|\d{13})$/.test(input.isbn.replace(/[-\s]/g, ''))) {
+    errors.push('isbn must be an ISBN-10 or ISBN-13')
+  }
+
+  if (typeof input.description === 'string' && input.description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.push(`description must be at most ${MAX_DESCRIPTION_LENGTH} characters`)
+  }
+
+  if (typeof input.thumbnail === 'string' && input.thumbnail.trim()) {
+    const thumbnail = input.thumbnail.trim()
+    if (!thumbnail.startsWith('https://') || !parseCoverUrl(thumbnail)) {
+      errors.push(`thumbnail must be an https URL on ${COVER_HOSTS.map(host => host.hostname).join(', ')}`)
+    }
+  }
+
+  if (errors.length === 0 && !['volumeId', 'isbn', 'description', 'thumbnail']
+    .some(field => typeof input[field] === 'string' && (input[field] as string).trim())) {
+    errors.push('Provide at least one of volumeId, isbn, description or thumbnail')
+  }
+
+  return errors
+}
+
+/**
+ * Current override for a book, or null
+ */
+export async function getEnrichmentOverride(bookId: number): Promise<EnrichmentOverrideView | null> {
+  const row = await prisma.bookEnrichmentOverride.findUnique({ where: { bookId } })
+  return row ? toOverrideView(row) : null
+}
+
+/**
+ * Overrides for several books, keyed by book id (books without one are absent)
+ */
+export async function getEnrichmentOverrides(bookIds: number[]): Promise<Map<number, EnrichmentOverrideView>> {
+  if (bookIds.length === 0) {
+    return new Map()
+  }
+
+  const rows = await prisma.bookEnrichmentOverride.findMany({ where: { bookId: { in: bookIds } } })
+  return new Map(rows.map(row => [row.bookId, toOverrideView(row)]))
+}
+
+/**
+ * Create or replace a book's override
+ * A pinned volume id or ISBN is looked up once and its details stored;
+ * without one, the book's current automatic details are frozen as the base.
+ *
+ * @returns The saved override, or null when the volume/ISBN can't be found
+ * @throws ProviderUnavailableError if Google Books can't answer
+ *
+ * @example
+ * ```typescript
+ * await saveEnrichmentOverride(book, { volumeId: 'XfFvDwAAQBAJ' })
+ * await saveEnrichmentOverride(book, { isbn: '9780735211292', description: 'Curated blurb' })
+ * ```
+ */
+export async function saveEnrichmentOverride(
+  book: Book,
+  input: EnrichmentOverrideInput
+): Promise<EnrichmentOverrideView | null> {
+  const volumeId = input.volumeId?.trim() || null
+  const isbn = input.isbn?.replace(/[-\s]/g, '') || null
+
+  let base: GoogleBookDetails
+  if (volumeId) {
+    const volume = await fetchGoogleVolume(volumeId, getApiKey())
+    if (!volume) return null
+    base = toPinnedDetails(volume, book)
+  } else if (isbn) {
+    const [volume] = await fetchGoogleBooks(`isbn:${isbn}`, getApiKey(), 1)
+    if (!volume) return null
+    base = toPinnedDetails(volume, book)
+  } else {
+    base = await getAutomaticDetails(book)
+  }
+
+  const fields = {
+    volumeId: base.volumeId && (volumeId || isbn) ? base.volumeId : null,
+    isbn,
+    data: base as unknown as Prisma.InputJsonValue,
+    description: input.description?.trim() || null,
+    thumbnail: input.thumbnail?.trim() || null,
+  }
+
+  const row = await prisma.bookEnrichmentOverride.upsert({
+    where: { bookId: book.id },
+    update: fields,
+    create: { ...fields, bookId: book.id },
+  })
+
+  console.log(`[Book Overrides] Saved override for book ${book.id} (volume: ${fields.volumeId ?? 'none'})`)
+  return toOverrideView(row)
+}
+
+/**
+ * Remove a book's override (automatic enrichment applies again)
+ * @returns false when the book had no override
+ */
+export async function deleteEnrichmentOverride(bookId: number): Promise<boolean> {
+  const { count } = await prisma.bookEnrichmentOverride.deleteMany({ where: { bookId } })
+  return count > 0
+}
+
+/**
+ * Google Books volumes that could be this book, best match first
+ *
+ * @param query - Free-text search (default: the book's ISBN, then title + author)
+ * @throws ProviderUnavailableError if Google Books can't answer
+ */
+export async function searchCandidateVolumes(book: Book, query?: string): Promise<CandidateVolume[]> {
+  const apiKey = getApiKey()
+  const target = {
+    title: book.book_title,
+    author: book.author,
+    isbn: book.primary_isbn13 ?? undefined,
+  }
+
+  const volumes: GoogleBooksVolume[] = []
+  if (query?.trim()) {
+    volumes.push(...await fetchGoogleBooks(query.trim(), apiKey, MAX_CANDIDATES))
+  } else {
+    if (book.primary_isbn13) {
+      volumes.push(...await fetchGoogleBooks(`isbn:${book.primary_isbn13}`, apiKey, 1))
+    }
+    volumes.push(...await fetchGoogleBooks(
+      `intitle:${book.book_title}+inauthor:${book.author}`,
+      apiKey,
+      MAX_CANDIDATES
+    ))
+  }
+
+  const unique = volumes.filter((volume, index) => volumes.findIndex(v => v.id === volume.id) === index)
+
+  return rankVolumes(unique, target).map((scored) => ({
+    ...buildEnrichedData(scored, book.book_title, book.author),
+    volumeId: scored.volume.id,
+    isbns: getVolumeIsbns(scored.volume),
+  }))
+}
@@ -0,0 +1,406 @@
+/**
+ * Brand Templates
+ *
+ * Declarative definitions of the book branding added to rendered videos:
+ * - Title card: dimmed opening footage with the book cover, title and author
+ * - Cover badge: small persistent cover in a corner while the narration plays
+ * - End card: solid background after the narration with cover, title,
+ *   author, call-to-action and handle
+ *
+ * Templates are plain data (positions as fractions of the frame, font sizes
+ * for a 1080px frame, colors as #RRGGBB), so brand looks are maintained here
+ * without touching FFmpeg code. compileBranding() turns a template into
+ * FFmpeg filters (backgrounds, cover overlays) and ASS text overlays.
+ *
+ * Environment Variables:
+ * - BRAND_CALL_TO_ACTION: Default end-card call-to-action
+ * - BRAND_HANDLE: Default end-card handle (e.g. @mindshelf)
+ */
+
+import type { AssTextOverlay } from './ass-subtitles'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BrandTemplateName = 'classic' | 'minimal' | 'bold' | 'plain'
+
+export type CoverBadgePosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+
+export interface BrandTemplate {
+  name: BrandTemplateName
+  label: string
+  fontName: string
+  textColor: string
+  accentColor: string
+  titleCard: {
+    enabled: boolean
+    /** Seconds shown over the opening footage */
+    duration: number
+    /** Opacity of the black layer dimming the footage (0-1) */
+    dimOpacity: number
+    /** Cover height (fraction of frame height) */
+    coverHeight: number
+    /** Vertical center of the cover and the title (fractions of frame height) */
+    coverY: number
+    titleY: number
+    /** Font sizes for a 1080px frame */
+    titleSize: number
+    authorSize: number
+  }
+  coverBadge: {
+    enabled: boolean
+    position: CoverBadgePosition
+    /** Badge height (fraction of frame height) */
+    height: number
+    /** Distance from the frame edges (fraction of the shorter side) */
+    margin: number
+    /** 0-1 */
+    opacity: number
+  }
+  endCard: {
+    enabled: boolean
+    /** Seconds added after the narration */
+    duration: number
+    backgroundColor: string
+    coverHeight: number
+    coverY: number
+    titleY: number
+    ctaY: number
+    titleSize: number
+    authorSize: number
+    ctaSize: number
+    callToAction: string
+    handle: string
+  }
+}
+
+/**
+ * Book data shown on the cards
+ */
+export interface BrandingContent {
+  title: string
+  author?: string
+  /** Downloaded cover image (cards are text-only without one) */
+  coverPath?: string
+  /** Overrides the template / BRAND_CALL_TO_ACTION */
+  callToAction?: string
+  /** Overrides the template / BRAND_HANDLE */
+  handle?: string
+}
+
+export interface BrandingFrame {
+  width: number
+  height: number
+  fps: number
+  /** Narration length in seconds (the end card starts here) */
+  narrationDuration: number
+}
+
+/**
+ * Filter graph labels: the video stream to brand, the branded output,
+ * and the FFmpeg input index of the cover image (if any)
+ */
+export interface BrandingLabels {
+  input: string
+  output: string
+  coverInput?: number
+}
+
+export interface BrandingLayers {
+  /** Filters from [input] to [output] */
+  filters: string[]
+  /** Card text, burned in with the captions */
+  overlays: AssTextOverlay[]
+  /** Seconds the video runs past the narration (end card) */
+  tailDuration: number
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CLASSIC_TEMPLATE: BrandTemplate = {
+  name: 'classic',
+  label: 'Classic',
+  fontName: 'Montserrat Black',
+  textColor: '#FFFFFF',
+  accentColor: '#FFE500',
+  titleCard: {
+    enabled: true,
+    duration: 2.5,
+    dimOpacity: 0.55,
+    // Upper half, clear of center-aligned captions
+    coverHeight: 0.24,
+    coverY: 0.2,
+    titleY: 0.36,
+    titleSize: 72,
+    authorSize: 44,
+  },
+  coverBadge: {
+    enabled: false,
+    position: 'top-right',
+    height: 0.12,
+    margin: 0.04,
+    opacity: 0.9,
+  },
+  endCard: {
+    enabled: true,
+    duration: 3,
+    backgroundColor: '#111111',
+    coverHeight: 0.32,
+    coverY: 0.28,
+    titleY: 0.53,
+    ctaY: 0.7,
+    titleSize: 64,
+    authorSize: 42,
+    ctaSize: 56,
+    callToAction: 'Link in bio',
+    handle: '',
+  },
+}
+
+export const BRAND_TEMPLATES: Record<BrandTemplateName, BrandTemplate> = {
+  classic: CLASSIC_TEMPLATE,
+  minimal: {
+    ...CLASSIC_TEMPLATE,
+    name: 'minimal',
+    label: 'Minimal',
+    fontName: 'Noto Sans',
+    accentColor: '#D9D9D9',
+    titleCard: { ...CLASSIC_TEMPLATE.titleCard, enabled: false },
+    coverBadge: { ...CLASSIC_TEMPLATE.coverBadge, enabled: true, position: 'top-left', opacity: 0.85 },
+    endCard: {
+      ...CLASSIC_TEMPLATE.endCard,
+      duration: 2.5,
+      backgroundColor: '#000000',
+      callToAction: 'Follow for more book picks',
+    },
+  },
+  bold: {
+    ...CLASSIC_TEMPLATE,
+    name: 'bold',
+    label: 'Bold',
+    accentColor: '#FF3B30',
+    titleCard: { ...CLASSIC_TEMPLATE.titleCard, duration: 2, dimOpacity: 0.7, titleSize: 84 },
+    coverBadge: { ...CLASSIC_TEMPLATE.coverBadge, enabled: true },
+    endCard: {
+      ...CLASSIC_TEMPLATE.endCard,
+      backgroundColor: '#1A0000',
+      ctaSize: 64,
+      callToAction: 'Read it next',
+    },
+  },
+  plain: {
+    ...CLASSIC_TEMPLATE,
+    name: 'plain',
+    label: 'No branding',
+    titleCard: { ...CLASSIC_TEMPLATE.titleCard, enabled: false },
+    coverBadge: { ...CLASSIC_TEMPLATE.coverBadge, enabled: false },
+    endCard: { ...CLASSIC_TEMPLATE.endCard, enabled: false },
+  },
+}
+
+export const BRAND_TEMPLATE_NAMES = Object.keys(BRAND_TEMPLATES) as BrandTemplateName[]
+export const DEFAULT_BRAND_TEMPLATE: BrandTemplateName = 'classic'
+
+/** Longest call-to-action / handle that fits on the end card */
+export const MAX_CARD_TEXT_LENGTH = 80
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * #RRGGBB -> 0xRRGGBB (FFmpeg color syntax); anything else becomes black
+ *
+ * @example
+ * ```typescript
+ * toFfmpegColor('#1a2b3c') // '0x1A2B3C'
+ * ```
+ */
+export function toFfmpegColor(hex: string): string {
+  const value = /^#?([0-9a-f]{6})$/i.exec(hex.trim())?.[1] ?? '000000'
+  return `0x${value.toUpperCase()}`
+}
+
+export function isBrandTemplateName(value: unknown): value is BrandTemplateName {
+  return typeof value === 'string' && BRAND_TEMPLATE_NAMES.includes(value as BrandTemplateName)
+}
+
+/**
+ * Compile a template and book content into filters and text overlays
+ *
+ * @example
+ * ```typescript
+ * const branding = compileBranding(
+ *   BRAND_TEMPLATES.classic,
+ *   { title: 'Atomic Habits', author: 'James Clear', coverPath: '/tmp/cover.jpg' },
+ *   { width: 1080, height: 1920, fps: 30, narrationDuration: 42 },
+ *   { input: 'joined', output: 'branded', coverInput: 3 }
+ * )
+ * ```
+ */
+export function compileBranding(
+  template: BrandTemplate,
+  content: BrandingContent,
+  frame: BrandingFrame,
+  labels: BrandingLabels
+): BrandingLayers {
+  const { width, height, fps, narrationDuration } = frame
+  const { titleCard, coverBadge, endCard } = template
+
+  // Font sizes and margins are designed for a 1080px frame
+  const scale = Math.min(width, height) / 1080
+  const hasCover = !!content.coverPath && labels.coverInput !== undefined
+
+  const titleEnd = titleCard.enabled ? Math.min(titleCard.duration, narrationDuration) : 0
+  const tailDuration = endCard.enabled ? endCard.duration : 0
+
+  const filters: string[] = []
+  const overlays: AssTextOverlay[] = []
+  let current = labels.input
+  let step = 0
+
+  const next = () => `brand${++step}`
+
+  // End card background, appended after the narration
+  if (endCard.enabled) {
+    const main = next()
+    const background = next()
+    const joined = next()
+    filters.push(
+      `[${current}]format=yuv420p,setsar=1[${main}]`,
+      `color=c=${toFfmpegColor(endCard.backgroundColor)}:s=${width}x${height}:r=${fps}:d=${tailDuration},format=yuv420p,setsar=1[${background}]`,
+      `[${main}][${background}]concat=n=2:v=1:a=0[${joined}]`
+    )
+    current = joined
+  }
+
+  // Dim the opening footage behind the title card
+  if (titleCard.enabled && titleEnd > 0) {
+    const dimmed = next()
+    filters.push(
+      `[${current}]drawbox=x=0:y=0:w=iw:h=ih:color=black@${titleCard.dimOpacity}:t=fill:` +
+      `enable='between(t,0,${titleEnd.toFixed(2)})'[${dimmed}]`
+    )
+    current = dimmed
+  }
+
+  // Cover image layers: title card, badge, end card
+  if (hasCover) {
+    const layers: Array<{ height: number; x: string; y: string; enable: string; opacity?: number }> = []
+
+    if (titleCard.enabled && titleEnd > 0) {
+      const coverHeight = Math.round(height * titleCard.coverHeight)
+      layers.push({
+        height: coverHeight,
+        x: '(W-w)/2',
+        y: String(Math.round(height * titleCard.coverY - coverHeight / 2)),
+        enable: `between(t,0,${titleEnd.toFixed(2)})`,
+      })
+    }
+
+    if (coverBadge.enabled) {
+      const margin = Math.round(Math.min(width, height) * coverBadge.margin)
+      const [vertical, horizontal] = coverBadge.position.split('-')
+      layers.push({
+        height: Math.round(height * coverBadge.height),
+        x: horizontal === 'left' ? String(margin) : `W-w-${margin}`,
+        y: vertical === 'top' ? String(margin) : `H-h-${margin}`,
+        enable: `between(t,${titleEnd.toFixed(2)},${narrationDuration.toFixed(2)})`,
+        opacity: coverBadge.opacity,
+      })
+    }
+
+    if (endCard.enabled) {
+      const coverHeight = Math.round(height * endCard.coverHeight)
+      layers.push({
+        height: coverHeight,
+        x: '(W-w)/2',
+        y: String(Math.round(height * endCard.coverY - coverHeight / 2)),
+        enable: `gte(t,${narrationDuration.toFixed(2)})`,
+      })
+    }
+
+    if (layers.length > 0) {
+      const copies = layers.map(() => next())
+      filters.push(`[${labels.coverInput}:v]split=${layers.length}${copies.map(c => `[${c}]`).join('')}`)
+
+      layers.forEach((layer, i) => {
+        const scaled = next()
+        const composed = next()
+        const opacity = layer.opacity !== undefined && layer.opacity < 1
+          ? `,colorchannelmixer=aa=${layer.opacity}`
+          : ''
+
+        filters.push(
+          `[${copies[i]}]scale=-2:${layer.height},format=rgba${opacity}[${scaled}]`,
+          `[${current}][${scaled}]overlay=x=${layer.x}:y=${layer.y}:enable='${layer.enable}'[${composed}]`
+        )
+        current = composed
+      })
+    }
+  }
+
+  // Card text (drawn with the captions so it shares their fonts)
+  const text = (
+    value: string | undefined,
+    start: number,
+    end: number,
+    y: number,
+    size: number,
+    color: string,
+    bold: boolean
+  ) => {
+    if (value && value.trim()) {
+      overlays.push({
+        text: value.trim(),
+        start,
+        end,
+        x: width / 2,
+        y: height * y,
+        fontName: template.fontName,
+        fontSize: size * scale,
+        color,
+        bold,
+      })
+    }
+  }
+
+  if (titleCard.enabled && titleEnd > 0) {
+    // Without a cover, the text moves up into the cover's place
+    const titleY = hasCover ? titleCard.titleY : titleCard.coverY
+    const authorY = titleY + (titleCard.titleSize * 1.6 * scale) / height
+    text(content.title, 0, titleEnd, titleY, titleCard.titleSize, template.textColor, true)
+    text(content.author && `by ${content.author}`, 0, titleEnd, authorY, titleCard.authorSize, template.accentColor, false)
+  }
+
+  if (endCard.enabled) {
+    const start = narrationDuration
+    const end = narrationDuration + tailDuration
+    const shift = hasCover ? 0 : endCard.titleY - endCard.coverY
+    const titleY = endCard.titleY - shift
+    const authorY = titleY + (endCard.titleSize * 1.6 * scale) / height
+    const ctaY = endCard.ctaY - shift
+    const handleY = ctaY + (endCard.ctaSize * 1.5 * scale) / height
+
+    const callToAction = content.callToAction ?? (process.env.BRAND_CALL_TO_ACTION || endCard.callToAction)
+    const handle = content.handle ?? (process.env.BRAND_HANDLE || endCard.handle)
+
+    text(content.title, start, end, titleY, endCard.titleSize, template.textColor, true)
+    text(content.author && `by ${content.author}`, start, end, authorY, endCard.authorSize, template.textColor, false)
+    text(callToAction, start, end, ctaY, endCard.ctaSize, template.accentColor, true)
+    text(handle, start, end, handleY, endCard.authorSize, template.textColor, false)
+  }
+
+  if (filters.length === 0 || current === labels.input) {
+    filters.push(`[${current}]null[${labels.output}]`)
+  } else {
+    // Rename the last label to the requested output
+    const last = filters.length - 1
+    filters[last] = filters[last].replace(new RegExp(`\\[${current}\\]$`), `[${labels.output}]`)
+  }
+
+  return { filters, overlays, tailDuration }
+}
@@ -0,0 +1,92 @@
+/**
+ * Book Cover Hosts
+ *
+ * The only hosts book cover URLs may point at. Shared by next.config.js
+ * (images.remotePatterns, so next/image can show the covers) and the server
+ * code that accepts cover URLs from clients or downloads them for renders,
+ * so user-supplied URLs can't make the server fetch arbitrary addresses.
+ *
+ * CommonJS so next.config.js can require it.
+ *
+ * - books.google.com: Google Books API thumbnails
+ * - covers.openlibrary.org: Open Library covers
+ * - storage.googleapis.com: NYT bestseller list covers
+ *
+ * Open Library serves its covers by redirecting to archive.org, so
+ * downloads may follow redirects there (see parseCoverRedirect).
+ */
+
+/**
+ * @typedef {Object} CoverHost
+ * @property {string} hostname
+ * @property {string} [pathname] - Path prefix covers are served under, if restricted
+ */
+
+/** @type {CoverHost[]} */
+const COVER_HOSTS = [
+  { hostname: 'books.google.com', pathname: '/books/' },
+  { hostname: 'covers.openlibrary.org' },
+  { hostname: 'storage.googleapis.com', pathname: '/du-prd/' },
+]
+
+/** Domains cover hosts redirect to (subdomains included) */
+const COVER_REDIRECT_DOMAINS = ['archive.org']
+
+/**
+ * Parse a cover URL and check it against COVER_HOSTS
+ * Google Books' http:// links are upgraded to https.
+ *
+ * @param {string} value
+ * @returns {URL | null} The https URL, or null when it isn't an allowed cover URL
+ *
+ * @example
+ * parseCoverUrl('http://books.google.com/books/content?id=abc') // URL { href: 'https://books.google.com/books/content?id=abc' }
+ * parseCoverUrl('http://169.254.169.254/latest/meta-data') // null
+ */
+function parseCoverUrl(value) {
+  let url
+  try {
+    url = new URL(value.trim())
+  } catch {
+    return null
+  }
+
+  if (url.protocol === 'http:') {
+    url.protocol = 'https:'
+  }
+
+  const allowed = url.protocol === 'https:' && !url.port && !url.username && !url.password &&
+    COVER_HOSTS.some(host => host.hostname === url.hostname &&
+      (!host.pathname || url.pathname.startsWith(host.pathname)))
+
+  return allowed ? url : null
+}
+
+/**
+ * Resolve a redirect Location from a cover host and check where it leads:
+ * another cover URL, or https on one of COVER_REDIRECT_DOMAINS
+ *
+ * @param {string} location - The redirect's Location header
+ * @param {URL} from - The URL that redirected
+ * @returns {URL | null} The URL to follow, or null when it must not be followed
+ */
+function parseCoverRedirect(location, from) {
+  let url
+  try {
+    url = new URL(location, from)
+  } catch {
+    return null
+  }
+
+  const cover = parseCoverUrl(url.toString())
+  if (cover) {
+    return cover
+  }
+
+  const allowed = url.protocol === 'https:' && !url.port && !url.username && !url.password &&
+    COVER_REDIRECT_DOMAINS.some(domain => url.hostname === domain || url.hostname.endsWith(`.${domain}`))
+
+  return allowed ? url : null
+}
+
+module.exports = { COVER_HOSTS, parseCoverUrl, parseCoverRedirect }
@@ -0,0 +1,244 @@
+/**
+ * Enriched Book Records
+ *
+ * Joins books with their enrichment on the server, so list endpoints
+ * (/api/books, /api/trending) return display-ready records in one response
+ * instead of the browser calling /api/google-books once per book.
+ *
+ * Precedence per field: manual override > merged providers (cache only) >
+ * NYT list data. Books the cache doesn't cover yet are queued for the
+ * background worker (lib/enrichment-worker.ts) and served with NYT data
+ * meanwhile (`enriched: false`).
+ */
+
+import { Book } from '@prisma/client'
+import { getCachedEnrichments } from './book-enrichment'
+import { getEnrichmentOverrides } from './book-overrides'
+import { queueEnrichment } from './enrichment-worker'
+import { FieldSources, GoogleBookDetails, createDefaultBookDetails } from './types/google-books'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What's needed to enrich a book (a TrendingBook fits as is)
+ */
+export interface EnrichmentSubject {
+  id: number
+  title: string
+  author: string
+  isbn13: string | null
+  /** NYT list blurb, used when no provider has a description */
+  description: string | null
+  /** NYT cover, used when no provider has one */
+  coverImage: string | null
+  publisher?: string | null
+}
+
+/**
+ * Display-ready enrichment for one book
+ */
+export interface BookEnrichment {
+  description: string
+  publisher: string
+  publishedDate: string
+  averageRating: number | null
+  ratingsCount: number | null
+  thumbnail: string
+  confidence: number
+  needsConfirmation: boolean
+  sources: FieldSources
+  /** False while the book waits for background enrichment */
+  enriched: boolean
+}
+
+/**
+ * A book as returned by GET /api/books
+ */
+export interface EnrichedBook extends BookEnrichment {
+  id: number
+  title: string
+  author: string
+  genre: string
+  /** NYT rank (lower = more popular) */
+  rank: number
+  isbn13: string | null
+  weeksOnList: number
+  buyUrl: string | null
+  updatedAt: string
+}
+
+export type EnrichedBookField = keyof EnrichedBook
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Fields that can be requested with GET /api/books?fields= */
+export const ENRICHED_BOOK_FIELDS: EnrichedBookField[] = [
+  'id',
+  'title',
+  'author',
+  'genre',
+  'rank',
+  'isbn13',
+  'weeksOnList',
+  'buyUrl',
+  'updatedAt',
+  'description',
+  'publisher',
+  'publishedDate',
+  'averageRating',
+  'ratingsCount',
+  'thumbnail',
+  'confidence',
+  'needsConfirmation',
+  'sources',
+  'enriched',
+]
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Fill placeholder fields from NYT list data, recording it as the source
+ */
+function toBookEnrichment(
+  subject: EnrichmentSubject,
+  details: GoogleBookDetails | null,
+  enriched: boolean
+): BookEnrichment {
+  const defaults = createDefaultBookDetails(subject.title, subject.author)
+  const data = details ?? defaults
+  const sources: FieldSources = { ...data.sources }
+
+  let description = data.description
+  if (description === defaults.description && subject.description) {
+    description = subject.description
+    sources.description = 'nyt'
+  }
+
+  let publisher = data.publisher
+  if (publisher === defaults.publisher && subject.publisher) {
+    publisher = subject.publisher
+    sources.publisher = 'nyt'
+  }
+
+  let thumbnail = data.thumbnail
+  if (!thumbnail && subject.coverImage) {
+    thumbnail = subject.coverImage
+    sources.thumbnail = 'nyt'
+  }
+
+  return {
+    description,
+    publisher,
+    publishedDate: data.publishedDate,
+    averageRating: data.averageRating,
+    ratingsCount: data.ratingsCount,
+    thumbnail,
+    confidence: data.confidence,
+    needsConfirmation: data.needsConfirmation,
+    sources,
+    enriched,
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export function isEnrichedBookField(value: unknown): value is EnrichedBookField {
+  return typeof value === 'string' && ENRICHED_BOOK_FIELDS.includes(value as EnrichedBookField)
+}
+
+/**
+ * Enrichment for several books from overrides and the cache, keyed by book id
+ * Never calls a provider; books without cached data are queued for the
+ * background worker instead.
+ *
+ * @example
+ * ```typescript
+ * const enrichments = await getBookEnrichments(fiction.rising)
+ * enrichments.get(fiction.rising[0].id) // { description: '...', thumbnail: '...', enriched: true, ... }
+ * ```
+ */
+export async function getBookEnrichments(subjects: EnrichmentSubject[]): Promise<Map<number, BookEnrichment>> {
+  const unique = subjects.filter((subject, index) => subjects.findIndex(s => s.id === subject.id) === index)
+  const enrichments = new Map<number, BookEnrichment>()
+
+  const overrides = await getEnrichmentOverrides(unique.map(subject => subject.id))
+  const automatic = unique.filter(subject => !overrides.has(subject.id))
+
+  let cached: Array<{ details: GoogleBookDetails | null; complete: boolean }>
+  let cacheAvailable = true
+  try {
+    cached = await getCachedEnrichments(automatic)
+  } catch (error) {
+    // Serve NYT data (not enriched), but don't queue everything while the cache is unreachable
+    console.warn('[Enriched Books] Enrichment cache unavailable:', error)
+    cached = automatic.map(() => ({ details: null, complete: false }))
+    cacheAvailable = false
+  }
+
+  overrides.forEach((override, bookId) => {
+    const subject = unique.find(s => s.id === bookId)!
+    enrichments.set(bookId, toBookEnrichment(subject, override.details, true))
+  })
+
+  automatic.forEach((subject, index) => {
+    const { details, complete } = cached[index]
+    enrichments.set(subject.id, toBookEnrichment(subject, details, complete))
+  })
+
+  if (cacheAvailable) {
+    queueEnrichment(
+      automatic
+        .filter((_, index) => !cached[index].complete)
+        .map(subject => ({ title: subject.title, author: subject.author, isbn: subject.isbn13 ?? undefined }))
+    )
+  }
+
+  return enrichments
+}
+
+/**
+ * Books as display-ready records (same order as input)
+ */
+export async function getEnrichedBooks(books: Book[]): Promise<EnrichedBook[]> {
+  const enrichments = await getBookEnrichments(books.map(book => ({
+    id: book.id,
+    title: book.book_title,
+    author: book.author,
+    isbn13: book.primary_isbn13,
+    description: book.description,
+    coverImage: book.book_image,
+    publisher: book.publisher,
+  })))
+
+  return books.map((book) => {
+    const buyLinks = book.buy_links as { name: string; url: string }[] | null
+
+    return {
+      id: book.id,
+      title: book.book_title,
+      author: book.author,
+      genre: book.genre,
+      rank: book.popularity_score,
+      isbn13: book.primary_isbn13,
+      weeksOnList: book.weeks_on_list,
+      buyUrl: book.amazon_product_url || buyLinks?.[0]?.url || null,
+      updatedAt: book.updatedAt.toISOString(),
+      ...enrichments.get(book.id)!,
+    }
+  })
+}
+
+/**
+ * Only the requested fields of a record
+ */
+export function pickFields(book: EnrichedBook, fields: EnrichedBookField[]): Partial<EnrichedBook> {
+  return Object.fromEntries(fields.map(field => [field, book[field]])) as Partial<EnrichedBook>
+}
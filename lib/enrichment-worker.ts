@@ -0,0 +1,119 @@
+/**
+ * Background Enrichment Worker
+ *
+ * Fills enrichment cache gaps outside the request path: /api/books and
+ * /api/trending answer from the cache immediately and queue books that
+ * aren't enriched yet, so the next load has their covers and descriptions.
+ *
+ * - In-memory queue, deduplicated by title + author (the cache itself is
+ *   the persistent state, so nothing is lost when the process restarts)
+ * - Books are enriched one at a time, ENRICHMENT_INTERVAL_MS apart, to go
+ *   easy on the Google Books and Open Library rate limits; stale cache
+ *   entries are refreshed in line rather than in the background
+ * - The queue is capped; books dropped when it's full are queued again the
+ *   next time they're served without enrichment
+ */
+
+import { MatchTarget } from './book-matching'
+import { enrichBook } from './book-enrichment'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface WorkerState {
+  queue: Map<string, MatchTarget>
+  busy: boolean
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Pause between books */
+const ENRICHMENT_INTERVAL_MS = 1000
+
+const MAX_QUEUE_SIZE = 500
+
+// Keep a single worker across hot reloads (same pattern as lib/db.ts)
+const globalForWorker = globalThis as unknown as {
+  enrichmentWorker: WorkerState | undefined
+}
+
+const worker: WorkerState = globalForWorker.enrichmentWorker ?? {
+  queue: new Map(),
+  busy: false,
+}
+
+globalForWorker.enrichmentWorker = worker
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function queueKey(target: MatchTarget): string {
+  return `${target.title.trim().toLowerCase()}\n${target.author.trim().toLowerCase()}`
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Enrich queued books until the queue is empty
+ */
+async function drain(): Promise<void> {
+  if (worker.busy) {
+    return
+  }
+  worker.busy = true
+
+  try {
+    let next = worker.queue.entries().next()
+    while (!next.done) {
+      const [key, target] = next.value
+      worker.queue.delete(key)
+
+      try {
+        await enrichBook(target, { waitForRevalidation: true })
+      } catch (error) {
+        console.error(`[Enrichment Worker] Failed to enrich "${target.title}":`, error)
+      }
+
+      await sleep(ENRICHMENT_INTERVAL_MS)
+      next = worker.queue.entries().next()
+    }
+  } finally {
+    worker.busy = false
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Queue books for background enrichment and wake the worker
+ * Books already queued (same title + author) are skipped.
+ *
+ * @returns Number of books newly queued
+ */
+export function queueEnrichment(targets: MatchTarget[]): number {
+  let added = 0
+
+  for (const target of targets) {
+    const key = queueKey(target)
+    if (worker.queue.has(key) || worker.queue.size >= MAX_QUEUE_SIZE) {
+      continue
+    }
+    worker.queue.set(key, target)
+    added++
+  }
+
+  if (added > 0) {
+    console.log(`[Enrichment Worker] Queued ${added} book(s) (${worker.queue.size} waiting)`)
+    void drain()
+  }
+
+  return added
+}
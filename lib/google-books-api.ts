@@ -0,0 +1,214 @@
+/**
+ * Google Books API (server-side)
+ *
+ * Volume search, single-volume lookup, match ranking and conversion to
+ * GoogleBookDetails. Shared by the enrichment service (lib/book-enrichment.ts)
+ * and the manual override flow (lib/book-overrides.ts).
+ *
+ * SECURITY: Uses GOOGLE_BOOKS_API_KEY; never import this from client code.
+ */
+
+import { LOW_CONFIDENCE_THRESHOLD, MatchScore, MatchTarget, scoreBookMatch } from './book-matching'
+import { fetchProviderJson } from './provider-backoff'
+import { GoogleBookDetails, MAX_GOOGLE_BOOKS_RESULTS } from './types/google-books'
+
+// ============================================================================
+// Types (Google Books API response structure)
+// ============================================================================
+
+export interface GoogleBooksVolume {
+  id: string
+  volumeInfo: {
+    title?: string
+    subtitle?: string
+    authors?: string[]
+    description?: string
+    publisher?: string
+    publishedDate?: string
+    averageRating?: number
+    ratingsCount?: number
+    imageLinks?: {
+      thumbnail?: string
+      smallThumbnail?: string
+    }
+    industryIdentifiers?: Array<{
+      type: 'ISBN_10' | 'ISBN_13' | 'OTHER'
+      identifier: string
+    }>
+  }
+}
+
+interface GoogleBooksApiResponse {
+  totalItems: number
+  items?: GoogleBooksVolume[]
+}
+
+export interface ScoredVolume {
+  volume: GoogleBooksVolume
+  match: MatchScore
+}
+
+const API_BASE_URL = 'https://www.googleapis.com/books/v1/volumes'
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * The better of two candidates (either may be missing)
+ */
+function pickBetter(current: ScoredVolume | null, next: ScoredVolume | null): ScoredVolume | null {
+  if (!current) return next
+  if (!next) return current
+  return next.match.confidence > current.match.confidence ? next : current
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Search Google Books volumes (empty when nothing matches)
+ * @throws ProviderUnavailableError if the request fails, times out or is rate limited
+ */
+export async function fetchGoogleBooks(
+  query: string,
+  apiKey: string,
+  maxResults: number = MAX_GOOGLE_BOOKS_RESULTS
+): Promise<GoogleBooksVolume[]> {
+  const url = new URL(API_BASE_URL)
+  url.searchParams.set('q', query)
+  url.searchParams.set('key', apiKey)
+  url.searchParams.set('maxResults', maxResults.toString())
+
+  const data = await fetchProviderJson<GoogleBooksApiResponse>('google', url)
+  return data?.items ?? []
+}
+
+/**
+ * Fetch a single volume by its Google Books id
+ * Returns null if it doesn't exist
+ * @throws ProviderUnavailableError if the request fails, times out or is rate limited
+ */
+export async function fetchGoogleVolume(
+  volumeId: string,
+  apiKey: string
+): Promise<GoogleBooksVolume | null> {
+  const url = new URL(`${API_BASE_URL}/${encodeURIComponent(volumeId)}`)
+  url.searchParams.set('key', apiKey)
+
+  return fetchProviderJson<GoogleBooksVolume>('google', url)
+}
+
+/**
+ * Score volumes against the requested book, best match first
+ *
+ * Order:
+ * 1. Highest match confidence (ISBN, title, authors, year; see lib/book-matching.ts)
+ * 2. Most ratings (as a tiebreaker between editions)
+ * 3. Google's relevance order (stable sort)
+ */
+export function rankVolumes(items: GoogleBooksVolume[], target: MatchTarget): ScoredVolume[] {
+  const scored = items.map((volume) => ({
+    volume,
+    match: scoreBookMatch(target, {
+      title: volume.volumeInfo.title ?? '',
+      subtitle: volume.volumeInfo.subtitle,
+      authors: volume.volumeInfo.authors ?? [],
+      publishedDate: volume.volumeInfo.publishedDate,
+      isbns: getVolumeIsbns(volume),
+    }),
+  }))
+
+  return scored.sort((a, b) => {
+    if (b.match.confidence !== a.match.confidence) {
+      return b.match.confidence - a.match.confidence
+    }
+
+    const countA = a.volume.volumeInfo.ratingsCount ?? 0
+    const countB = b.volume.volumeInfo.ratingsCount ?? 0
+    return countB - countA
+  })
+}
+
+/**
+ * ISBN-13s and ISBN-10s listed for a volume
+ */
+export function getVolumeIsbns(volume: GoogleBooksVolume): string[] {
+  return (volume.volumeInfo.industryIdentifiers ?? [])
+    .filter((id) => id.type !== 'OTHER')
+    .map((id) => id.identifier)
+}
+
+/**
+ * Build enriched book data from a Google Books volume
+ * Provides fallback values for missing fields
+ */
+export function buildEnrichedData(
+  { volume, match }: ScoredVolume,
+  fallbackTitle: string,
+  fallbackAuthor: string
+): GoogleBookDetails {
+  const info = volume.volumeInfo
+
+  // Prefer HTTPS for thumbnails, handle protocol upgrade
+  let thumbnail = info.imageLinks?.thumbnail || info.imageLinks?.smallThumbnail || ''
+  if (thumbnail.startsWith('http://')) {
+    thumbnail = thumbnail.replace('http://', 'https://')
+  }
+
+  return {
+    title: info.title || fallbackTitle,
+    authors: info.authors || [fallbackAuthor],
+    description: info.description || 'No description available',
+    publisher: info.publisher || 'Unknown publisher',
+    publishedDate: info.publishedDate || 'Unknown date',
+    averageRating: info.averageRating ?? null,
+    ratingsCount: info.ratingsCount ?? null,
+    thumbnail,
+    volumeId: volume.id,
+    confidence: match.confidence,
+    needsConfirmation: match.confidence < LOW_CONFIDENCE_THRESHOLD,
+  }
+}
+
+/**
+ * Best Google Books match for a book, or null when nothing was found
+ * @throws ProviderUnavailableError if Google Books can't answer
+ *
+ * Multi-strategy search; each step runs only while the best match so far
+ * is missing or low-confidence:
+ * 1. ISBN (most accurate, if provided)
+ * 2. Title + author
+ * 3. Title only
+ */
+export async function lookupGoogleBook(
+  target: MatchTarget,
+  apiKey: string
+): Promise<GoogleBookDetails | null> {
+  let bestBook: ScoredVolume | null = null
+  const isConfident = () => bestBook !== null && bestBook.match.confidence >= LOW_CONFIDENCE_THRESHOLD
+
+  if (target.isbn) {
+    const results = await fetchGoogleBooks(`isbn:${target.isbn}`, apiKey, 1)
+    if (results.length > 0) {
+      bestBook = rankVolumes(results, target)[0]
+    }
+  }
+
+  if (!isConfident()) {
+    const results = await fetchGoogleBooks(`intitle:${target.title}+inauthor:${target.author}`, apiKey)
+    if (results.length > 0) {
+      bestBook = pickBetter(bestBook, rankVolumes(results, target)[0])
+    }
+  }
+
+  if (!isConfident()) {
+    const results = await fetchGoogleBooks(`intitle:${target.title}`, apiKey)
+    if (results.length > 0) {
+      bestBook = pickBetter(bestBook, rankVolumes(results, target)[0])
+    }
+  }
+
+  return bestBook ? buildEnrichedData(bestBook, target.title, target.author) : null
+}
@@ -70,7 +70,7 @@ async function fetchWithTimeout(
 // ============================================================================
 
 /**
- * Fetch enriched book details from the Google Books API
+ * Fetch enriched book details (Google Books + Open Library, merged server-side)
  * 
  * This function NEVER throws - it always returns valid data.
  * If the API fails for any reason, it returns sensible defaults.
@@ -78,6 +78,7 @@ async function fetchWithTimeout(
  * @param title - Book title (required)
  * @param author - Book author (required)
  * @param isbn - Optional ISBN for more accurate matching
+ * @param bookId - Optional Book id, so a manually pinned match is used
  * @returns Enriched book details or defaults if not found/error
  * 
  * @example
@@ -90,7 +91,8 @@ async function fetchWithTimeout(
 export async function getGoogleBookDetails(
   title: string,
   author: string,
-  isbn?: string
+  isbn?: string,
+  bookId?: number
 ): Promise<GoogleBookDetails> {
   // Create default details that will be returned if anything fails
   const defaults = createDefaultBookDetails(title, author)
@@ -107,6 +109,7 @@ export async function getGoogleBookDetails(
       title: title.trim(),
       author: author.trim(),
       ...(isbn && { isbn: isbn.trim() }),
+      ...(bookId !== undefined && { bookId }),
     }
 
     // Make API request with timeout
@@ -159,6 +162,10 @@ export async function getGoogleBookDetails(
       averageRating: data.averageRating,
       ratingsCount: data.ratingsCount,
       thumbnail: data.thumbnail || defaults.thumbnail,
+      volumeId: data.volumeId,
+      confidence: data.confidence ?? defaults.confidence,
+      needsConfirmation: data.needsConfirmation ?? defaults.needsConfirmation,
+      sources: data.sources,
     }
   } catch (error) {
     // Handle specific error types
@@ -196,7 +203,7 @@ export async function getGoogleBookDetails(
  * ```
  */
 export async function getMultipleGoogleBookDetails(
-  books: Array<{ title: string; author: string; isbn?: string }>
+  books: Array<{ title: string; author: string; isbn?: string; bookId?: number }>
 ): Promise<GoogleBookDetails[]> {
   // Handle empty input
   if (!books || books.length === 0) {
@@ -207,7 +214,7 @@ export async function getMultipleGoogleBookDetails(
   // This ensures all requests complete even if some fail
   const results = await Promise.allSettled(
     books.map((book) =>
-      getGoogleBookDetails(book.title, book.author, book.isbn)
+      getGoogleBookDetails(book.title, book.author, book.isbn, book.bookId)
     )
   )
 
@@ -0,0 +1,82 @@
+/**
+ * Library Index Helpers
+ *
+ * File-system helpers shared by the local libraries that index a directory
+ * of user-supplied files: lib/media-library.ts (clips and images) and
+ * lib/music-library.ts (background music).
+ *
+ * - Files are found recursively, skipping dotfiles
+ * - Metadata comes from an optional sidecar JSON next to each file
+ *   (clip.mp4 -> clip.json or clip.mp4.json)
+ * - Tags fall back to words from the file name and folder names
+ */
+
+import { readdir, readFile } from 'fs/promises'
+import path from 'path'
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Split text into lowercase tokens, dropping single characters, numbers
+ * and the given ignored words
+ *
+ * @example
+ * ```typescript
+ * tokenize('brand/sunrise-city_run', new Set(['the']))
+ * // ['brand', 'sunrise', 'city', 'run']
+ * ```
+ */
+export function tokenize(text: string, ignoredWords: Set<string>): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !ignoredWords.has(token) && !/^\d+$/.test(token))
+}
+
+/**
+ * List files with one of the given extensions under a directory
+ * (recursively, skipping dotfiles)
+ *
+ * @param extensions - Lowercase extensions including the dot, e.g. ['.mp3', '.wav']
+ */
+export async function listFiles(dir: string, extensions: string[]): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true })
+  const files: string[] = []
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue
+
+    const fullPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(fullPath, extensions))
+    } else if (entry.isFile() && extensions.includes(path.extname(entry.name).toLowerCase())) {
+      files.push(fullPath)
+    }
+  }
+
+  return files
+}
+
+/**
+ * Read the sidecar JSON for a file, if there is one
+ * Invalid sidecars are logged and ignored.
+ *
+ * @param logPrefix - Prefix for the warning, e.g. '[Media Library]'
+ */
+export async function readSidecar<T>(filePath: string, logPrefix: string): Promise<T | null> {
+  const base = filePath.slice(0, -path.extname(filePath).length)
+
+  for (const candidate of [`${filePath}.json`, `${base}.json`]) {
+    try {
+      return JSON.parse(await readFile(candidate, 'utf-8')) as T
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`${logPrefix} Ignoring invalid sidecar ${candidate}:`, error)
+      }
+    }
+  }
+
+  return null
+}
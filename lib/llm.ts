@@ -0,0 +1,348 @@
+/**
+ * LLM Provider Abstraction
+ *
+ * Text generation used by the script and storyboard generators, behind a
+ * single LLMProvider interface so the vendor and model can be switched per
+ * request or via environment:
+ * - openai: OpenAI Chat Completions (default)
+ * - anthropic: Anthropic Messages API
+ * - local: any OpenAI-compatible server (Ollama, llama.cpp, LM Studio)
+ *
+ * Environment Variables:
+ * - LLM_PROVIDER: Default provider (openai | anthropic | local, default: openai)
+ * - OPENAI_API_KEY, OPENAI_MODEL: OpenAI credentials and default model
+ * - ANTHROPIC_API_KEY, ANTHROPIC_MODEL: Anthropic credentials and default model
+ * - LOCAL_LLM_BASE_URL: Base URL of the local server (e.g. http://localhost:11434/v1)
+ * - LOCAL_LLM_MODEL, LOCAL_LLM_API_KEY: Local model name and optional key
+ *
+ * @see https://platform.openai.com/docs/api-reference/chat
+ * @see https://docs.anthropic.com/en/api/messages
+ * @see https://github.com/ollama/ollama/blob/main/docs/openai.md
+ */
+
+import OpenAI from 'openai'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'local'
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+/**
+ * JSON schema the response must follow (structured output)
+ */
+export interface LLMJsonSchema {
+  /** Schema name (letters, digits, underscores) */
+  name: string
+  description?: string
+  schema: Record<string, unknown>
+}
+
+export interface LLMCompletionOptions {
+  messages: LLMMessage[]
+  /** Ask for JSON matching this schema; the completion text is the JSON */
+  jsonSchema?: LLMJsonSchema
+  /** Model to use (default: the provider's default model) */
+  model?: string
+  /** Sampling temperature */
+  temperature?: number
+  /** Maximum tokens to generate */
+  maxTokens?: number
+}
+
+export interface LLMCompletion {
+  text: string
+  provider: LLMProviderName
+  model: string
+}
+
+export interface LLMProvider {
+  name: LLMProviderName
+  /** Human-readable name used in logs and error messages */
+  label: string
+  defaultModel: string
+  /** Whether the credentials/endpoint this provider needs are set */
+  isConfigured(): boolean
+  complete(options: LLMCompletionOptions): Promise<LLMCompletion>
+}
+
+interface AnthropicMessagesResponse {
+  content?: Array<{ type: string; text?: string; input?: unknown }>
+  model?: string
+  error?: { type: string; message: string }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'anthropic', 'local']
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4-turbo-preview'
+const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-sonnet-latest'
+const DEFAULT_LOCAL_MODEL = 'llama3.1'
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages'
+const ANTHROPIC_VERSION = '2023-06-01'
+const DEFAULT_MAX_TOKENS = 1024
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Read a required environment variable
+ * @throws Error if it is not set
+ */
+function requireEnv(name: string): string {
+  const value = process.env[name]
+
+  if (!value) {
+    throw new Error(
+      `${name} is not configured. ` +
+      'Please add it to your .env.local file.'
+    )
+  }
+
+  return value
+}
+
+/**
+ * Convert an HTTP failure into the error messages callers match on
+ */
+function toProviderError(label: string, keyName: string, status: number | undefined, message: string): Error {
+  if (status === 401 || status === 403) {
+    return new Error(`Invalid ${label} API key. Please check your ${keyName}.`)
+  }
+
+  if (status === 429) {
+    return new Error(`${label} rate limit exceeded. Please try again in a moment.`)
+  }
+
+  if (status === 400) {
+    return new Error(`Invalid request to ${label}: ${message}`)
+  }
+
+  return new Error(`${label} API error: ${message}`)
+}
+
+/**
+ * Run a chat completion against an OpenAI-compatible endpoint
+ *
+ * Structured output uses response_format "json_schema". Models and local
+ * servers that reject it are retried once in plain JSON mode, so callers
+ * must still validate the result.
+ */
+async function completeWithOpenAIClient(
+  client: OpenAI,
+  provider: LLMProvider,
+  keyName: string,
+  options: LLMCompletionOptions
+): Promise<LLMCompletion> {
+  const model = options.model || provider.defaultModel
+
+  const create = (responseFormat?: OpenAI.ChatCompletionCreateParams['response_format']) =>
+    client.chat.completions.create({
+      model,
+      messages: options.messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      response_format: responseFormat,
+    })
+
+  try {
+    let completion: OpenAI.ChatCompletion
+
+    if (options.jsonSchema) {
+      try {
+        completion = await create({
+          type: 'json_schema',
+          json_schema: {
+            name: options.jsonSchema.name,
+            description: options.jsonSchema.description,
+            schema: options.jsonSchema.schema,
+          },
+        })
+      } catch (error) {
+        if (!(error instanceof OpenAI.APIError) || error.status !== 400) {
+          throw error
+        }
+        console.warn(`[LLM] ${provider.label} rejected json_schema for ${model}, retrying in JSON mode`)
+        completion = await create({ type: 'json_object' })
+      }
+    } else {
+      completion = await create()
+    }
+
+    return {
+      text: completion.choices[0]?.message?.content?.trim() || '',
+      provider: provider.name,
+      model,
+    }
+  } catch (error) {
+    if (error instanceof OpenAI.APIConnectionError) {
+      throw new Error(`Could not reach ${provider.label}: ${error.message}`)
+    }
+
+    if (error instanceof OpenAI.APIError) {
+      console.error(`[LLM] ${provider.label} API error:`, error)
+      throw toProviderError(provider.label, keyName, error.status, error.message)
+    }
+
+    throw error
+  }
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+const openaiProvider: LLMProvider = {
+  name: 'openai',
+  label: 'OpenAI',
+  get defaultModel() {
+    return process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL
+  },
+  isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+  complete(options) {
+    const client = new OpenAI({ apiKey: requireEnv('OPENAI_API_KEY') })
+    return completeWithOpenAIClient(client, this, 'OPENAI_API_KEY', options)
+  },
+}
+
+const localProvider: LLMProvider = {
+  name: 'local',
+  label: 'local LLM server',
+  get defaultModel() {
+    return process.env.LOCAL_LLM_MODEL || DEFAULT_LOCAL_MODEL
+  },
+  isConfigured: () => Boolean(process.env.LOCAL_LLM_BASE_URL),
+  complete(options) {
+    const client = new OpenAI({
+      baseURL: requireEnv('LOCAL_LLM_BASE_URL'),
+      // Most local servers ignore the key, but the SDK requires one
+      apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    })
+    return completeWithOpenAIClient(client, this, 'LOCAL_LLM_API_KEY', options)
+  },
+}
+
+const anthropicProvider: LLMProvider = {
+  name: 'anthropic',
+  label: 'Anthropic',
+  get defaultModel() {
+    return process.env.ANTHROPIC_MODEL || DEFAULT_ANTHROPIC_MODEL
+  },
+  isConfigured: () => Boolean(process.env.ANTHROPIC_API_KEY),
+  async complete(options) {
+    const apiKey = requireEnv('ANTHROPIC_API_KEY')
+    const model = options.model || this.defaultModel
+
+    // Anthropic takes the system prompt separately from the conversation
+    const system = options.messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n')
+    const messages = options.messages.filter(m => m.role !== 'system')
+
+    // Structured output is done by forcing a tool call whose input is the schema
+    const schema = options.jsonSchema
+    const tools = schema
+      ? {
+          tools: [{
+            name: schema.name,
+            description: schema.description || 'Return the result as structured data',
+            input_schema: schema.schema,
+          }],
+          tool_choice: { type: 'tool', name: schema.name },
+        }
+      : {}
+
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model,
+        system: system || undefined,
+        messages,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...tools,
+      }),
+    })
+
+    const data = await response.json().catch(() => ({})) as AnthropicMessagesResponse
+
+    if (!response.ok) {
+      console.error(`[LLM] Anthropic API error (${response.status}):`, data.error)
+      throw toProviderError(
+        this.label,
+        'ANTHROPIC_API_KEY',
+        response.status,
+        data.error?.message || response.statusText
+      )
+    }
+
+    const toolUse = schema && data.content?.find(block => block.type === 'tool_use')
+
+    const text = toolUse
+      ? JSON.stringify(toolUse.input ?? {})
+      : (data.content || [])
+          .filter(block => block.type === 'text')
+          .map(block => block.text || '')
+          .join('')
+          .trim()
+
+    return { text, provider: 'anthropic', model: data.model || model }
+  },
+}
+
+const PROVIDERS: Record<LLMProviderName, LLMProvider> = {
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  local: localProvider,
+}
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Check whether a value names a known provider
+ */
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && LLM_PROVIDERS.includes(value as LLMProviderName)
+}
+
+/**
+ * Resolve a provider by name, falling back to LLM_PROVIDER, then OpenAI
+ *
+ * @example
+ * ```typescript
+ * const llm = getLLMProvider('local')
+ * const { text } = await llm.complete({
+ *   messages: [{ role: 'user', content: 'Write a hook for "Atomic Habits"' }],
+ * })
+ * ```
+ */
+export function getLLMProvider(name?: LLMProviderName): LLMProvider {
+  if (name) {
+    return PROVIDERS[name]
+  }
+
+  const envName = process.env.LLM_PROVIDER?.trim().toLowerCase()
+  if (envName && !isLLMProviderName(envName)) {
+    console.warn(`[LLM] Unknown LLM_PROVIDER "${envName}", using OpenAI`)
+  }
+
+  return isLLMProviderName(envName) ? PROVIDERS[envName] : PROVIDERS.openai
+}
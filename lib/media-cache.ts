@@ -0,0 +1,274 @@
+/**
+ * Media Download Cache
+ *
+ * Keeps downloaded stock videos/images on disk so rendering the same book
+ * again reuses them instead of downloading identical files.
+ *
+ * - Files are content-addressed by a hash of provider + asset id + variant
+ *   (e.g. Pexels video 123 in HD), so each variant is stored once
+ * - MediaCacheEntry rows record provider, attribution and dimensions
+ * - The cache is bounded in size; least recently used files are evicted,
+ *   except files used recently enough that a running render may still read them
+ * - Any cache failure falls back to a plain download, never a failed render
+ *
+ * Environment Variables:
+ * - MEDIA_CACHE_DIR: Cache directory (default: /tmp/mindshelf-media/cache)
+ * - MEDIA_CACHE_MAX_MB: Maximum cache size in MB (default: 2048, 0 disables the cache)
+ */
+
+import { MediaCacheEntry } from '@prisma/client'
+import { writeFile, mkdir, rename, stat, unlink } from 'fs/promises'
+import { existsSync } from 'fs'
+import path from 'path'
+import { createHash, randomUUID } from 'crypto'
+import { prisma } from './db'
+import type { MediaAsset } from './media'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A provider asset to download (and cache)
+ */
+export interface CacheableDownload {
+  provider: 'pexels' | 'unsplash'
+  /** Provider asset id (Pexels video id, Unsplash photo id) */
+  assetId: string
+  /** Distinguishes files of the same asset (quality, size) */
+  variant: string
+  /** URL of the file to download */
+  downloadUrl: string
+  extension: string
+  /** Metadata stored with the file and returned as the MediaAsset */
+  metadata: Omit<MediaAsset, 'filePath' | 'source' | 'cached'>
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_CACHE_DIR = '/tmp/mindshelf-media/cache'
+const DEFAULT_MAX_CACHE_MB = 2048
+
+/**
+ * Files used within this window are never evicted: renders read cached files
+ * in place, so a render still running may need them. Comfortably longer than
+ * a render takes (see STALE_JOB_MS in lib/render-queue.ts).
+ */
+const IN_USE_WINDOW_MS = 60 * 60 * 1000
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function getCacheDir(): string {
+  return process.env.MEDIA_CACHE_DIR || DEFAULT_CACHE_DIR
+}
+
+function getMaxCacheBytes(): number {
+  const configured = Number(process.env.MEDIA_CACHE_MAX_MB)
+  const megabytes = process.env.MEDIA_CACHE_MAX_MB && Number.isFinite(configured) && configured >= 0
+    ? configured
+    : DEFAULT_MAX_CACHE_MB
+  return megabytes * 1024 * 1024
+}
+
+function getCacheKey(download: CacheableDownload): string {
+  return createHash('sha256')
+    .update(`${download.provider}:${download.assetId}:${download.variant}`)
+    .digest('hex')
+}
+
+/**
+ * Download a URL to a file, writing to a temp name first so readers
+ * never see a partial file
+ */
+async function downloadTo(url: string, filePath: string): Promise<number> {
+  console.log(`[Media Cache] Downloading: ${url.substring(0, 50)}...`)
+
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to download file: ${response.status}`)
+  }
+
+  const buffer = Buffer.from(await response.arrayBuffer())
+  const partialPath = `${filePath}.${randomUUID()}.part`
+
+  await writeFile(partialPath, buffer)
+  await rename(partialPath, filePath)
+
+  return buffer.length
+}
+
+function toAsset(entry: MediaCacheEntry): MediaAsset {
+  return {
+    filePath: entry.filePath,
+    type: entry.type as MediaAsset['type'],
+    sourceUrl: entry.sourceUrl,
+    source: entry.provider as MediaAsset['source'],
+    width: entry.width,
+    height: entry.height,
+    duration: entry.duration ?? undefined,
+    attribution: entry.attribution,
+    cached: true,
+  }
+}
+
+/**
+ * Delete least recently used entries until the cache fits its size limit
+ * Entries used within IN_USE_WINDOW_MS are kept, so the cache can run over
+ * its limit for a while under heavy rendering.
+ *
+ * @param keepKey - Entry that must survive (the file just added)
+ */
+async function evictLeastRecentlyUsed(maxBytes: number, keepKey: string): Promise<void> {
+  const { _sum } = await prisma.mediaCacheEntry.aggregate({ _sum: { sizeBytes: true } })
+  let totalBytes = _sum.sizeBytes ?? 0
+
+  if (totalBytes <= maxBytes) {
+    return
+  }
+
+  const candidates = await prisma.mediaCacheEntry.findMany({
+    where: {
+      cacheKey: { not: keepKey },
+      lastUsedAt: { lt: new Date(Date.now() - IN_USE_WINDOW_MS) },
+    },
+    orderBy: { lastUsedAt: 'asc' },
+    select: { id: true, filePath: true, sizeBytes: true },
+  })
+
+  let evicted = 0
+  for (const entry of candidates) {
+    if (totalBytes <= maxBytes) break
+
+    await prisma.mediaCacheEntry.delete({ where: { id: entry.id } }).catch(() => {
+      // Already evicted by another render
+    })
+    await unlink(entry.filePath).catch(() => {
+      // File already gone
+    })
+
+    totalBytes -= entry.sizeBytes
+    evicted++
+  }
+
+  console.log(`[Media Cache] Evicted ${evicted} file(s), cache now ${(totalBytes / 1024 / 1024).toFixed(1)}MB`)
+}
+
+/**
+ * Record a cached file and trim the cache (failures only cost the bookkeeping)
+ */
+async function recordCacheEntry(
+  cacheKey: string,
+  download: CacheableDownload,
+  filePath: string,
+  sizeBytes: number,
+  maxBytes: number
+): Promise<void> {
+  const data = {
+    provider: download.provider,
+    assetId: download.assetId,
+    sourceUrl: download.metadata.sourceUrl,
+    filePath,
+    type: download.metadata.type,
+    width: download.metadata.width,
+    height: download.metadata.height,
+    duration: download.metadata.duration ?? null,
+    attribution: download.metadata.attribution,
+    sizeBytes,
+    lastUsedAt: new Date(),
+  }
+
+  try {
+    await prisma.mediaCacheEntry.upsert({
+      where: { cacheKey },
+      create: { cacheKey, ...data },
+      update: data,
+    })
+    await evictLeastRecentlyUsed(maxBytes, cacheKey)
+  } catch (error) {
+    console.error('[Media Cache] Failed to record cache entry:', error)
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Return a cached copy of a provider asset, downloading it on a miss
+ *
+ * Falls back to an uncached download into tempDir if the cache is disabled
+ * or unavailable (e.g. database down), so callers always get a file.
+ *
+ * @example
+ * ```typescript
+ * const asset = await getOrDownloadMedia({
+ *   provider: 'pexels',
+ *   assetId: String(video.id),
+ *   variant: 'hd',
+ *   downloadUrl: videoFile.link,
+ *   extension: 'mp4',
+ *   metadata: { type: 'video', sourceUrl: video.url, width, height, attribution },
+ * }, '/tmp/mindshelf-media')
+ * ```
+ */
+export async function getOrDownloadMedia(
+  download: CacheableDownload,
+  tempDir: string
+): Promise<MediaAsset> {
+  const maxBytes = getMaxCacheBytes()
+  const cacheKey = getCacheKey(download)
+
+  let existing: MediaCacheEntry | null = null
+  let cacheAvailable = maxBytes > 0
+
+  if (cacheAvailable) {
+    try {
+      existing = await prisma.mediaCacheEntry.findUnique({ where: { cacheKey } })
+    } catch (error) {
+      console.error('[Media Cache] Cache unavailable, downloading without cache:', error)
+      cacheAvailable = false
+    }
+  }
+
+  // Uncached download (cache disabled or database unreachable)
+  if (!cacheAvailable) {
+    const filePath = path.join(tempDir, `${randomUUID()}.${download.extension}`)
+    await downloadTo(download.downloadUrl, filePath)
+    return { ...download.metadata, filePath, source: download.provider }
+  }
+
+  if (existing && existsSync(existing.filePath)) {
+    console.log(`[Media Cache] Hit: ${download.provider} ${download.assetId} (${download.variant})`)
+    const entry = await prisma.mediaCacheEntry
+      .update({
+        where: { id: existing.id },
+        data: { lastUsedAt: new Date(), hitCount: { increment: 1 } },
+      })
+      .catch(() => existing as MediaCacheEntry)
+    return toAsset(entry)
+  }
+
+  const cacheDir = getCacheDir()
+  if (!existsSync(cacheDir)) {
+    await mkdir(cacheDir, { recursive: true })
+  }
+
+  const filePath = path.join(cacheDir, `${cacheKey}.${download.extension}`)
+  let sizeBytes: number
+
+  if (existsSync(filePath)) {
+    // File survived but its row did not (e.g. database reset)
+    sizeBytes = (await stat(filePath)).size
+  } else {
+    sizeBytes = await downloadTo(download.downloadUrl, filePath)
+  }
+
+  console.log(`[Media Cache] Stored ${download.provider} ${download.assetId} (${(sizeBytes / 1024 / 1024).toFixed(1)}MB)`)
+  await recordCacheEntry(cacheKey, download, filePath, sizeBytes, maxBytes)
+
+  return { ...download.metadata, filePath, source: download.provider, cached: true }
+}
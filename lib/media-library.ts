@@ -0,0 +1,331 @@
+/**
+ * Local Media Library
+ *
+ * Indexes a directory of licensed clips and images (e.g. brand footage) so
+ * they can be used by fetchVisualAssets()/fetchSceneAssets() alongside or
+ * instead of Pexels and Unsplash, including fully offline renders.
+ *
+ * - Width, height and duration are read with ffprobe
+ * - Tags come from a sidecar JSON file next to the media
+ *   (clip.mp4 -> clip.json or clip.mp4.json), otherwise from the file name
+ *   and folder names (e.g. brand/sunrise-city_run.mp4 -> brand, sunrise, city, run)
+ *
+ * Sidecar format:
+ * { "tags": ["sunrise", "running"], "attribution": "Footage by Acme Studio" }
+ *
+ * Environment Variables:
+ * - MEDIA_LIBRARY_DIR: Directory to index (enables the library)
+ * - MEDIA_LIBRARY_MODE: primary | fallback | exclusive (default: fallback)
+ */
+
+import ffmpeg from 'fluent-ffmpeg'
+import { stat } from 'fs/promises'
+import path from 'path'
+import { listFiles, readSidecar, tokenize } from './library-index'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How the library is combined with the stock APIs
+ * - primary: search the library first, stock APIs fill the rest
+ * - fallback: stock APIs first, the library fills the rest
+ * - exclusive: never call the stock APIs
+ */
+export type LibraryMode = 'primary' | 'fallback' | 'exclusive'
+
+export interface LibraryItem {
+  /** Absolute path of the media file */
+  filePath: string
+  type: 'video' | 'image'
+  width: number
+  height: number
+  /** Duration in seconds (videos only) */
+  duration?: number
+  /** Lowercase search tags */
+  tags: string[]
+  attribution: string
+}
+
+export interface LibrarySearchOptions {
+  /** Maximum number of results (default: 8) */
+  limit?: number
+  /** Preferred orientation (matching items rank higher) */
+  orientation?: 'landscape' | 'portrait' | 'square'
+  /** File paths to skip (already used) */
+  exclude?: Set<string>
+}
+
+interface SidecarMetadata {
+  tags?: unknown
+  attribution?: unknown
+}
+
+interface ProbeResult {
+  width: number
+  height: number
+  duration?: number
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const LIBRARY_MODES: LibraryMode[] = ['primary', 'fallback', 'exclusive']
+
+const VIDEO_EXTENSIONS = ['.mp4', '.mov', '.m4v', '.webm', '.mkv']
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp']
+
+/** How long an index is reused before the directory is rescanned */
+const INDEX_MAX_AGE = 5 * 60 * 1000
+
+/** Words ignored when tagging from file names and searching */
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'in', 'on', 'to', 'for', 'with', 'at', 'by'])
+
+const DEFAULT_ATTRIBUTION = 'Local media library'
+
+// ============================================================================
+// Cache Layer
+// ============================================================================
+
+let indexData: LibraryItem[] | null = null
+let indexDir: string | null = null
+let indexTimestamp = 0
+
+/** ffprobe results keyed by path + size + mtime, kept across rescans */
+const probeCache = new Map<string, ProbeResult>()
+
+/**
+ * Clear the library index (e.g. after adding files)
+ */
+export function clearLibraryIndex(): void {
+  indexData = null
+  indexDir = null
+  indexTimestamp = 0
+  console.log('[Media Library] Index cleared')
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Reduce simple plurals so "sunrises" matches "sunrise"
+ */
+function normalizeToken(token: string): string {
+  return token.length > 3 && token.endsWith('s') && !token.endsWith('ss')
+    ? token.slice(0, -1)
+    : token
+}
+
+function getMediaType(filePath: string): LibraryItem['type'] | null {
+  const extension = path.extname(filePath).toLowerCase()
+  if (VIDEO_EXTENSIONS.includes(extension)) return 'video'
+  if (IMAGE_EXTENSIONS.includes(extension)) return 'image'
+  return null
+}
+
+function getOrientation(item: LibraryItem): 'landscape' | 'portrait' | 'square' {
+  if (item.width > item.height * 1.1) return 'landscape'
+  if (item.height > item.width * 1.1) return 'portrait'
+  return 'square'
+}
+
+/**
+ * Read width/height/duration with ffprobe
+ */
+function probeMedia(filePath: string): Promise<ProbeResult> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      if (err) {
+        reject(err)
+        return
+      }
+
+      const stream = metadata.streams.find(s => s.codec_type === 'video')
+      const duration = Number(metadata.format.duration)
+
+      resolve({
+        width: stream?.width || 0,
+        height: stream?.height || 0,
+        duration: Number.isFinite(duration) && duration > 0 ? duration : undefined,
+      })
+    })
+  })
+}
+
+/**
+ * Build the index entry for one file
+ */
+async function indexFile(root: string, filePath: string): Promise<LibraryItem | null> {
+  const type = getMediaType(filePath)
+  if (!type) return null
+
+  const stats = await stat(filePath)
+  const probeKey = `${filePath}:${stats.size}:${stats.mtimeMs}`
+
+  let probe = probeCache.get(probeKey)
+  if (!probe) {
+    probe = await probeMedia(filePath)
+    probeCache.set(probeKey, probe)
+  }
+
+  const sidecar = await readSidecar<SidecarMetadata>(filePath, '[Media Library]')
+  const sidecarTags = Array.isArray(sidecar?.tags)
+    ? sidecar.tags.filter((tag): tag is string => typeof tag === 'string')
+    : []
+
+  // Without sidecar tags, fall back to the file name and its folders
+  const relative = path.relative(root, filePath)
+  const tagSource = sidecarTags.length > 0
+    ? sidecarTags.join(' ')
+    : relative.slice(0, -path.extname(relative).length)
+
+  return {
+    filePath,
+    type,
+    width: probe.width,
+    height: probe.height,
+    duration: type === 'video' ? probe.duration : undefined,
+    tags: Array.from(new Set(tokenize(tagSource, STOP_WORDS).map(normalizeToken))),
+    attribution: typeof sidecar?.attribution === 'string' && sidecar.attribution.trim()
+      ? sidecar.attribution.trim()
+      : DEFAULT_ATTRIBUTION,
+  }
+}
+
+/**
+ * Score how well an item matches the query tokens (0 = no match)
+ */
+function scoreItem(item: LibraryItem, tokens: string[], orientation?: string): number {
+  let score = 0
+
+  for (const token of tokens) {
+    if (item.tags.includes(token)) {
+      score += 2
+    } else if (token.length >= 4 && item.tags.some(tag => tag.length >= 4 && (tag.startsWith(token) || token.startsWith(tag)))) {
+      score += 1
+    }
+  }
+
+  if (score === 0) return 0
+
+  // Tie-breakers: matching orientation, then motion over stills
+  if (orientation && getOrientation(item) === orientation) score += 0.5
+  if (item.type === 'video') score += 0.25
+
+  return score
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Resolve the library mode
+ * Returns null when MEDIA_LIBRARY_DIR is not set (library disabled)
+ *
+ * @param override - Mode requested by the caller (takes precedence over MEDIA_LIBRARY_MODE)
+ */
+export function getLibraryMode(override?: LibraryMode): LibraryMode | null {
+  if (!process.env.MEDIA_LIBRARY_DIR) {
+    return null
+  }
+
+  if (override) {
+    return override
+  }
+
+  const envMode = process.env.MEDIA_LIBRARY_MODE?.trim().toLowerCase()
+  if (envMode && !LIBRARY_MODES.includes(envMode as LibraryMode)) {
+    console.warn(`[Media Library] Unknown MEDIA_LIBRARY_MODE "${envMode}", using fallback`)
+  }
+
+  return LIBRARY_MODES.includes(envMode as LibraryMode) ? envMode as LibraryMode : 'fallback'
+}
+
+/**
+ * Load (or reuse) the index of MEDIA_LIBRARY_DIR
+ *
+ * @throws Error if MEDIA_LIBRARY_DIR is not set or cannot be read
+ */
+export async function getLibraryIndex(): Promise<LibraryItem[]> {
+  const dir = process.env.MEDIA_LIBRARY_DIR
+  if (!dir) {
+    throw new Error(
+      'MEDIA_LIBRARY_DIR is not configured. ' +
+      'Please add it to your .env.local file.'
+    )
+  }
+
+  const root = path.resolve(dir)
+
+  if (indexData && indexDir === root && Date.now() - indexTimestamp < INDEX_MAX_AGE) {
+    return indexData
+  }
+
+  console.log(`[Media Library] Indexing ${root}...`)
+
+  let files: string[]
+  try {
+    files = await listFiles(root, [...VIDEO_EXTENSIONS, ...IMAGE_EXTENSIONS])
+  } catch (error) {
+    throw new Error(
+      `Failed to read media library at ${root}: ` +
+      (error instanceof Error ? error.message : 'Unknown error')
+    )
+  }
+
+  const items: LibraryItem[] = []
+  for (const file of files) {
+    try {
+      const item = await indexFile(root, file)
+      if (item) items.push(item)
+    } catch (error) {
+      console.warn(`[Media Library] Skipping ${file}:`, error)
+    }
+  }
+
+  indexData = items
+  indexDir = root
+  indexTimestamp = Date.now()
+
+  console.log(`[Media Library] Indexed ${items.length} files (${items.filter(i => i.type === 'video').length} videos)`)
+  return items
+}
+
+/**
+ * Search the library with a stock-API style query
+ *
+ * @param query - Space-separated keywords (same query sent to Pexels/Unsplash)
+ * @param options - Result limit, orientation preference, paths to skip
+ * @returns Matching items, best match first
+ *
+ * @example
+ * ```typescript
+ * const [clip] = await searchLibrary('sunrise motivation', {
+ *   orientation: 'portrait',
+ *   limit: 1,
+ * })
+ * ```
+ */
+export async function searchLibrary(
+  query: string,
+  options: LibrarySearchOptions = {}
+): Promise<LibraryItem[]> {
+  const tokens = Array.from(new Set(tokenize(query, STOP_WORDS).map(normalizeToken)))
+  if (tokens.length === 0) {
+    return []
+  }
+
+  const index = await getLibraryIndex()
+
+  return index
+    .filter(item => !options.exclude?.has(item.filePath))
+    .map(item => ({ item, score: scoreItem(item, tokens, options.orientation) }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? 8)
+    .map(result => result.item)
+}
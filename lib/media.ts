@@ -2,23 +2,32 @@
  * Media Assets Utility for Video Generation
  * 
  * This module provides functions to fetch visual assets (video clips and images)
- * from stock media APIs for use in video generation.
+ * from stock media APIs and the local media library for use in video generation.
  * 
  * Primary: Pexels API for video clips
  * Fallback: Unsplash API for images
+ * Downloads are kept in a size-bounded cache, so repeated renders of the
+ * same book reuse files instead of downloading them again
+ * Local library: our own footage (see lib/media-library.ts), used before,
+ * after, or instead of the stock APIs depending on MEDIA_LIBRARY_MODE
  * 
- * Environment Variables Required:
+ * Environment Variables (at least one source must be configured):
  * - PEXELS_API_KEY: Your Pexels API key
  * - UNSPLASH_ACCESS_KEY: Your Unsplash Access Key
+ * - MEDIA_LIBRARY_DIR, MEDIA_LIBRARY_MODE: Local media library
+ * - MEDIA_CACHE_DIR, MEDIA_CACHE_MAX_MB: Download cache (see lib/media-cache.ts)
  * 
  * @see https://www.pexels.com/api/documentation/
  * @see https://unsplash.com/documentation
  */
 
-import { writeFile, mkdir } from 'fs/promises'
+import { mkdir, writeFile } from 'fs/promises'
 import { existsSync } from 'fs'
 import path from 'path'
-import { randomUUID } from 'crypto'
+import { pathToFileURL } from 'url'
+import { getLibraryMode, searchLibrary, LibraryItem, LibraryMode } from './media-library'
+import { getOrDownloadMedia } from './media-cache'
+import { parseCoverRedirect, parseCoverUrl } from './cover-hosts'
 
 // ============================================================================
 // Types
@@ -29,8 +38,12 @@ export interface MediaAsset {
   filePath: string
   /** Type of media asset */
   type: 'video' | 'image'
-  /** Original URL from the API */
+  /** Original URL from the API (file:// URL for library assets) */
   sourceUrl: string
+  /** Where the asset came from; library files are used in place, never deleted */
+  source: 'pexels' | 'unsplash' | 'local'
+  /** True if the file lives in the media cache (shared, never deleted by renders) */
+  cached?: boolean
   /** Width in pixels */
   width: number
   /** Height in pixels */
@@ -52,6 +65,26 @@ export interface FetchAssetsOptions {
   keywords?: string[]
   /** Orientation preference */
   orientation?: 'landscape' | 'portrait' | 'square'
+  /** Local library mode (default: MEDIA_LIBRARY_MODE; ignored without MEDIA_LIBRARY_DIR) */
+  libraryMode?: LibraryMode
+  /** Directory for uncached downloads, e.g. a render workspace (default: /tmp/mindshelf-media) */
+  downloadDir?: string
+}
+
+/**
+ * A storyboard scene to find footage for (see lib/storyboard-generator.ts)
+ */
+export interface SceneMediaRequest {
+  sceneNumber: number
+  stockSearchTerms: string[]
+}
+
+export interface SceneAsset {
+  sceneNumber: number
+  /** Query that produced the asset */
+  query: string
+  /** Downloaded asset, or null if nothing matched */
+  asset: MediaAsset | null
 }
 
 interface PexelsVideo {
@@ -111,6 +144,12 @@ const PEXELS_API_URL = 'https://api.pexels.com/videos'
 const UNSPLASH_API_URL = 'https://api.unsplash.com'
 const TEMP_DIR = '/tmp/mindshelf-media'
 
+/** Largest book cover we download; real covers are well under 1MB */
+const MAX_COVER_BYTES = 5 * 1024 * 1024
+
+/** Redirects followed when downloading a cover (Open Library redirects once) */
+const MAX_COVER_REDIRECTS = 3
+
 /**
  * Motivational keywords to enhance search results
  */
@@ -160,13 +199,13 @@ function getUnsplashApiKey(): string {
 }
 
 /**
- * Ensure temp directory exists
+ * Ensure the download directory exists (default: shared temp directory)
  */
-async function ensureTempDir(): Promise<string> {
-  if (!existsSync(TEMP_DIR)) {
-    await mkdir(TEMP_DIR, { recursive: true })
+async function ensureTempDir(dir: string = TEMP_DIR): Promise<string> {
+  if (!existsSync(dir)) {
+    await mkdir(dir, { recursive: true })
   }
-  return TEMP_DIR
+  return dir
 }
 
 /**
@@ -200,29 +239,52 @@ function generateSearchQuery(
 }
 
 /**
- * Download a file from URL and save to temp directory
+ * Download a Pexels video file (reusing the media cache when possible)
  */
-async function downloadFile(
-  url: string,
-  extension: string
-): Promise<string> {
-  const tempDir = await ensureTempDir()
-  const fileName = `${randomUUID()}.${extension}`
-  const filePath = path.join(tempDir, fileName)
-
-  console.log(`[Media] Downloading: ${url.substring(0, 50)}...`)
-
-  const response = await fetch(url)
-  if (!response.ok) {
-    throw new Error(`Failed to download file: ${response.status}`)
-  }
-
-  const arrayBuffer = await response.arrayBuffer()
-  const buffer = Buffer.from(arrayBuffer)
-  await writeFile(filePath, buffer)
+async function downloadPexelsVideo(
+  video: PexelsVideo,
+  videoFile: PexelsVideo['video_files'][0],
+  downloadDir?: string
+): Promise<MediaAsset> {
+  return getOrDownloadMedia({
+    provider: 'pexels',
+    assetId: String(video.id),
+    variant: String(videoFile.id),
+    downloadUrl: videoFile.link,
+    extension: 'mp4',
+    metadata: {
+      type: 'video',
+      sourceUrl: video.url,
+      width: videoFile.width,
+      height: videoFile.height,
+      duration: video.duration,
+      attribution: `Video by ${video.user.name} on Pexels`,
+    },
+  }, await ensureTempDir(downloadDir))
+}
 
-  console.log(`[Media] Saved to: ${filePath}`)
-  return filePath
+/**
+ * Download an Unsplash photo (reusing the media cache when possible)
+ */
+async function downloadUnsplashPhoto(
+  photo: UnsplashPhoto,
+  size: 'small' | 'regular' | 'full',
+  downloadDir?: string
+): Promise<MediaAsset> {
+  return getOrDownloadMedia({
+    provider: 'unsplash',
+    assetId: photo.id,
+    variant: size,
+    downloadUrl: photo.urls[size],
+    extension: 'jpg',
+    metadata: {
+      type: 'image',
+      sourceUrl: photo.urls.regular,
+      width: photo.width,
+      height: photo.height,
+      attribution: `Photo by ${photo.user.name} on Unsplash`,
+    },
+  }, await ensureTempDir(downloadDir))
 }
 
 /**
@@ -323,17 +385,7 @@ async function fetchPexelsVideos(
         continue
       }
 
-      const filePath = await downloadFile(videoFile.link, 'mp4')
-
-      assets.push({
-        filePath,
-        type: 'video',
-        sourceUrl: video.url,
-        width: videoFile.width,
-        height: videoFile.height,
-        duration: video.duration,
-        attribution: `Video by ${video.user.name} on Pexels`,
-      })
+      assets.push(await downloadPexelsVideo(video, videoFile, options.downloadDir))
 
     } catch (error) {
       console.error(`[Media] Failed to download video ${video.id}:`, error)
@@ -410,24 +462,7 @@ async function fetchUnsplashImages(
     if (assets.length >= targetCount) break
 
     try {
-      // Select URL based on size preference
-      const sizeMap = {
-        small: photo.urls.small,
-        regular: photo.urls.regular,
-        full: photo.urls.full,
-      }
-      const imageUrl = sizeMap[options.imageSize || 'regular']
-
-      const filePath = await downloadFile(imageUrl, 'jpg')
-
-      assets.push({
-        filePath,
-        type: 'image',
-        sourceUrl: photo.urls.regular,
-        width: photo.width,
-        height: photo.height,
-        attribution: `Photo by ${photo.user.name} on Unsplash`,
-      })
+      assets.push(await downloadUnsplashPhoto(photo, options.imageSize || 'regular', options.downloadDir))
 
     } catch (error) {
       console.error(`[Media] Failed to download image ${photo.id}:`, error)
@@ -438,6 +473,45 @@ async function fetchUnsplashImages(
   return assets
 }
 
+// ============================================================================
+// Local Library Functions
+// ============================================================================
+
+/**
+ * Convert a library item into a MediaAsset (the file is used in place)
+ */
+function toLibraryAsset(item: LibraryItem): MediaAsset {
+  return {
+    filePath: item.filePath,
+    type: item.type,
+    sourceUrl: pathToFileURL(item.filePath).href,
+    source: 'local',
+    width: item.width,
+    height: item.height,
+    duration: item.duration,
+    attribution: item.attribution,
+  }
+}
+
+/**
+ * Search the local media library with the same query used for the stock APIs
+ */
+async function fetchLibraryAssets(
+  title: string,
+  description: string,
+  options: FetchAssetsOptions
+): Promise<MediaAsset[]> {
+  const query = generateSearchQuery(title, description, options.keywords)
+  console.log(`[Media] Searching local library for: "${query}"`)
+
+  const items = await searchLibrary(query, {
+    limit: options.count || 8,
+    orientation: options.orientation,
+  })
+
+  return items.map(toLibraryAsset)
+}
+
 // ============================================================================
 // Main Function
 // ============================================================================
@@ -473,27 +547,44 @@ export async function fetchVisualAssets(
   }
 
   const targetCount = options.count || 8
+  const libraryMode = getLibraryMode(options.libraryMode)
   console.log(`[Media] Fetching ${targetCount} visual assets for "${title}"`)
 
   let assets: MediaAsset[] = []
 
-  // Try Pexels videos first
-  try {
-    const hasPexelsKey = !!process.env.PEXELS_API_KEY
-    
-    if (hasPexelsKey) {
-      console.log('[Media] Attempting to fetch videos from Pexels...')
-      assets = await fetchPexelsVideos(title, description, options)
-      console.log(`[Media] Got ${assets.length} video clips from Pexels`)
+  // Local library first when it is the primary (or only) source
+  if (libraryMode === 'primary' || libraryMode === 'exclusive') {
+    try {
+      assets = await fetchLibraryAssets(title, description, options)
+      console.log(`[Media] Got ${assets.length} assets from the local library`)
+    } catch (error) {
+      console.error('[Media] Local library search failed:', error)
+    }
+  }
+
+  // Try Pexels videos next
+  if (libraryMode !== 'exclusive' && assets.length < targetCount) {
+    try {
+      const hasPexelsKey = !!process.env.PEXELS_API_KEY
+      
+      if (hasPexelsKey) {
+        console.log('[Media] Attempting to fetch videos from Pexels...')
+        const videos = await fetchPexelsVideos(title, description, {
+          ...options,
+          count: targetCount - assets.length,
+        })
+        assets = [...assets, ...videos]
+        console.log(`[Media] Got ${videos.length} video clips from Pexels`)
+      }
+    } catch (error) {
+      console.error('[Media] Pexels fetch failed:', error)
     }
-  } catch (error) {
-    console.error('[Media] Pexels fetch failed:', error)
   }
 
   // Fallback to Unsplash images if needed
   const remainingCount = targetCount - assets.length
   
-  if (remainingCount > 0) {
+  if (libraryMode !== 'exclusive' && remainingCount > 0) {
     try {
       const hasUnsplashKey = !!process.env.UNSPLASH_ACCESS_KEY
       
@@ -511,11 +602,27 @@ export async function fetchVisualAssets(
     }
   }
 
+  // Local library fills whatever the stock APIs could not
+  if (libraryMode === 'fallback' && assets.length < targetCount) {
+    try {
+      const items = await fetchLibraryAssets(title, description, {
+        ...options,
+        count: targetCount - assets.length,
+      })
+      assets = [...assets, ...items]
+      console.log(`[Media] Got ${items.length} assets from the local library`)
+    } catch (error) {
+      console.error('[Media] Local library search failed:', error)
+    }
+  }
+
   // Final check
   if (assets.length === 0) {
     throw new Error(
       'Failed to fetch any visual assets. ' +
-      'Please check your PEXELS_API_KEY and UNSPLASH_ACCESS_KEY.'
+      (libraryMode === 'exclusive'
+        ? 'No files in MEDIA_LIBRARY_DIR matched the search (media library is in exclusive mode).'
+        : `Please check your PEXELS_API_KEY and UNSPLASH_ACCESS_KEY${libraryMode ? ' and MEDIA_LIBRARY_DIR' : ''}.`)
     )
   }
 
@@ -526,6 +633,256 @@ export async function fetchVisualAssets(
   return assets
 }
 
+/**
+ * Find the first unused asset for a query across the configured sources
+ * (local library, Pexels, Unsplash) in library-mode order
+ * Returns null when no source has a match
+ */
+async function fetchFirstAsset(
+  query: string,
+  options: FetchAssetsOptions,
+  usedSources: Set<string>
+): Promise<MediaAsset | null> {
+  const libraryMode = getLibraryMode(options.libraryMode)
+
+  if (libraryMode === 'primary' || libraryMode === 'exclusive') {
+    const asset = await fetchFirstLibraryAsset(query, options, usedSources)
+    if (asset || libraryMode === 'exclusive') {
+      return asset
+    }
+  }
+
+  const stockAsset = await fetchFirstStockAsset(query, options, usedSources)
+  if (stockAsset || libraryMode !== 'fallback') {
+    return stockAsset
+  }
+
+  return fetchFirstLibraryAsset(query, options, usedSources)
+}
+
+/**
+ * Find the best unused library item for a query
+ */
+async function fetchFirstLibraryAsset(
+  query: string,
+  options: FetchAssetsOptions,
+  usedSources: Set<string>
+): Promise<MediaAsset | null> {
+  try {
+    const [item] = await searchLibrary(query, {
+      limit: 1,
+      orientation: options.orientation,
+      exclude: usedSources,
+    })
+
+    if (!item) {
+      return null
+    }
+
+    usedSources.add(item.filePath)
+    return toLibraryAsset(item)
+  } catch (error) {
+    console.error(`[Media] Local library search failed for "${query}":`, error)
+    return null
+  }
+}
+
+/**
+ * Download the first unused Pexels video or Unsplash image for a query
+ */
+async function fetchFirstStockAsset(
+  query: string,
+  options: FetchAssetsOptions,
+  usedSources: Set<string>
+): Promise<MediaAsset | null> {
+  if (process.env.PEXELS_API_KEY) {
+    try {
+      const videos = await searchPexelsVideos(query, 3, options.orientation)
+
+      for (const video of videos) {
+        if (usedSources.has(video.url)) continue
+
+        const videoFile = selectVideoFile(video.video_files, options.videoQuality || 'hd')
+        if (!videoFile) continue
+
+        try {
+          const asset = await downloadPexelsVideo(video, videoFile, options.downloadDir)
+          usedSources.add(video.url)
+          return asset
+        } catch (error) {
+          console.error(`[Media] Failed to download video ${video.id}:`, error)
+        }
+      }
+    } catch (error) {
+      console.error(`[Media] Pexels search failed for "${query}":`, error)
+    }
+  }
+
+  if (process.env.UNSPLASH_ACCESS_KEY) {
+    try {
+      const orientation = options.orientation === 'square' ? 'squarish' : options.orientation
+      const photos = await searchUnsplashPhotos(query, 3, orientation)
+
+      for (const photo of photos) {
+        if (usedSources.has(photo.urls.regular)) continue
+
+        try {
+          const asset = await downloadUnsplashPhoto(photo, options.imageSize || 'regular', options.downloadDir)
+          usedSources.add(photo.urls.regular)
+          return asset
+        } catch (error) {
+          console.error(`[Media] Failed to download image ${photo.id}:`, error)
+        }
+      }
+    } catch (error) {
+      console.error(`[Media] Unsplash search failed for "${query}":`, error)
+    }
+  }
+
+  return null
+}
+
+/**
+ * Fetch one visual asset per storyboard scene
+ * 
+ * Searches with each scene's stockSearchTerms (most specific first, then
+ * the first term alone) and avoids reusing the same clip across scenes.
+ * The local media library is searched before, after, or instead of the
+ * stock APIs depending on the library mode.
+ * 
+ * @param scenes - Storyboard scenes in playback order
+ * @param options - Orientation and quality preferences (count is ignored)
+ * @returns One entry per scene; asset is null if nothing matched
+ * 
+ * @example
+ * ```typescript
+ * const sceneAssets = await fetchSceneAssets(storyboard.scenes, {
+ *   orientation: 'portrait',
+ * })
+ * ```
+ */
+export async function fetchSceneAssets(
+  scenes: SceneMediaRequest[],
+  options: FetchAssetsOptions = {}
+): Promise<SceneAsset[]> {
+  console.log(`[Media] Fetching assets for ${scenes.length} storyboard scenes`)
+
+  const usedSources = new Set<string>()
+  const results: SceneAsset[] = []
+
+  for (const scene of scenes) {
+    const terms = scene.stockSearchTerms.filter(term => term.trim().length > 0)
+    const queries = Array.from(new Set([terms.slice(0, 2).join(' '), terms[0]]))
+      .filter((query): query is string => Boolean(query))
+
+    let result: SceneAsset = { sceneNumber: scene.sceneNumber, query: queries[0] || '', asset: null }
+
+    for (const query of queries) {
+      console.log(`[Media] Scene ${scene.sceneNumber}: searching for "${query}"`)
+      const asset = await fetchFirstAsset(query, options, usedSources)
+      if (asset) {
+        result = { sceneNumber: scene.sceneNumber, query, asset }
+        break
+      }
+    }
+
+    if (!result.asset) {
+      console.warn(`[Media] Scene ${scene.sceneNumber}: no footage found`)
+    }
+
+    results.push(result)
+  }
+
+  console.log(`[Media] Matched ${results.filter(r => r.asset).length}/${scenes.length} scenes`)
+  return results
+}
+
+/**
+ * Read a response body, giving up once it exceeds maxBytes
+ */
+async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Buffer> {
+  const declared = Number(response.headers.get('content-length'))
+  if (declared > maxBytes) {
+    throw new Error(`Response too large (${declared} bytes, limit ${maxBytes})`)
+  }
+
+  const chunks: Uint8Array[] = []
+  let total = 0
+
+  if (response.body) {
+    const reader = response.body.getReader()
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      total += chunk.value.byteLength
+      if (total > maxBytes) {
+        await reader.cancel()
+        throw new Error(`Response too large (over ${maxBytes} bytes)`)
+      }
+      chunks.push(chunk.value)
+    }
+  }
+
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Download a book cover (e.g. GoogleBookDetails.thumbnail) for the title
+ * card and end card
+ *
+ * Only URLs on the cover hosts in lib/cover-hosts.js are fetched (redirects
+ * included), and covers over MAX_COVER_BYTES are rejected, so a
+ * client-supplied thumbnail can't point the server at anything else.
+ *
+ * @param thumbnailUrl - Cover image URL (http links are upgraded to https)
+ * @param downloadDir - Directory to save into (e.g. the render workspace)
+ * @returns Path of the downloaded image
+ */
+export async function downloadBookCover(
+  thumbnailUrl: string,
+  downloadDir: string
+): Promise<string> {
+  const coverUrl = parseCoverUrl(thumbnailUrl)
+  if (!coverUrl) {
+    throw new Error('Book cover URL is not on an allowed cover host')
+  }
+
+  let url: URL = coverUrl
+  console.log(`[Media] Downloading book cover: ${url.toString().substring(0, 50)}...`)
+
+  let response = await fetch(url, { redirect: 'manual' })
+  for (let redirects = 0; response.status >= 300 && response.status < 400; redirects++) {
+    const location = response.headers.get('location')
+    const next = location && redirects < MAX_COVER_REDIRECTS ? parseCoverRedirect(location, url) : null
+    if (!next) {
+      throw new Error(`Book cover redirect not followed: ${location || 'no location'}`)
+    }
+    url = next
+    response = await fetch(url, { redirect: 'manual' })
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to download book cover: ${response.status}`)
+  }
+
+  const contentType = response.headers.get('content-type') || ''
+  if (!contentType.startsWith('image/')) {
+    throw new Error(`Book cover is not an image (${contentType || 'unknown type'})`)
+  }
+
+  const extension = contentType.includes('png') ? 'png' : 'jpg'
+  const filePath = path.join(await ensureTempDir(downloadDir), `cover.${extension}`)
+  await writeFile(filePath, await readBodyWithLimit(response, MAX_COVER_BYTES))
+
+  return filePath
+}
+
+/**
+ * Whether an asset is a per-render download that should be deleted afterwards
+ * (library originals and cached files are kept)
+ */
+export function isTemporaryAsset(asset: MediaAsset): boolean {
+  return asset.source !== 'local' && !asset.cached
+}
+
 /**
  * Clean up temporary media files
  * Call this after video generation is complete
@@ -534,6 +891,9 @@ export async function cleanupMediaFiles(assets: MediaAsset[]): Promise<void> {
   const { unlink } = await import('fs/promises')
 
   for (const asset of assets) {
+    // Library and cache files are shared, not per-render downloads
+    if (!isTemporaryAsset(asset)) continue
+
     try {
       await unlink(asset.filePath)
       console.log(`[Media] Deleted: ${asset.filePath}`)
@@ -0,0 +1,234 @@
+/**
+ * Background Music Library
+ *
+ * Indexes a directory of royalty-free music so renders can lay a music bed
+ * under the narration. Tracks are picked by mood, which the pipeline derives
+ * from the script tone (see lib/video-pipeline.ts).
+ *
+ * - Durations are read with ffprobe
+ * - Moods come from a sidecar JSON file next to the track
+ *   (track.mp3 -> track.json or track.mp3.json), otherwise from the file
+ *   name and folder names (e.g. calm/soft-piano.mp3 -> calm, soft, piano)
+ *
+ * Sidecar format:
+ * { "moods": ["uplifting", "inspiring"], "attribution": "Music by Acme Audio" }
+ *
+ * Environment Variables:
+ * - MUSIC_LIBRARY_DIR: Directory to index (enables background music)
+ */
+
+import ffmpeg from 'fluent-ffmpeg'
+import { stat } from 'fs/promises'
+import path from 'path'
+import { listFiles, readSidecar, tokenize } from './library-index'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MusicTrack {
+  /** Absolute path of the audio file */
+  filePath: string
+  /** Duration in seconds */
+  duration: number
+  /** Lowercase mood tags */
+  moods: string[]
+  attribution: string
+}
+
+interface SidecarMetadata {
+  moods?: unknown
+  attribution?: unknown
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const AUDIO_EXTENSIONS = ['.mp3', '.m4a', '.aac', '.wav', '.ogg', '.flac']
+
+/** How long an index is reused before the directory is rescanned */
+const INDEX_MAX_AGE = 5 * 60 * 1000
+
+/** Folder and file name words that are not moods */
+const IGNORED_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'music', 'track', 'song', 'loop', 'mix', 'final'])
+
+const DEFAULT_ATTRIBUTION = 'Local music library'
+
+// ============================================================================
+// Cache Layer
+// ============================================================================
+
+let indexData: MusicTrack[] | null = null
+let indexDir: string | null = null
+let indexTimestamp = 0
+
+/** ffprobe durations keyed by path + size + mtime, kept across rescans */
+const durationCache = new Map<string, number>()
+
+/**
+ * Clear the music index (e.g. after adding tracks)
+ */
+export function clearMusicIndex(): void {
+  indexData = null
+  indexDir = null
+  indexTimestamp = 0
+  console.log('[Music Library] Index cleared')
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function probeDuration(filePath: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      if (err) {
+        reject(err)
+        return
+      }
+      resolve(Number(metadata.format.duration) || 0)
+    })
+  })
+}
+
+/**
+ * Build the index entry for one track
+ */
+async function indexTrack(root: string, filePath: string): Promise<MusicTrack | null> {
+  const stats = await stat(filePath)
+  const probeKey = `${filePath}:${stats.size}:${stats.mtimeMs}`
+
+  let duration = durationCache.get(probeKey)
+  if (duration === undefined) {
+    duration = await probeDuration(filePath)
+    durationCache.set(probeKey, duration)
+  }
+
+  if (duration <= 0) {
+    return null
+  }
+
+  const sidecar = await readSidecar<SidecarMetadata>(filePath, '[Music Library]')
+  const sidecarMoods = Array.isArray(sidecar?.moods)
+    ? sidecar.moods.filter((mood): mood is string => typeof mood === 'string')
+    : []
+
+  // Without sidecar moods, fall back to the file name and its folders
+  const relative = path.relative(root, filePath)
+  const moodSource = sidecarMoods.length > 0
+    ? sidecarMoods.join(' ')
+    : relative.slice(0, -path.extname(relative).length)
+
+  return {
+    filePath,
+    duration,
+    moods: Array.from(new Set(tokenize(moodSource, IGNORED_WORDS))),
+    attribution: typeof sidecar?.attribution === 'string' && sidecar.attribution.trim()
+      ? sidecar.attribution.trim()
+      : DEFAULT_ATTRIBUTION,
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Whether MUSIC_LIBRARY_DIR is configured
+ */
+export function isMusicLibraryConfigured(): boolean {
+  return !!process.env.MUSIC_LIBRARY_DIR
+}
+
+/**
+ * Load (or reuse) the index of MUSIC_LIBRARY_DIR
+ *
+ * @throws Error if MUSIC_LIBRARY_DIR is not set or cannot be read
+ */
+export async function getMusicIndex(): Promise<MusicTrack[]> {
+  const dir = process.env.MUSIC_LIBRARY_DIR
+  if (!dir) {
+    throw new Error(
+      'MUSIC_LIBRARY_DIR is not configured. ' +
+      'Please add it to your .env.local file.'
+    )
+  }
+
+  const root = path.resolve(dir)
+
+  if (indexData && indexDir === root && Date.now() - indexTimestamp < INDEX_MAX_AGE) {
+    return indexData
+  }
+
+  console.log(`[Music Library] Indexing ${root}...`)
+
+  let files: string[]
+  try {
+    files = await listFiles(root, AUDIO_EXTENSIONS)
+  } catch (error) {
+    throw new Error(
+      `Failed to read music library at ${root}: ` +
+      (error instanceof Error ? error.message : 'Unknown error')
+    )
+  }
+
+  const tracks: MusicTrack[] = []
+  for (const file of files) {
+    try {
+      const track = await indexTrack(root, file)
+      if (track) tracks.push(track)
+    } catch (error) {
+      console.warn(`[Music Library] Skipping ${file}:`, error)
+    }
+  }
+
+  indexData = tracks
+  indexDir = root
+  indexTimestamp = Date.now()
+
+  console.log(`[Music Library] Indexed ${tracks.length} tracks`)
+  return tracks
+}
+
+/**
+ * Pick a track for the given moods
+ * Tracks matching the most moods win (earlier moods count more); ties are
+ * broken randomly so consecutive renders don't all share one track.
+ *
+ * @param moods - Preferred moods, most important first
+ * @param minDuration - Tracks at least this long are preferred (shorter ones are looped)
+ * @returns The chosen track, or null if nothing matches
+ *
+ * @example
+ * ```typescript
+ * const track = await pickMusicTrack(['uplifting', 'inspiring'], 45)
+ * ```
+ */
+export async function pickMusicTrack(
+  moods: string[],
+  minDuration: number = 0
+): Promise<MusicTrack | null> {
+  const index = await getMusicIndex()
+  const wanted = moods.map(mood => mood.toLowerCase())
+
+  const scored = index
+    .map(track => {
+      let score = 0
+      wanted.forEach((mood, i) => {
+        if (track.moods.includes(mood)) score += wanted.length - i
+      })
+      if (score > 0 && track.duration >= minDuration) score += 0.5
+      return { track, score }
+    })
+    .filter(result => result.score > 0)
+
+  if (scored.length === 0) {
+    return null
+  }
+
+  const bestScore = Math.max(...scored.map(result => result.score))
+  const best = scored.filter(result => result.score === bestScore)
+
+  return best[Math.floor(Math.random() * best.length)].track
+}
@@ -1,18 +1,33 @@
 import { prisma } from './db'
+import { getCachedProviderResults } from './book-enrichment'
+
+interface NYTBuyLink {
+  name: string
+  url: string
+}
 
 interface NYTBook {
   title: string
   author: string
   rank: number
+  /** 0 when the book is new to the list */
+  rank_last_week: number
+  weeks_on_list: number
+  primary_isbn13: string
+  primary_isbn10: string
+  /** Empty string when NYT has no blurb */
+  description: string
+  publisher: string
+  book_image: string | null
+  amazon_product_url: string
+  buy_links: NYTBuyLink[]
 }
 
 interface NYTApiResponse {
   results: {
-    books: {
-      title: string
-      author: string
-      rank: number
-    }[]
+    /** Date of the list, YYYY-MM-DD */
+    published_date: string
+    books: NYTBook[]
   }
 }
 
@@ -30,6 +45,37 @@ export const genreToNYTList: Record<string, string> = {
 
 export const availableGenres = Object.keys(genreToNYTList)
 
+/**
+ * Google Books ratings counts for a list, from the cache only (null when unknown)
+ * Stored with each rank snapshot so ratings growth can be tracked week to week.
+ */
+async function getCachedRatingsCounts(books: NYTBook[]): Promise<(number | null)[]> {
+  try {
+    // Google Books only, so the weekly series isn't mixed with Open Library counts
+    const results = await getCachedProviderResults(books, Infinity)
+    return results.map(result => result.google?.ratingsCount ?? null)
+  } catch (error) {
+    console.warn('[NYT] Enrichment cache unavailable, skipping ratings counts:', error)
+    return books.map(() => null)
+  }
+}
+
+/**
+ * Book columns taken from a list entry (empty strings are stored as null)
+ */
+function getBookMetadata(book: NYTBook) {
+  return {
+    primary_isbn13: book.primary_isbn13 || null,
+    primary_isbn10: book.primary_isbn10 || null,
+    description: book.description?.trim() || null,
+    publisher: book.publisher || null,
+    book_image: book.book_image || null,
+    weeks_on_list: book.weeks_on_list ?? 0,
+    amazon_product_url: book.amazon_product_url || null,
+    buy_links: (book.buy_links ?? []).map(({ name, url }) => ({ name, url })),
+  }
+}
+
 export async function fetchAndStoreBestsellers(genre: string = 'Fiction') {
   const apiKey = process.env.NYT_API_KEY
 
@@ -50,10 +96,13 @@ export async function fetchAndStoreBestsellers(genre: string = 'Fiction') {
 
   const data: NYTApiResponse = await response.json()
   const books: NYTBook[] = data.results.books
+  const listDate = new Date(`${data.results.published_date}T00:00:00Z`)
 
   // Store each book in the database with genre
   const storedBooks = await Promise.all(
     books.map(async (book) => {
+      const metadata = getBookMetadata(book)
+
       // Use upsert to avoid duplicates
       return prisma.book.upsert({
         where: {
@@ -62,13 +111,39 @@ export async function fetchAndStoreBestsellers(genre: string = 'Fiction') {
         update: {
           popularity_score: book.rank,
           genre: genre,
+          ...metadata,
         },
         create: {
           book_title: book.title,
           author: book.author,
           popularity_score: book.rank,
           genre: genre,
+          ...metadata,
+        },
+      })
+    })
+  )
+
+  const ratingsCounts = await getCachedRatingsCounts(books)
+
+  // Keep each week's rank so movement can be measured later
+  // (one snapshot per book, list and list date; refetching a list updates it)
+  await Promise.all(
+    storedBooks.map((stored, i) => {
+      const snapshot = {
+        rank: books[i].rank,
+        rankLastWeek: books[i].rank_last_week || null,
+        weeksOnList: books[i].weeks_on_list ?? 0,
+        ratingsCount: ratingsCounts[i],
+        fetchedAt: new Date(),
+      }
+
+      return prisma.bookRankSnapshot.upsert({
+        where: {
+          bookId_list_listDate: { bookId: stored.id, list: listName, listDate },
         },
+        update: snapshot,
+        create: { ...snapshot, bookId: stored.id, list: listName, listDate },
       })
     })
   )
@@ -0,0 +1,193 @@
+/**
+ * Open Library API (server-side)
+ *
+ * Second enrichment source next to Google Books: search for the work,
+ * read its description from the works API and build a cover URL from the
+ * covers API. Often has descriptions and covers Google Books lacks.
+ *
+ * No API key is needed; requests identify the app with a User-Agent, as
+ * Open Library asks of API clients.
+ */
+
+import { LOW_CONFIDENCE_THRESHOLD, MatchScore, MatchTarget, scoreBookMatch } from './book-matching'
+import { fetchProviderJson } from './provider-backoff'
+import { GoogleBookDetails } from './types/google-books'
+
+// ============================================================================
+// Types (Open Library API response structure)
+// ============================================================================
+
+interface OpenLibrarySearchDoc {
+  /** Work key, e.g. "/works/OL17930368W" */
+  key: string
+  title?: string
+  subtitle?: string
+  author_name?: string[]
+  first_publish_year?: number
+  publisher?: string[]
+  isbn?: string[]
+  cover_i?: number
+  ratings_average?: number
+  ratings_count?: number
+}
+
+interface OpenLibrarySearchResponse {
+  numFound: number
+  docs: OpenLibrarySearchDoc[]
+}
+
+interface OpenLibraryWork {
+  description?: string | { type: string; value: string }
+}
+
+interface ScoredDoc {
+  doc: OpenLibrarySearchDoc
+  match: MatchScore
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const API_BASE_URL = 'https://openlibrary.org'
+const COVERS_BASE_URL = 'https://covers.openlibrary.org/b/id'
+const USER_AGENT = 'BookReel/1.0 (book enrichment)'
+
+/** Search results to score per query */
+const MAX_SEARCH_RESULTS = 5
+
+/** Only request the fields we use (search docs are large otherwise) */
+const SEARCH_FIELDS = [
+  'key',
+  'title',
+  'subtitle',
+  'author_name',
+  'first_publish_year',
+  'publisher',
+  'isbn',
+  'cover_i',
+  'ratings_average',
+  'ratings_count',
+].join(',')
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+async function searchOpenLibrary(params: Record<string, string>, limit: number): Promise<OpenLibrarySearchDoc[]> {
+  const url = new URL(`${API_BASE_URL}/search.json`)
+  for (const [name, value] of Object.entries(params)) {
+    url.searchParams.set(name, value)
+  }
+  url.searchParams.set('fields', SEARCH_FIELDS)
+  url.searchParams.set('limit', limit.toString())
+
+  const data = await fetchProviderJson<OpenLibrarySearchResponse>('openlibrary', url, { 'User-Agent': USER_AGENT })
+  return data?.docs ?? []
+}
+
+function rankDocs(docs: OpenLibrarySearchDoc[], target: MatchTarget): ScoredDoc[] {
+  return docs
+    .map((doc) => ({
+      doc,
+      match: scoreBookMatch(target, {
+        title: doc.title ?? '',
+        subtitle: doc.subtitle,
+        authors: doc.author_name ?? [],
+        publishedDate: doc.first_publish_year?.toString(),
+        isbns: doc.isbn ?? [],
+      }),
+    }))
+    .sort((a, b) => b.match.confidence - a.match.confidence)
+}
+
+/**
+ * Drop the source links and "----------" appendices Open Library
+ * descriptions often carry
+ */
+function cleanDescription(text: string): string {
+  return text
+    .split(/\r?\n-{3,}/)[0]
+    .replace(/\(\[source\]\[\d+\]\)/gi, '')
+    .replace(/^\[\d+\]:.*$/gm, '')
+    .trim()
+}
+
+/**
+ * Description of a work, or null when it has none
+ */
+async function fetchWorkDescription(workKey: string): Promise<string | null> {
+  const work = await fetchProviderJson<OpenLibraryWork>(
+    'openlibrary',
+    new URL(`${API_BASE_URL}${workKey}.json`),
+    { 'User-Agent': USER_AGENT }
+  )
+  const description = typeof work?.description === 'string'
+    ? work.description
+    : work?.description?.value
+
+  return description ? cleanDescription(description) || null : null
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Large cover image URL for an Open Library cover id
+ */
+export function getOpenLibraryCoverUrl(coverId: number): string {
+  return `${COVERS_BASE_URL}/${coverId}-L.jpg`
+}
+
+/**
+ * Best Open Library match for a book, or null when nothing was found
+ *
+ * Searches by ISBN first, then title + author while the match is
+ * low-confidence; the description comes from the matched work.
+ *
+ * @throws ProviderUnavailableError if Open Library can't answer
+ *
+ * @example
+ * ```typescript
+ * const details = await lookupOpenLibraryBook({ title: 'Atomic Habits', author: 'James Clear' })
+ * // { title: 'Atomic Habits', thumbnail: 'https://covers.openlibrary.org/b/id/...-L.jpg', ... }
+ * ```
+ */
+export async function lookupOpenLibraryBook(target: MatchTarget): Promise<GoogleBookDetails | null> {
+  let best: ScoredDoc | null = null
+
+  if (target.isbn) {
+    best = rankDocs(await searchOpenLibrary({ isbn: target.isbn }, 1), target)[0] ?? null
+  }
+
+  if (!best || best.match.confidence < LOW_CONFIDENCE_THRESHOLD) {
+    const [next] = rankDocs(
+      await searchOpenLibrary({ title: target.title, author: target.author }, MAX_SEARCH_RESULTS),
+      target
+    )
+    if (next && (!best || next.match.confidence > best.match.confidence)) {
+      best = next
+    }
+  }
+
+  if (!best) {
+    return null
+  }
+
+  const { doc, match } = best
+  const description = await fetchWorkDescription(doc.key)
+
+  return {
+    title: doc.title || target.title,
+    authors: doc.author_name?.length ? doc.author_name : [target.author],
+    description: description || 'No description available',
+    publisher: doc.publisher?.[0] || 'Unknown publisher',
+    publishedDate: doc.first_publish_year?.toString() || 'Unknown date',
+    averageRating: doc.ratings_average !== undefined ? Math.round(doc.ratings_average * 10) / 10 : null,
+    ratingsCount: doc.ratings_count ?? null,
+    thumbnail: doc.cover_i ? getOpenLibraryCoverUrl(doc.cover_i) : '',
+    confidence: match.confidence,
+    needsConfirmation: match.confidence < LOW_CONFIDENCE_THRESHOLD,
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Output Profiles
+ *
+ * Named render targets for the platforms videos are posted to. One job can
+ * render several profiles from the same voiceover and clip timeline.
+ *
+ * - reels: 1080x1920 (9:16) - Reels, Shorts, TikTok
+ * - square: 1080x1080 (1:1) - feed posts
+ * - portrait: 1080x1350 (4:5) - Instagram feed
+ * - landscape: 1920x1080 (16:9) - YouTube
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OutputProfileName = 'reels' | 'square' | 'portrait' | 'landscape'
+
+/**
+ * How footage is fitted to a profile's frame
+ * - smart: crop around the most detailed region (faces, subjects, text)
+ * - center: crop around the center
+ * - fit: scale down and letterbox with black bars
+ */
+export type CropMode = 'smart' | 'center' | 'fit'
+
+export interface OutputProfile {
+  name: OutputProfileName
+  label: string
+  width: number
+  height: number
+  /** Display ratio, e.g. '9:16' */
+  aspectRatio: string
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const OUTPUT_PROFILES: Record<OutputProfileName, OutputProfile> = {
+  reels: {
+    name: 'reels',
+    label: 'Reels / Shorts',
+    width: 1080,
+    height: 1920,
+    aspectRatio: '9:16',
+  },
+  square: {
+    name: 'square',
+    label: 'Square feed',
+    width: 1080,
+    height: 1080,
+    aspectRatio: '1:1',
+  },
+  portrait: {
+    name: 'portrait',
+    label: 'Instagram portrait',
+    width: 1080,
+    height: 1350,
+    aspectRatio: '4:5',
+  },
+  landscape: {
+    name: 'landscape',
+    label: 'YouTube',
+    width: 1920,
+    height: 1080,
+    aspectRatio: '16:9',
+  },
+}
+
+export const OUTPUT_PROFILE_NAMES = Object.keys(OUTPUT_PROFILES) as OutputProfileName[]
+export const CROP_MODES: CropMode[] = ['smart', 'center', 'fit']
+
+export const DEFAULT_OUTPUT_PROFILE: OutputProfileName = 'reels'
+export const DEFAULT_CROP_MODE: CropMode = 'smart'
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export function isOutputProfileName(value: unknown): value is OutputProfileName {
+  return typeof value === 'string' && OUTPUT_PROFILE_NAMES.includes(value as OutputProfileName)
+}
+
+export function isCropMode(value: unknown): value is CropMode {
+  return typeof value === 'string' && CROP_MODES.includes(value as CropMode)
+}
+
+/**
+ * Orientation used when searching stock media for a profile
+ */
+export function getProfileOrientation(name: OutputProfileName): 'landscape' | 'portrait' | 'square' {
+  const { width, height } = OUTPUT_PROFILES[name]
+  if (width > height) return 'landscape'
+  if (height > width) return 'portrait'
+  return 'square'
+}
@@ -0,0 +1,151 @@
+/**
+ * Video Project Persistence
+ *
+ * Helpers shared by the /api/projects routes and the render worker for
+ * storing video machine output: script versions, voice takes (audio files
+ * saved under public/videos/voice) and rendered MP4s.
+ */
+
+import { Prisma } from '@prisma/client'
+import { writeFile, mkdir, unlink } from 'fs/promises'
+import { existsSync } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { prisma } from './db'
+import type { PipelineResult } from './video-pipeline'
+import { DEFAULT_OUTPUT_PROFILE } from './output-profiles'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Voice takes live next to rendered videos so they share the same volume */
+const VOICE_TAKE_DIR = 'public/videos/voice'
+const VOICE_TAKE_URL_PREFIX = '/videos/voice'
+
+/** Max decoded size of an uploaded voice take (bytes) */
+export const MAX_VOICE_TAKE_SIZE = 25 * 1024 * 1024
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+}
+
+/**
+ * Relations loaded when opening a project (newest first)
+ */
+export const PROJECT_DETAIL_INCLUDE = {
+  book: {
+    select: { id: true, book_title: true, author: true },
+  },
+  scripts: {
+    orderBy: { version: 'desc' },
+  },
+  voiceTakes: {
+    orderBy: { createdAt: 'desc' },
+  },
+  renders: {
+    orderBy: { createdAt: 'desc' },
+  },
+} satisfies Prisma.VideoProjectInclude
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Parse a numeric route id, returning null if invalid
+ */
+export function parseProjectId(id: string): number | null {
+  const projectId = parseInt(id, 10)
+  return isNaN(projectId) ? null : projectId
+}
+
+/**
+ * Get the file extension for an audio content type
+ * Returns null for unsupported types
+ */
+export function getAudioExtension(contentType: string): string | null {
+  const baseType = contentType.split(';')[0].trim().toLowerCase()
+  return AUDIO_EXTENSIONS[baseType] ?? null
+}
+
+/**
+ * Save a voice take audio buffer and return its public URL
+ */
+export async function saveVoiceTakeAudio(
+  audioBuffer: Buffer,
+  extension: string
+): Promise<string> {
+  const outputDir = path.join(process.cwd(), VOICE_TAKE_DIR)
+  if (!existsSync(outputDir)) {
+    await mkdir(outputDir, { recursive: true })
+  }
+
+  const fileName = `${randomUUID()}.${extension}`
+  await writeFile(path.join(outputDir, fileName), audioBuffer)
+
+  console.log(`[Projects] Saved voice take: ${fileName}`)
+  return `${VOICE_TAKE_URL_PREFIX}/${fileName}`
+}
+
+/**
+ * Delete files belonging to a project (voice takes and rendered videos)
+ * Missing files are ignored
+ */
+export async function deleteProjectFiles(urls: string[]): Promise<void> {
+  for (const url of urls) {
+    // Only touch files we created under public/videos
+    if (!url.startsWith('/videos/') || url.includes('..')) {
+      continue
+    }
+
+    try {
+      await unlink(path.join(process.cwd(), 'public', url))
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+}
+
+/**
+ * Attach a finished render to its project
+ * Called by the render worker when a job with a projectId completes
+ */
+export async function recordRenderOutput(
+  projectId: number,
+  renderJobId: string,
+  result: PipelineResult
+): Promise<void> {
+  // One row per rendered profile (results from older jobs have no renditions)
+  const renditions = result.renditions ?? [result]
+
+  for (const rendition of renditions) {
+    const profile = rendition.profile ?? DEFAULT_OUTPUT_PROFILE
+
+    await prisma.renderOutput.upsert({
+      where: { renderJobId_profile: { renderJobId, profile } },
+      update: {},
+      create: {
+        projectId,
+        renderJobId,
+        profile,
+        videoUrl: rendition.videoUrl,
+        duration: rendition.duration,
+        fileSize: rendition.fileSize,
+        width: rendition.width,
+        height: rendition.height,
+      },
+    })
+  }
+
+  // Bump updatedAt so the project sorts as recently active
+  await prisma.videoProject.update({
+    where: { id: projectId },
+    data: { updatedAt: new Date() },
+  })
+}
@@ -0,0 +1,210 @@
+/**
+ * Enrichment Provider Backoff
+ *
+ * Rate-limit-aware backoff shared by the Google Books and Open Library
+ * clients. A 429 pauses every request to that provider for the time given
+ * in Retry-After, or for an exponentially growing delay when there is none;
+ * while paused, requests fail fast instead of hammering the API. The first
+ * successful response resets the delay.
+ *
+ * ProviderUnavailableError also covers timeouts and server errors, so
+ * callers can tell "the provider couldn't answer" from "the provider found
+ * nothing" and never cache the former as a miss.
+ *
+ * fetchProviderJson() wraps all of this around a single GET, so provider
+ * clients only build URLs and map responses.
+ */
+
+import { API_TIMEOUT_MS, EnrichmentProvider } from './types/google-books'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface BackoffState {
+  /** Epoch ms until which requests are skipped (0 = not backing off) */
+  until: number
+  /** Consecutive 429s, for the exponential delay */
+  strikes: number
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** First delay after a 429 without Retry-After; doubles per consecutive 429 */
+const BASE_BACKOFF_MS = 30 * 1000
+
+const MAX_BACKOFF_MS = 15 * 60 * 1000
+
+/** Provider names for logs and error messages */
+const PROVIDER_NAMES: Record<EnrichmentProvider, string> = {
+  google: 'Google Books',
+  openlibrary: 'Open Library',
+}
+
+// Keep backoff across hot reloads (same pattern as lib/db.ts)
+const globalForBackoff = globalThis as unknown as {
+  providerBackoff: Partial<Record<EnrichmentProvider, BackoffState>> | undefined
+}
+
+const backoff = globalForBackoff.providerBackoff ?? {}
+
+globalForBackoff.providerBackoff = backoff
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * A provider couldn't answer (rate limited, timed out, server error),
+ * as opposed to answering "no match"
+ */
+export class ProviderUnavailableError extends Error {
+  readonly provider: EnrichmentProvider
+  /** How long until the provider is tried again, when known */
+  readonly retryAfterMs: number | null
+
+  constructor(provider: EnrichmentProvider, message: string, retryAfterMs: number | null = null) {
+    super(message)
+    this.name = 'ProviderUnavailableError'
+    this.provider = provider
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Retry-After in milliseconds (delta-seconds or HTTP date), null when absent or invalid
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null
+  }
+
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Throw if the provider is backing off after a 429
+ * Call before every request.
+ */
+export function assertNotBackingOff(provider: EnrichmentProvider): void {
+  const remaining = (backoff[provider]?.until ?? 0) - Date.now()
+  if (remaining > 0) {
+    throw new ProviderUnavailableError(
+      provider,
+      `${provider} is rate limited, retrying in ${Math.ceil(remaining / 1000)}s`,
+      remaining
+    )
+  }
+}
+
+/**
+ * Start (or extend) backing off after a 429
+ *
+ * @param retryAfter - The response's Retry-After header, if any
+ * @returns The error to throw for this request
+ *
+ * @example
+ * ```typescript
+ * if (response.status === 429) {
+ *   throw recordRateLimit('google', response.headers.get('Retry-After'))
+ * }
+ * ```
+ */
+export function recordRateLimit(provider: EnrichmentProvider, retryAfter: string | null): ProviderUnavailableError {
+  const state = backoff[provider] ?? { until: 0, strikes: 0 }
+  state.strikes++
+
+  const delay = parseRetryAfter(retryAfter) ??
+    Math.min(BASE_BACKOFF_MS * 2 ** (state.strikes - 1), MAX_BACKOFF_MS)
+  state.until = Date.now() + delay
+  backoff[provider] = state
+
+  console.warn(`[Provider Backoff] ${provider} returned 429, pausing requests for ${Math.ceil(delay / 1000)}s`)
+  return new ProviderUnavailableError(provider, `${provider} rate limit exceeded`, delay)
+}
+
+/**
+ * Reset the backoff after a successful response
+ */
+export function recordSuccess(provider: EnrichmentProvider): void {
+  if (backoff[provider]) {
+    delete backoff[provider]
+  }
+}
+
+/**
+ * GET a provider URL as JSON with timeout handling and rate-limit backoff
+ * Returns null for 404s
+ *
+ * @param headers - Extra request headers (Accept: application/json is always sent)
+ * @throws ProviderUnavailableError when backing off or rate limited, on
+ *   timeouts, network errors and other HTTP errors
+ *
+ * @example
+ * ```typescript
+ * const work = await fetchProviderJson<OpenLibraryWork>('openlibrary', url, { 'User-Agent': USER_AGENT })
+ * ```
+ */
+export async function fetchProviderJson<T>(
+  provider: EnrichmentProvider,
+  url: URL,
+  headers: Record<string, string> = {}
+): Promise<T | null> {
+  assertNotBackingOff(provider)
+
+  const name = PROVIDER_NAMES[provider]
+  let response: Response
+  try {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), API_TIMEOUT_MS)
+
+    response = await fetch(url.toString(), {
+      signal: controller.signal,
+      headers: {
+        'Accept': 'application/json',
+        ...headers,
+      },
+    })
+
+    clearTimeout(timeoutId)
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      console.error(`[${name}] Request timed out`)
+      throw new ProviderUnavailableError(provider, `${name} request timed out`)
+    }
+    console.error(`[${name}] Fetch error:`, error)
+    throw new ProviderUnavailableError(provider, `${name} request failed`)
+  }
+
+  if (response.status === 429) {
+    throw recordRateLimit(provider, response.headers.get('Retry-After'))
+  }
+
+  if (response.status === 404) {
+    return null
+  }
+
+  if (!response.ok) {
+    console.error(`[${name}] HTTP ${response.status}: ${response.statusText}`)
+    throw new ProviderUnavailableError(provider, `${name} returned HTTP ${response.status}`)
+  }
+
+  recordSuccess(provider)
+  return await response.json() as T
+}
@@ -0,0 +1,336 @@
+/**
+ * Render Batches
+ *
+ * Queues one render job per book for a whole NYT genre list or a set of
+ * saved books, with tone/duration/profile settings shared across the batch.
+ * Each job runs the full pipeline (script → voice-over → render) in the
+ * render worker (see lib/render-queue.ts); the batch view rolls the jobs up
+ * into per-book status and lists the finished videos for a combined download.
+ *
+ * Book descriptions and covers come from a manual override or the Google
+ * Books cache when the book has been looked up before, then from the NYT
+ * list metadata; otherwise the script is written from the title, author
+ * and genre alone.
+ */
+
+import { Book, Prisma } from '@prisma/client'
+import { existsSync } from 'fs'
+import { prisma } from './db'
+import { getCachedEnrichment } from './book-enrichment'
+import { getEnrichmentOverride } from './book-overrides'
+import { fetchAndStoreBestsellers } from './nyt'
+import { enqueueRenderJob, toRenderJobView, RenderJobStatus } from './render-queue'
+import type { GenerateVideoRequest, PipelineResult } from './video-pipeline'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Settings shared by every video in a batch
+ */
+export type BatchSettings = Pick<
+  GenerateVideoRequest,
+  'tone' | 'duration' | 'provider' | 'profiles' | 'music' | 'template' | 'templateId' | 'callToAction' | 'handle'
+>
+
+export type RenderBatchStatus = 'queued' | 'running' | 'completed' | 'failed'
+
+/**
+ * Per-book status within a batch
+ */
+export interface RenderBatchItem {
+  jobId: string
+  bookId: number | null
+  title: string
+  status: RenderJobStatus
+  currentStep: string
+  progress: number
+  videoUrl: string | null
+  error: string | null
+}
+
+/**
+ * Public view of a batch (as returned by GET /api/batches/[id])
+ */
+export interface RenderBatchView {
+  id: string
+  genre: string | null
+  /** completed once every job has finished and at least one succeeded */
+  status: RenderBatchStatus
+  settings: BatchSettings
+  counts: Record<RenderJobStatus, number>
+  items: RenderBatchItem[]
+  /** Set once the batch has finished with at least one video */
+  downloadUrl: string | null
+  createdAt: string
+}
+
+/**
+ * A finished video file and its name inside the combined download
+ */
+export interface BatchDownloadFile {
+  filePath: string
+  name: string
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** NYT lists have 15 books; larger batches tie up the worker for hours */
+export const MAX_BATCH_SIZE = 15
+
+const BATCH_JOBS_INCLUDE = {
+  jobs: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.RenderBatchInclude
+
+type BatchWithJobs = Prisma.RenderBatchGetPayload<{ include: typeof BATCH_JOBS_INCLUDE }>
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Description and cover from a manual override, or from the enrichment
+ * cache if the book was looked up before
+ */
+async function getCachedBookDetails(
+  book: Book
+): Promise<{ description?: string; thumbnail?: string }> {
+  try {
+    const override = await getEnrichmentOverride(book.id)
+    if (override) {
+      return {
+        description: override.details.description !== 'No description available' ? override.details.description : undefined,
+        thumbnail: override.details.thumbnail || undefined,
+      }
+    }
+
+    const details = await getCachedEnrichment({ title: book.book_title, author: book.author })
+    if (!details) {
+      return {}
+    }
+
+    return {
+      description: details.description !== 'No description available' ? details.description : undefined,
+      thumbnail: details.thumbnail || undefined,
+    }
+  } catch (error) {
+    console.warn(`[Render Batch] Enrichment cache unavailable for "${book.book_title}":`, error)
+    return {}
+  }
+}
+
+/**
+ * Pipeline request for one book of a batch
+ */
+async function buildBookRequest(book: Book, settings: BatchSettings): Promise<GenerateVideoRequest> {
+  const details = await getCachedBookDetails(book)
+
+  return {
+    ...settings,
+    title: book.book_title,
+    description: details.description ?? book.description ??
+      `${book.book_title} by ${book.author}, a New York Times bestseller in ${book.genre}.`,
+    book: {
+      title: book.book_title,
+      authors: [book.author],
+      thumbnail: details.thumbnail ?? book.book_image ?? undefined,
+    },
+  }
+}
+
+function toBatchView(batch: BatchWithJobs): RenderBatchView {
+  const counts: Record<RenderJobStatus, number> = { queued: 0, running: 0, completed: 0, failed: 0 }
+
+  const items = batch.jobs.map((row): RenderBatchItem => {
+    const job = toRenderJobView(row)
+    counts[job.status]++
+
+    return {
+      jobId: job.id,
+      bookId: job.bookId,
+      title: (row.input as unknown as GenerateVideoRequest).title,
+      status: job.status,
+      currentStep: job.currentStep,
+      progress: job.progress,
+      videoUrl: job.result?.videoUrl ?? null,
+      error: job.error?.error ?? null,
+    }
+  })
+
+  let status: RenderBatchStatus
+  if (counts.queued + counts.running > 0) {
+    status = counts.queued === items.length ? 'queued' : 'running'
+  } else {
+    status = counts.completed > 0 ? 'completed' : 'failed'
+  }
+
+  return {
+    id: batch.id,
+    genre: batch.genre,
+    status,
+    settings: batch.settings as unknown as BatchSettings,
+    counts,
+    items,
+    downloadUrl: status === 'completed' ? `/api/batches/${batch.id}/download` : null,
+    createdAt: batch.createdAt.toISOString(),
+  }
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'video'
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Books on a genre's bestseller list, best ranked first
+ * Lists that haven't been fetched yet are loaded from the NYT API.
+ *
+ * @throws Error if the list has to be fetched and the NYT API fails
+ */
+export async function getGenreBooks(genre: string, limit: number = MAX_BATCH_SIZE): Promise<Book[]> {
+  const query = () => prisma.book.findMany({
+    where: { genre },
+    orderBy: { popularity_score: 'asc' },
+    take: limit,
+  })
+
+  const books = await query()
+  if (books.length > 0) {
+    return books
+  }
+
+  console.log(`[Render Batch] No stored books for ${genre}, fetching the NYT list`)
+  await fetchAndStoreBestsellers(genre)
+  return query()
+}
+
+/**
+ * Stored books by id, in the order given (unknown ids are skipped)
+ */
+export async function getBooksById(bookIds: number[]): Promise<Book[]> {
+  const books = await prisma.book.findMany({ where: { id: { in: bookIds } } })
+  const byId = new Map(books.map(book => [book.id, book]))
+
+  return bookIds
+    .map(id => byId.get(id))
+    .filter((book): book is Book => !!book)
+}
+
+/**
+ * Queue one render job per book with shared settings
+ *
+ * @param genre - The NYT genre the books came from (null for a hand-picked set)
+ *
+ * @example
+ * ```typescript
+ * const books = await getGenreBooks('Business')
+ * const batch = await createRenderBatch(books, { tone: 'Motivational', duration: 30 }, 'Business')
+ * // Poll GET /api/batches/${batch.id}
+ * ```
+ */
+export async function createRenderBatch(
+  books: Book[],
+  settings: BatchSettings,
+  genre: string | null = null
+): Promise<RenderBatchView> {
+  const batch = await prisma.renderBatch.create({
+    data: {
+      genre,
+      settings: settings as unknown as Prisma.InputJsonValue,
+    },
+  })
+
+  console.log(`[Render Batch] Queueing ${books.length} videos for batch ${batch.id}`)
+
+  // Sequential so jobs are created (and rendered) in list order
+  for (const book of books) {
+    await enqueueRenderJob(await buildBookRequest(book, settings), undefined, {
+      batchId: batch.id,
+      bookId: book.id,
+    })
+  }
+
+  const view = await getRenderBatch(batch.id)
+  if (!view) {
+    throw new Error(`Batch ${batch.id} disappeared while queueing`)
+  }
+  return view
+}
+
+/**
+ * Look up a batch and the status of each of its jobs
+ */
+export async function getRenderBatch(id: string): Promise<RenderBatchView | null> {
+  const batch = await prisma.renderBatch.findUnique({
+    where: { id },
+    include: BATCH_JOBS_INCLUDE,
+  })
+
+  return batch ? toBatchView(batch) : null
+}
+
+/**
+ * Most recent batches, newest first
+ */
+export async function listRenderBatches(limit: number = 10): Promise<RenderBatchView[]> {
+  const batches = await prisma.renderBatch.findMany({
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    include: BATCH_JOBS_INCLUDE,
+  })
+
+  return batches.map(toBatchView)
+}
+
+/**
+ * Finished videos of a batch, named by list position and title
+ * Every rendition is included (e.g. 01-atomic-habits-reels.mp4) when a job
+ * rendered several profiles. Files removed from disk are skipped.
+ */
+export async function getBatchDownloadFiles(id: string): Promise<BatchDownloadFile[] | null> {
+  const batch = await prisma.renderBatch.findUnique({
+    where: { id },
+    include: BATCH_JOBS_INCLUDE,
+  })
+
+  if (!batch) {
+    return null
+  }
+
+  const files: BatchDownloadFile[] = []
+
+  batch.jobs.forEach((job, index) => {
+    if (job.status !== 'completed' || !job.result) return
+
+    const result = job.result as unknown as PipelineResult
+    const title = (job.input as unknown as GenerateVideoRequest).title
+    const prefix = `${String(index + 1).padStart(2, '0')}-${slugify(title)}`
+    const renditions = result.renditions?.length ? result.renditions : [result]
+
+    for (const rendition of renditions) {
+      if (!existsSync(rendition.filePath)) {
+        console.warn(`[Render Batch] Missing video for "${title}": ${rendition.filePath}`)
+        continue
+      }
+
+      files.push({
+        filePath: rendition.filePath,
+        name: renditions.length > 1 && rendition.profile
+          ? `${prefix}-${rendition.profile}.mp4`
+          : `${prefix}.mp4`,
+      })
+    }
+  })
+
+  return files
+}
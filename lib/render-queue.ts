@@ -0,0 +1,333 @@
+/**
+ * Render Job Queue
+ *
+ * Persists video generation requests as RenderJob rows and executes them
+ * in a background worker loop, so POST /api/generate-video can return a
+ * job id immediately instead of holding the connection for the whole render.
+ *
+ * - Jobs are claimed atomically (queued -> running) so several server
+ *   instances can share one database without double-processing
+ * - The worker reports the pipeline's current step and FFmpeg progress
+ * - Jobs left "running" by a crashed process are re-queued on startup
+ * - Stale render workspaces from crashed processes are swept on startup
+ *
+ * The worker is started from instrumentation.ts when the server boots.
+ */
+
+import { Prisma, RenderJob } from '@prisma/client'
+import { prisma } from './db'
+import {
+  runVideoPipeline,
+  VideoPipelineError,
+  GenerateVideoRequest,
+  PipelineErrorDetails,
+  PipelineResult,
+  ERROR_CODES,
+} from './video-pipeline'
+import { recordRenderOutput } from './projects'
+import { sweepStaleWorkspaces } from './workspace'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RenderJobStatus = 'queued' | 'running' | 'completed' | 'failed'
+
+/**
+ * Public view of a render job (as returned by GET /api/jobs/[id])
+ */
+export interface RenderJobView {
+  id: string
+  projectId: number | null
+  /** Batch the job belongs to (see lib/render-batches.ts) */
+  batchId: string | null
+  bookId: number | null
+  status: RenderJobStatus
+  currentStep: string
+  progress: number
+  result: PipelineResult | null
+  error: PipelineErrorDetails | null
+  createdAt: string
+  startedAt: string | null
+  completedAt: string | null
+}
+
+interface WorkerState {
+  started: boolean
+  busy: boolean
+  timer: NodeJS.Timeout | null
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** How often the worker checks for queued jobs when idle */
+const POLL_INTERVAL_MS = 2000
+
+/** Minimum time between progress writes to the database */
+const PROGRESS_WRITE_INTERVAL_MS = 1000
+
+/** Running jobs not updated for this long are considered abandoned */
+const STALE_JOB_MS = 10 * 60 * 1000
+
+// Keep a single worker across hot reloads (same pattern as lib/db.ts)
+const globalForWorker = globalThis as unknown as {
+  renderWorker: WorkerState | undefined
+}
+
+const worker: WorkerState = globalForWorker.renderWorker ?? {
+  started: false,
+  busy: false,
+  timer: null,
+}
+
+globalForWorker.renderWorker = worker
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Convert a RenderJob row into its public shape
+ */
+export function toRenderJobView(job: RenderJob): RenderJobView {
+  return {
+    id: job.id,
+    projectId: job.projectId,
+    batchId: job.batchId,
+    bookId: job.bookId,
+    status: job.status as RenderJobStatus,
+    currentStep: job.currentStep,
+    progress: job.progress,
+    result: (job.result as unknown as PipelineResult) ?? null,
+    error: (job.error as unknown as PipelineErrorDetails) ?? null,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() ?? null,
+    completedAt: job.completedAt?.toISOString() ?? null,
+  }
+}
+
+/**
+ * Re-queue jobs whose worker died mid-render
+ */
+async function requeueStaleJobs(): Promise<void> {
+  const staleBefore = new Date(Date.now() - STALE_JOB_MS)
+
+  const { count } = await prisma.renderJob.updateMany({
+    where: {
+      status: 'running',
+      updatedAt: { lt: staleBefore },
+    },
+    data: {
+      status: 'queued',
+      currentStep: 'initialization',
+      progress: 0,
+      startedAt: null,
+    },
+  })
+
+  if (count > 0) {
+    console.warn(`[Render Queue] Re-queued ${count} stale job(s)`)
+  }
+}
+
+/**
+ * Claim the oldest queued job
+ * Returns null if there is nothing to do or another worker won the race
+ */
+async function claimNextJob() {
+  const next = await prisma.renderJob.findFirst({
+    where: { status: 'queued' },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  if (!next) {
+    return null
+  }
+
+  const { count } = await prisma.renderJob.updateMany({
+    where: { id: next.id, status: 'queued' },
+    data: {
+      status: 'running',
+      currentStep: 'initialization',
+      startedAt: new Date(),
+    },
+  })
+
+  return count === 1 ? next : null
+}
+
+/**
+ * Execute a claimed job and record its outcome
+ */
+async function executeJob(
+  jobId: string,
+  input: GenerateVideoRequest,
+  projectId: number | null
+): Promise<void> {
+  console.log(`[Render Queue] Starting job ${jobId}`)
+
+  let lastProgressWrite = 0
+
+  try {
+    const result = await runVideoPipeline(input, {
+      onStep: async (step) => {
+        await prisma.renderJob.update({
+          where: { id: jobId },
+          data: { currentStep: step },
+        })
+      },
+      onProgress: (percent) => {
+        const now = Date.now()
+        if (now - lastProgressWrite < PROGRESS_WRITE_INTERVAL_MS) {
+          return
+        }
+        lastProgressWrite = now
+
+        prisma.renderJob
+          .update({ where: { id: jobId }, data: { progress: percent } })
+          .catch((error) => console.error(`[Render Queue] Failed to save progress for ${jobId}:`, error))
+      },
+    })
+
+    await prisma.renderJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'completed',
+        currentStep: 'completed',
+        progress: 100,
+        result: result as unknown as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    })
+
+    console.log(`[Render Queue] ✅ Job ${jobId} completed: ${result.videoUrl}`)
+
+    if (projectId !== null) {
+      // The project may have been deleted while the job ran
+      await recordRenderOutput(projectId, jobId, result).catch((error) =>
+        console.error(`[Render Queue] Failed to attach job ${jobId} to project ${projectId}:`, error)
+      )
+    }
+  } catch (error) {
+    const failure: PipelineErrorDetails = error instanceof VideoPipelineError
+      ? error.toJSON()
+      : {
+          error: 'An unexpected error occurred during video generation',
+          step: 'unknown',
+          code: ERROR_CODES.UNKNOWN_ERROR,
+          details: error instanceof Error ? error.message : 'Unknown error',
+        }
+
+    console.error(`[Render Queue] Job ${jobId} failed during "${failure.step}":`, failure.error)
+
+    await prisma.renderJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'failed',
+        error: failure as unknown as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    })
+  }
+}
+
+/**
+ * One worker iteration: run every queued job, then sleep
+ */
+async function tick(): Promise<void> {
+  if (worker.busy) {
+    return
+  }
+  worker.busy = true
+
+  try {
+    let job = await claimNextJob()
+    while (job) {
+      await executeJob(job.id, job.input as unknown as GenerateVideoRequest, job.projectId)
+      job = await claimNextJob()
+    }
+  } catch (error) {
+    console.error('[Render Queue] Worker error:', error)
+  } finally {
+    worker.busy = false
+    scheduleTick(POLL_INTERVAL_MS)
+  }
+}
+
+function scheduleTick(delayMs: number): void {
+  if (worker.timer) {
+    clearTimeout(worker.timer)
+  }
+  worker.timer = setTimeout(() => {
+    worker.timer = null
+    void tick()
+  }, delayMs)
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Start the background worker (idempotent)
+ * Called from instrumentation.ts at boot; routes call it too, as a fallback
+ */
+export function ensureRenderWorker(): void {
+  if (worker.started) {
+    return
+  }
+  worker.started = true
+
+  console.log('[Render Queue] Worker started')
+
+  sweepStaleWorkspaces().catch((error) =>
+    console.error('[Render Queue] Failed to sweep stale workspaces:', error)
+  )
+
+  requeueStaleJobs()
+    .catch((error) => console.error('[Render Queue] Failed to re-queue stale jobs:', error))
+    .finally(() => scheduleTick(0))
+}
+
+/**
+ * Persist a validated request as a queued job and wake the worker
+ *
+ * @param projectId - Optional video project the finished render is saved to
+ * @param batch - Optional batch (and the batch's book) the job belongs to
+ */
+export async function enqueueRenderJob(
+  input: GenerateVideoRequest,
+  projectId?: number,
+  batch?: { batchId: string; bookId?: number }
+): Promise<RenderJobView> {
+  const job = await prisma.renderJob.create({
+    data: {
+      input: input as unknown as Prisma.InputJsonValue,
+      projectId: projectId ?? null,
+      batchId: batch?.batchId ?? null,
+      bookId: batch?.bookId ?? null,
+    },
+  })
+
+  console.log(`[Render Queue] Queued job ${job.id} for "${input.title}"`)
+
+  ensureRenderWorker()
+  if (!worker.busy) {
+    scheduleTick(0)
+  }
+
+  return toRenderJobView(job)
+}
+
+/**
+ * Look up a job by id
+ */
+export async function getRenderJob(id: string): Promise<RenderJobView | null> {
+  const job = await prisma.renderJob.findUnique({
+    where: { id },
+  })
+
+  return job ? toRenderJobView(job) : null
+}
@@ -1,16 +1,17 @@
 /**
- * Script Generation Utility using OpenAI GPT
+ * Script Generation Utility
  * 
- * This module provides functions to generate video scripts using OpenAI's GPT models.
+ * This module provides functions to generate video scripts with an LLM
+ * (OpenAI, Anthropic or a local OpenAI-compatible server, see lib/llm.ts).
  * The scripts are optimized for different tones and durations.
  * 
  * Environment Variables Required:
- * - OPENAI_API_KEY: Your OpenAI API key
+ * - API key for the selected provider (OPENAI_API_KEY by default)
  * 
- * @see https://platform.openai.com/docs/api-reference/chat
+ * @see lib/llm.ts
  */
 
-import OpenAI from 'openai'
+import { getLLMProvider, LLMProviderName } from './llm'
 
 // ============================================================================
 // Types
@@ -22,6 +23,10 @@ export interface ScriptResult {
   script: string
   keywords: string[]
   scenes?: string[]
+  /** Provider that wrote the script (unset for template fallbacks) */
+  provider?: LLMProviderName
+  /** Model that wrote the script (unset for template fallbacks) */
+  model?: string
 }
 
 export interface ScriptGenerationOptions {
@@ -33,7 +38,9 @@ export interface ScriptGenerationOptions {
   tone: Tone
   /** Target duration in seconds */
   duration: number
-  /** OpenAI model to use (default: gpt-4-turbo-preview) */
+  /** LLM provider to use (default: LLM_PROVIDER env, then openai) */
+  provider?: LLMProviderName
+  /** Model to use (default: the provider's default model) */
   model?: string
   /** Temperature for generation (0-2, default: 0.8) */
   temperature?: number
@@ -43,10 +50,9 @@ export interface ScriptGenerationOptions {
 // Constants
 // ============================================================================
 
-const DEFAULT_MODEL = 'gpt-4-turbo-preview'
 const DEFAULT_TEMPERATURE = 0.8
 
-// Tone-specific instructions for OpenAI
+// Tone-specific instructions for the LLM
 const TONE_INSTRUCTIONS: Record<Tone, string> = {
   Motivational: 'Create an inspiring and energizing script that motivates viewers to take action. Use powerful, action-oriented language. Include calls to action.',
   Emotional: 'Create a heartfelt and emotionally resonant script that connects with viewers on a deep level. Use empathetic language and emotional storytelling.',
@@ -59,23 +65,6 @@ const TONE_INSTRUCTIONS: Record<Tone, string> = {
 // Helper Functions
 // ============================================================================
 
-/**
- * Get OpenAI API key from environment
- * @throws Error if API key is not configured
- */
-function getApiKey(): string {
-  const apiKey = process.env.OPENAI_API_KEY
-
-  if (!apiKey) {
-    throw new Error(
-      'OPENAI_API_KEY is not configured. ' +
-      'Please add it to your .env.local file.'
-    )
-  }
-
-  return apiKey
-}
-
 /**
  * Estimate word count based on duration
  * Average speaking rate is ~150 words per minute
@@ -139,7 +128,7 @@ function extractKeywords(text: string, title: string): string[] {
 // ============================================================================
 
 /**
- * Generate a video script using OpenAI GPT
+ * Generate a video script using the configured LLM provider
  * 
  * @param options - Script generation options
  * @returns Promise<ScriptResult> - Generated script and keywords
@@ -162,7 +151,8 @@ export async function generateScript(
     description,
     tone,
     duration,
-    model = DEFAULT_MODEL,
+    provider,
+    model,
     temperature = DEFAULT_TEMPERATURE,
   } = options
 
@@ -184,13 +174,7 @@ export async function generateScript(
     throw new Error('Duration must be between 10 and 120 seconds')
   }
 
-  // Get API key
-  const apiKey = getApiKey()
-
-  // Initialize OpenAI client
-  const openai = new OpenAI({
-    apiKey,
-  })
+  const llm = getLLMProvider(provider)
 
   // Calculate target word count
   const targetWords = estimateWordCount(duration)
@@ -218,23 +202,23 @@ Requirements:
 Return ONLY the script text, no additional commentary or formatting.`
 
   console.log(`[Script Generator] Generating ${tone} script for "${title}" (${duration}s, ~${targetWords} words)`)
-  console.log(`[Script Generator] Using model: ${model}`)
+  console.log(`[Script Generator] Using ${llm.label} model: ${model || llm.defaultModel}`)
 
   try {
-    const completion = await openai.chat.completions.create({
+    const completion = await llm.complete({
       model,
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt },
       ],
       temperature,
-      max_tokens: Math.floor(targetWords * 1.5), // Allow some buffer
+      maxTokens: Math.floor(targetWords * 1.5), // Allow some buffer
     })
 
-    const script = completion.choices[0]?.message?.content?.trim()
+    const script = completion.text
 
     if (!script) {
-      throw new Error('OpenAI returned an empty script')
+      throw new Error(`${llm.label} returned an empty script`)
     }
 
     console.log(`[Script Generator] Generated script (${script.split(/\s+/).length} words)`)
@@ -253,27 +237,11 @@ Return ONLY the script text, no additional commentary or formatting.`
       script,
       keywords,
       scenes,
+      provider: completion.provider,
+      model: completion.model,
     }
 
   } catch (error) {
-    if (error instanceof OpenAI.APIError) {
-      console.error(`[Script Generator] OpenAI API error:`, error)
-      
-      if (error.status === 401) {
-        throw new Error('Invalid OpenAI API key. Please check your OPENAI_API_KEY.')
-      }
-      
-      if (error.status === 429) {
-        throw new Error('OpenAI rate limit exceeded. Please try again in a moment.')
-      }
-      
-      if (error.status === 400) {
-        throw new Error(`Invalid request to OpenAI: ${error.message}`)
-      }
-      
-      throw new Error(`OpenAI API error: ${error.message}`)
-    }
-
     if (error instanceof Error) {
       console.error(`[Script Generator] Error:`, error.message)
       throw error
@@ -305,7 +273,8 @@ export async function generateCapCutScript(
     description,
     tone,
     duration,
-    model = DEFAULT_MODEL,
+    provider,
+    model,
     temperature = 0.9, // Higher temperature for more creative, punchy lines
   } = options
 
@@ -318,13 +287,7 @@ export async function generateCapCutScript(
     throw new Error('Description is required and must be a non-empty string')
   }
 
-  // Get API key
-  const apiKey = getApiKey()
-
-  // Initialize OpenAI client
-  const openai = new OpenAI({
-    apiKey,
-  })
+  const llm = getLLMProvider(provider)
 
   // Calculate target word count (slightly fewer words for punchy delivery)
   const targetWords = Math.floor(estimateWordCount(duration) * 0.85) // Reduce by 15% for pauses
@@ -367,21 +330,23 @@ FORMAT: Return ONLY the script with each sentence on a new line. No numbering, n
 
   console.log(`[CapCut Script] Generating punchy ${tone} script for "${title}" (${duration}s)`)
 
+  console.log(`[CapCut Script] Using ${llm.label} model: ${model || llm.defaultModel}`)
+
   try {
-    const completion = await openai.chat.completions.create({
+    const completion = await llm.complete({
       model,
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt },
       ],
       temperature,
-      max_tokens: Math.floor(targetWords * 2), // Extra buffer for formatting
+      maxTokens: Math.floor(targetWords * 2), // Extra buffer for formatting
     })
 
-    let script = completion.choices[0]?.message?.content?.trim()
+    let script = completion.text
 
     if (!script) {
-      throw new Error('OpenAI returned an empty script')
+      throw new Error(`${llm.label} returned an empty script`)
     }
 
     // Post-process to ensure quality
@@ -402,23 +367,11 @@ FORMAT: Return ONLY the script with each sentence on a new line. No numbering, n
       script,
       keywords,
       scenes,
+      provider: completion.provider,
+      model: completion.model,
     }
 
   } catch (error) {
-    if (error instanceof OpenAI.APIError) {
-      console.error(`[CapCut Script] OpenAI API error:`, error)
-      
-      if (error.status === 401) {
-        throw new Error('Invalid OpenAI API key. Please check your OPENAI_API_KEY.')
-      }
-      
-      if (error.status === 429) {
-        throw new Error('OpenAI rate limit exceeded. Please try again in a moment.')
-      }
-      
-      throw new Error(`OpenAI API error: ${error.message}`)
-    }
-
     if (error instanceof Error) {
       console.error(`[CapCut Script] Error:`, error.message)
       throw error
@@ -470,7 +423,7 @@ export async function generateCapCutScriptWithFallback(
   try {
     return await generateCapCutScript(options)
   } catch (error) {
-    console.warn('[CapCut Script] OpenAI failed, using template fallback:', error)
+    console.warn('[CapCut Script] LLM failed, using template fallback:', error)
     
     // Fallback to template-based CapCut script
     const { title, tone, duration } = options
@@ -592,7 +545,7 @@ export async function generateCapCutScriptWithFallback(
 
 /**
  * Generate script with fallback to template-based generation
- * Useful when OpenAI is unavailable or as a backup
+ * Useful when the LLM provider is unavailable or as a backup
  */
 export async function generateScriptWithFallback(
   options: ScriptGenerationOptions
@@ -600,7 +553,7 @@ export async function generateScriptWithFallback(
   try {
     return await generateScript(options)
   } catch (error) {
-    console.warn('[Script Generator] OpenAI failed, using template fallback:', error)
+    console.warn('[Script Generator] LLM failed, using template fallback:', error)
     
     // Fallback to simple template-based generation
     const { title, description, tone, duration } = options
@@ -0,0 +1,207 @@
+/**
+ * Smart Crop
+ *
+ * Fills a profile's frame by cropping footage instead of letterboxing it.
+ * The crop window is centered on the clip's focus point: a few frames are
+ * sampled at low resolution and the point where detail (edges of faces,
+ * subjects, text) concentrates is used, with a bias towards the center so
+ * flat or noisy footage still crops sensibly.
+ */
+
+import ffmpeg from 'fluent-ffmpeg'
+import type { CropMode } from './output-profiles'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Source size and focus point of a clip (focus is 0-1 across the frame)
+ */
+export interface ClipFraming {
+  width: number
+  height: number
+  focusX: number
+  focusY: number
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Resolution frames are analyzed at */
+const SAMPLE_SIZE = 48
+
+/** Number of frames sampled from videos (one per second) */
+const SAMPLE_FRAMES = 3
+
+/** How strongly the center is preferred over detail near the edges (0-1) */
+const CENTER_BIAS = 0.6
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function probeSize(filePath: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      if (err) {
+        reject(err)
+        return
+      }
+
+      const stream = metadata.streams.find(s => s.codec_type === 'video')
+      if (!stream?.width || !stream?.height) {
+        reject(new Error(`No video stream in ${filePath}`))
+        return
+      }
+
+      resolve({ width: stream.width, height: stream.height })
+    })
+  })
+}
+
+/**
+ * Decode a few frames as SAMPLE_SIZE x SAMPLE_SIZE grayscale pixels
+ */
+function sampleFrames(filePath: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+
+    const stream = ffmpeg(filePath)
+      .outputOptions([
+        '-vf', `fps=1,scale=${SAMPLE_SIZE}:${SAMPLE_SIZE},format=gray`,
+        '-frames:v', SAMPLE_FRAMES.toString(),
+        '-f', 'rawvideo',
+      ])
+      .on('error', reject)
+      .pipe()
+
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk))
+    stream.on('end', () => resolve(Buffer.concat(chunks)))
+    stream.on('error', reject)
+  })
+}
+
+/**
+ * Weighted center of the detail (gradient energy) in the sampled frames
+ */
+function findFocusPoint(pixels: Buffer): { x: number; y: number } {
+  const frameSize = SAMPLE_SIZE * SAMPLE_SIZE
+  const frames = Math.floor(pixels.length / frameSize)
+
+  let totalWeight = 0
+  let sumX = 0
+  let sumY = 0
+
+  for (let frame = 0; frame < frames; frame++) {
+    const offset = frame * frameSize
+
+    for (let y = 0; y < SAMPLE_SIZE - 1; y++) {
+      for (let x = 0; x < SAMPLE_SIZE - 1; x++) {
+        const i = offset + y * SAMPLE_SIZE + x
+        const energy = Math.abs(pixels[i + 1] - pixels[i]) + Math.abs(pixels[i + SAMPLE_SIZE] - pixels[i])
+
+        // Distance from the center, 0 (center) to 1 (corner)
+        const dx = (x + 0.5) / SAMPLE_SIZE - 0.5
+        const dy = (y + 0.5) / SAMPLE_SIZE - 0.5
+        const distance = Math.sqrt((dx * dx + dy * dy) * 2)
+
+        const weight = energy * energy * (1 - CENTER_BIAS * distance)
+        totalWeight += weight
+        sumX += weight * (x + 0.5)
+        sumY += weight * (y + 0.5)
+      }
+    }
+  }
+
+  if (totalWeight === 0) {
+    return { x: 0.5, y: 0.5 }
+  }
+
+  return {
+    x: sumX / totalWeight / SAMPLE_SIZE,
+    y: sumY / totalWeight / SAMPLE_SIZE,
+  }
+}
+
+function toEven(value: number): number {
+  return Math.max(2, Math.ceil(value / 2) * 2)
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Measure a clip and find its focus point
+ * Never throws: clips that cannot be analyzed are framed around the center
+ *
+ * @returns null if the clip's size cannot be read (center crop is used instead)
+ */
+export async function analyzeClipFraming(filePath: string): Promise<ClipFraming | null> {
+  try {
+    const size = await probeSize(filePath)
+
+    let focus = { x: 0.5, y: 0.5 }
+    try {
+      focus = findFocusPoint(await sampleFrames(filePath))
+    } catch (error) {
+      console.warn(`[Smart Crop] Could not analyze ${filePath}, using center:`, error)
+    }
+
+    console.log(`[Smart Crop] ${filePath}: ${size.width}x${size.height}, focus ${focus.x.toFixed(2)},${focus.y.toFixed(2)}`)
+    return { ...size, focusX: focus.x, focusY: focus.y }
+  } catch (error) {
+    console.warn(`[Smart Crop] Could not probe ${filePath}:`, error)
+    return null
+  }
+}
+
+/**
+ * FFmpeg video filters that fit a clip into width x height
+ *
+ * @param framing - Result of analyzeClipFraming() (smart mode only)
+ *
+ * @example
+ * ```typescript
+ * const framing = await analyzeClipFraming('/tmp/clip.mp4')
+ * command.videoFilters([...getFramingFilters(1080, 1350, 'smart', framing), 'fps=30'])
+ * ```
+ */
+export function getFramingFilters(
+  width: number,
+  height: number,
+  mode: CropMode,
+  framing?: ClipFraming | null
+): string[] {
+  if (mode === 'fit') {
+    return [
+      // Scale to fit within dimensions while maintaining aspect ratio
+      `scale=${width}:${height}:force_original_aspect_ratio=decrease`,
+      // Pad to exact dimensions with black background
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black`,
+    ]
+  }
+
+  if (mode === 'center' || !framing) {
+    // Fill the frame, then crop the overflow evenly (crop centers by default)
+    return [
+      `scale=${width}:${height}:force_original_aspect_ratio=increase`,
+      `crop=${width}:${height}`,
+    ]
+  }
+
+  // Fill the frame, then slide the crop window over the focus point
+  const scale = Math.max(width / framing.width, height / framing.height)
+  const scaledWidth = Math.max(width, toEven(framing.width * scale))
+  const scaledHeight = Math.max(height, toEven(framing.height * scale))
+
+  const x = Math.round(Math.min(Math.max(framing.focusX * scaledWidth - width / 2, 0), scaledWidth - width))
+  const y = Math.round(Math.min(Math.max(framing.focusY * scaledHeight - height / 2, 0), scaledHeight - height))
+
+  return [
+    `scale=${scaledWidth}:${scaledHeight}`,
+    `crop=${width}:${height}:${x}:${y}`,
+  ]
+}
@@ -9,11 +9,19 @@
  * - Stock footage friendly (Pexels, Unsplash)
  * - No copyrighted characters or brands
  * - Searchable visual descriptions
+ * 
+ * generateStoryboard() returns a typed Storyboard. The LLM is asked for JSON
+ * (structured output), which is validated and repaired before use; the
+ * readable document is produced separately by renderStoryboardText().
  */
 
-import OpenAI from 'openai'
+import { getLLMProvider, LLMJsonSchema, LLMProviderName } from './llm'
+
+// ============================================================================
+// Types
+// ============================================================================
 
-interface StoryboardScene {
+export interface StoryboardScene {
   sceneNumber: number
   timestamp: string
   description: string
@@ -22,27 +30,99 @@ interface StoryboardScene {
   duration: number
 }
 
-interface GenerateStoryboardInput {
+export interface Storyboard {
+  title: string
+  description: string
+  tone: string
+  /** Total video duration in seconds (scene durations add up to this) */
+  duration: number
+  scenes: StoryboardScene[]
+  /** Whether the scenes came from the LLM or the template library */
+  source: 'ai' | 'template'
+  generatedAt: string
+}
+
+export interface GenerateStoryboardInput {
   title: string
   description: string
   script: string
   tone: string
   duration: number
   sceneCount?: number
+  /** LLM provider to use (default: LLM_PROVIDER env, then openai) */
+  provider?: LLMProviderName
+  /** Model to use (default: the provider's default model) */
+  model?: string
 }
 
 /**
- * Generate storyboard using OpenAI (with fallback to template)
+ * Scene fields requested from the LLM (numbering and timestamps are derived)
  */
-export async function generateStoryboard(input: GenerateStoryboardInput): Promise<string> {
-  const { title, description, script, tone, duration, sceneCount = 8 } = input
+interface RawScene {
+  description: string
+  stockSearchTerms: string[]
+  visualNotes: string
+  duration: number
+}
 
-  // Try OpenAI first
-  if (process.env.OPENAI_API_KEY) {
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_SEARCH_TERMS = 5
+
+const STORYBOARD_SCHEMA: LLMJsonSchema = {
+  name: 'storyboard',
+  description: 'Storyboard scenes for a stock-footage video',
+  schema: {
+    type: 'object',
+    properties: {
+      scenes: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            description: { type: 'string' },
+            stockSearchTerms: { type: 'array', items: { type: 'string' } },
+            visualNotes: { type: 'string' },
+            duration: { type: 'number' },
+          },
+          required: ['description', 'stockSearchTerms', 'visualNotes', 'duration'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['scenes'],
+    additionalProperties: false,
+  },
+}
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Generate storyboard using the LLM provider (with fallback to template)
+ *
+ * @example
+ * ```typescript
+ * const storyboard = await generateStoryboard({
+ *   title: 'Atomic Habits',
+ *   description: 'Tiny changes, remarkable results',
+ *   script,
+ *   tone: 'Motivational',
+ *   duration: 30,
+ * })
+ * storyboard.scenes.forEach(scene => console.log(scene.stockSearchTerms))
+ * ```
+ */
+export async function generateStoryboard(input: GenerateStoryboardInput): Promise<Storyboard> {
+  // Try the LLM first
+  if (getLLMProvider(input.provider).isConfigured()) {
     try {
       return await generateStoryboardWithAI(input)
     } catch (error) {
-      console.warn('[Storyboard] OpenAI generation failed, using template fallback:', error)
+      console.warn('[Storyboard] LLM generation failed, using template fallback:', error)
     }
   }
 
@@ -51,14 +131,15 @@ export async function generateStoryboard(input: GenerateStoryboardInput): Promis
 }
 
 /**
- * Generate storyboard with OpenAI
+ * Generate storyboard with the LLM provider
+ *
+ * The response is validated; minor problems (numbering, durations, missing
+ * notes) are fixed locally, anything else is sent back once for repair.
  */
-async function generateStoryboardWithAI(input: GenerateStoryboardInput): Promise<string> {
+async function generateStoryboardWithAI(input: GenerateStoryboardInput): Promise<Storyboard> {
   const { title, description, script, tone, duration, sceneCount = 8 } = input
 
-  const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  })
+  const llm = getLLMProvider(input.provider)
 
   const prompt = `Create a storyboard with ${sceneCount} visual scenes for a ${duration}-second motivational video about "${title}".
 
@@ -75,62 +156,91 @@ CRITICAL REQUIREMENTS:
 ✓ Optimize for Pexels/Unsplash search terms
 
 For each scene, provide:
-1. Scene number
-2. Timestamp (format: 00:00-00:05)
-3. Generic visual description (stock footage friendly)
-4. Stock search terms (3-5 keywords for finding footage)
-5. Shot notes (camera angles, text overlays)
+- description: generic visual description (stock footage friendly)
+- stockSearchTerms: 3-5 keywords for finding footage
+- visualNotes: shot notes (camera angles, text overlays)
+- duration: scene length in seconds (all scenes add up to ${duration})
 
 Make it engaging, visual, and optimized for short-form video (TikTok/Reels/Shorts).
 
-Format each scene as:
-SCENE [number]: [timestamp]
-VISUAL: [generic stock-friendly description]
-STOCK SEARCH: [keyword1, keyword2, keyword3]
-NOTES: [shot notes]
----`
+Respond with JSON only, in this shape:
+{"scenes": [{"description": "...", "stockSearchTerms": ["..."], "visualNotes": "...", "duration": 4}]}`
 
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4-turbo-preview',
-    messages: [
-      {
-        role: 'system',
-        content: 'You are a professional video storyboard artist specializing in stock footage sourcing. You create generic, copyright-free visual descriptions optimized for stock video platforms.',
-      },
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
+  const messages = [
+    {
+      role: 'system' as const,
+      content: 'You are a professional video storyboard artist specializing in stock footage sourcing. You create generic, copyright-free visual descriptions optimized for stock video platforms. You always answer with valid JSON.',
+    },
+    {
+      role: 'user' as const,
+      content: prompt,
+    },
+  ]
+
+  const response = await llm.complete({
+    model: input.model,
+    messages,
+    jsonSchema: STORYBOARD_SCHEMA,
     temperature: 0.7,
-    max_tokens: 1500,
+    maxTokens: 1500,
   })
 
-  const storyboard = response.choices[0]?.message?.content || ''
-  
-  if (!storyboard || storyboard.length < 50) {
-    throw new Error('OpenAI returned invalid storyboard')
+  let parsed = parseStoryboardJson(response.text)
+
+  if (parsed.errors.length > 0) {
+    console.warn('[Storyboard] Invalid storyboard JSON, asking for repair:', parsed.errors)
+
+    const repaired = await llm.complete({
+      model: input.model,
+      messages: [
+        ...messages,
+        { role: 'assistant', content: response.text },
+        {
+          role: 'user',
+          content: `That storyboard is invalid:\n${parsed.errors.map(e => `- ${e}`).join('\n')}\n\nReturn the corrected storyboard as JSON only.`,
+        },
+      ],
+      jsonSchema: STORYBOARD_SCHEMA,
+      temperature: 0.2,
+      maxTokens: 1500,
+    })
+
+    parsed = parseStoryboardJson(repaired.text)
   }
 
-  return formatStoryboard(title, description, tone, duration, storyboard)
+  if (parsed.errors.length > 0) {
+    throw new Error(`${llm.label} returned invalid storyboard: ${parsed.errors.join('; ')}`)
+  }
+
+  console.log(`[Storyboard] Generated ${parsed.scenes.length} scenes with ${llm.label}`)
+
+  return {
+    title,
+    description,
+    tone,
+    duration,
+    scenes: buildScenes(parsed.scenes, duration, tone),
+    source: 'ai',
+    generatedAt: new Date().toISOString(),
+  }
 }
 
 /**
  * Generate storyboard with template (fallback)
  * Uses pre-defined stock footage descriptions
  */
-function generateStoryboardTemplate(input: GenerateStoryboardInput): Promise<string> {
+function generateStoryboardTemplate(input: GenerateStoryboardInput): Storyboard {
   const { title, description, script, tone, duration, sceneCount = 8 } = input
 
   // Split script into roughly equal parts
   const sentences = script.split(/[.!?\n]+/).filter(s => s.trim().length > 0)
-  const scenesToCreate = Math.min(sceneCount, sentences.length)
+  const scenesToCreate = Math.max(1, Math.min(sceneCount, sentences.length))
   
   const scenes: StoryboardScene[] = []
   const sceneDuration = duration / scenesToCreate
 
   for (let i = 0; i < scenesToCreate; i++) {
-    const sceneText = sentences[i] || sentences[sentences.length - 1]
+    const sceneText = sentences[i] || sentences[sentences.length - 1] || title
     
     const startTime = i * sceneDuration
     const endTime = (i + 1) * sceneDuration
@@ -148,9 +258,125 @@ function generateStoryboardTemplate(input: GenerateStoryboardInput): Promise<str
     })
   }
 
-  return Promise.resolve(formatStoryboardFromScenes(title, description, tone, duration, scenes))
+  return {
+    title,
+    description,
+    tone,
+    duration,
+    scenes,
+    source: 'template',
+    generatedAt: new Date().toISOString(),
+  }
 }
 
+// ============================================================================
+// Validation & Repair
+// ============================================================================
+
+/**
+ * Parse and validate the LLM's storyboard JSON
+ *
+ * Tolerates code fences and surrounding prose. Returns the usable scenes and
+ * a list of problems that need the model to fix them.
+ */
+function parseStoryboardJson(text: string): { scenes: RawScene[]; errors: string[] } {
+  const errors: string[] = []
+
+  // Strip ```json fences and anything outside the outermost object
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  if (start === -1 || end <= start) {
+    return { scenes: [], errors: ['Response does not contain a JSON object'] }
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(text.slice(start, end + 1))
+  } catch (error) {
+    return {
+      scenes: [],
+      errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`],
+    }
+  }
+
+  const rawScenes = (data as { scenes?: unknown })?.scenes
+  if (!Array.isArray(rawScenes) || rawScenes.length === 0) {
+    return { scenes: [], errors: ['"scenes" must be a non-empty array'] }
+  }
+
+  const scenes: RawScene[] = []
+
+  rawScenes.forEach((item, index) => {
+    const scene = (item ?? {}) as Record<string, unknown>
+    const label = `Scene ${index + 1}`
+
+    const description = typeof scene.description === 'string' ? scene.description.trim() : ''
+    if (!description) {
+      errors.push(`${label} is missing "description"`)
+      return
+    }
+
+    // Accept "a, b, c" as well as ["a", "b", "c"]
+    const rawTerms = typeof scene.stockSearchTerms === 'string'
+      ? scene.stockSearchTerms.split(',')
+      : Array.isArray(scene.stockSearchTerms) ? scene.stockSearchTerms : []
+    const stockSearchTerms = rawTerms
+      .filter((term): term is string => typeof term === 'string')
+      .map(term => term.trim())
+      .filter(term => term.length > 0)
+      .slice(0, MAX_SEARCH_TERMS)
+
+    if (stockSearchTerms.length === 0) {
+      errors.push(`${label} has no "stockSearchTerms"`)
+      return
+    }
+
+    scenes.push({
+      description,
+      stockSearchTerms,
+      visualNotes: typeof scene.visualNotes === 'string' ? scene.visualNotes.trim() : '',
+      duration: typeof scene.duration === 'number' && scene.duration > 0 ? scene.duration : 0,
+    })
+  })
+
+  return { scenes, errors }
+}
+
+/**
+ * Number the scenes, fit their durations to the video length and
+ * derive timestamps
+ */
+function buildScenes(rawScenes: RawScene[], totalDuration: number, tone: string): StoryboardScene[] {
+  const total = rawScenes.length
+  const requested = rawScenes.reduce((sum, scene) => sum + scene.duration, 0)
+  const allTimed = rawScenes.every(scene => scene.duration > 0)
+
+  let elapsed = 0
+
+  return rawScenes.map((scene, index) => {
+    // Scale the model's durations to the real length, or split evenly
+    const duration = allTimed
+      ? (scene.duration / requested) * totalDuration
+      : totalDuration / total
+
+    const startTime = elapsed
+    elapsed += duration
+
+    return {
+      sceneNumber: index + 1,
+      timestamp: formatTimestamp(startTime, elapsed),
+      description: scene.description,
+      stockSearchTerms: scene.stockSearchTerms,
+      visualNotes: scene.visualNotes || generateVisualNotes(tone, index, total),
+      duration,
+    }
+  })
+}
+
+// ============================================================================
+// Template Library
+// ============================================================================
+
 /**
  * Stock footage descriptions optimized for motivational content
  * All descriptions are generic, copyright-free, and searchable
@@ -326,16 +552,27 @@ function formatTimestamp(startSeconds: number, endSeconds: number): string {
   return `${formatTime(startSeconds)}-${formatTime(endSeconds)}`
 }
 
+// ============================================================================
+// Text Rendering
+// ============================================================================
+
 /**
- * Format storyboard as readable text file
+ * Render a storyboard as the readable text document shipped in the
+ * CapCut package (storyboard.txt)
  */
-function formatStoryboard(
-  title: string,
-  description: string,
-  tone: string,
-  duration: number,
-  content: string
-): string {
+export function renderStoryboardText(storyboard: Storyboard): string {
+  const { title, description, tone, duration, scenes } = storyboard
+
+  const sceneContent = scenes
+    .map(scene => {
+      return `SCENE ${scene.sceneNumber}: ${scene.timestamp}
+VISUAL: ${scene.description}
+STOCK SEARCH: ${scene.stockSearchTerms.join(', ')}
+NOTES: ${scene.visualNotes}
+---`
+    })
+    .join('\n\n')
+
   return `╔═══════════════════════════════════════════════════════════════════╗
 ║                      VIDEO STORYBOARD                             ║
 ║                 Stock Footage Optimized                           ║
@@ -347,13 +584,13 @@ TONE: ${tone}
 DURATION: ${duration} seconds
 FORMAT: Vertical (9:16) for TikTok/Reels/Shorts
 
-Generated: ${new Date().toLocaleString()}
+Generated: ${new Date(storyboard.generatedAt).toLocaleString()}
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 SCENES:
 
-${content}
+${sceneContent}
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
@@ -455,27 +692,3 @@ Happy editing! 🎥
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 `
 }
-
-/**
- * Format storyboard from scene objects
- */
-function formatStoryboardFromScenes(
-  title: string,
-  description: string,
-  tone: string,
-  duration: number,
-  scenes: StoryboardScene[]
-): string {
-  const sceneContent = scenes
-    .map(scene => {
-      return `SCENE ${scene.sceneNumber}: ${scene.timestamp}
-VISUAL: ${scene.description}
-STOCK SEARCH: ${scene.stockSearchTerms.join(', ')}
-NOTES: ${scene.visualNotes}
----`
-    })
-    .join('\n\n')
-
-  return formatStoryboard(title, description, tone, duration, sceneContent)
-}
-
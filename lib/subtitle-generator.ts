@@ -6,11 +6,14 @@
  * 
  * Rules:
  * - Each caption max 2 lines
- * - Captions synced evenly across narration duration
+ * - Captions synced to word timestamps from the voiceover when available,
+ *   otherwise spread evenly across narration duration
  * - Uses script sentences as captions
  * - Starts from 00:00:00,000
  */
 
+import { WordTiming, matchWordTimings } from './word-timing'
+
 interface SubtitleSegment {
   index: number
   startTime: string
@@ -96,16 +99,60 @@ function parseScriptSentences(script: string): string[] {
 }
 
 /**
- * Generate SRT subtitle file content with even timing distribution
+ * Build caption timing from real word start/end times
+ * Each sentence runs from its first word's start to its last word's end
+ */
+function buildAlignedSegments(
+  sentences: string[],
+  wordTimings: WordTiming[],
+  totalDuration: number
+): SubtitleSegment[] | null {
+  const sentenceWords = sentences.map(sentence => sentence.split(/\s+/).filter(w => w.length > 0))
+  const timings = matchWordTimings(sentenceWords.flat(), wordTimings)
+
+  if (!timings) {
+    return null
+  }
+
+  const subtitleSegments: SubtitleSegment[] = []
+  let offset = 0
+
+  sentences.forEach((sentence, index) => {
+    const count = sentenceWords[index].length
+    const first = timings[offset]
+    const last = timings[offset + count - 1]
+    offset += count
+
+    const startTime = Math.min(first.start, totalDuration)
+    const endTime = Math.min(Math.max(last.end, startTime), totalDuration)
+
+    const lines = splitIntoTwoLines(sentence)
+
+    subtitleSegments.push({
+      index: index + 1,
+      startTime: formatSRTTimestamp(startTime),
+      endTime: formatSRTTimestamp(endTime),
+      text: lines.join('\n'),
+      lines: lines,
+    })
+  })
+
+  return subtitleSegments
+}
+
+/**
+ * Generate SRT subtitle file content
  * 
  * Requirements:
  * - Each caption max 2 lines
- * - Captions synced evenly across narration duration
+ * - Captions synced to word timings when provided, otherwise
+ *   evenly across narration duration
  * - Uses script sentences as captions
  * - Starts from 00:00:00,000
  * 
  * @param script - The full script text
  * @param totalDuration - Total duration in seconds (required for proper sync)
+ * @param wordTimings - Optional word timings from the voiceover alignment
  * @returns SRT formatted subtitle string
  * 
  * @example
@@ -121,7 +168,11 @@ function parseScriptSentences(script: string): string[] {
  * // Start with small habits.
  * ```
  */
-export function generateSubtitles(script: string, totalDuration: number): string {
+export function generateSubtitles(
+  script: string,
+  totalDuration: number,
+  wordTimings?: WordTiming[]
+): string {
   // Validation
   if (!script || script.trim().length === 0) {
     throw new Error('Script is required for subtitle generation')
@@ -138,6 +189,14 @@ export function generateSubtitles(script: string, totalDuration: number): string
     throw new Error('Could not parse any sentences from script')
   }
 
+  // Prefer real word timings from the narration
+  if (wordTimings && wordTimings.length > 0) {
+    const alignedSegments = buildAlignedSegments(sentences, wordTimings, totalDuration)
+    if (alignedSegments) {
+      return formatSRT(alignedSegments)
+    }
+  }
+
   // Calculate even distribution of time across all sentences
   const segmentCount = sentences.length
   const segmentDuration = totalDuration / segmentCount
@@ -169,7 +228,13 @@ export function generateSubtitles(script: string, totalDuration: number): string
     currentTime = endTime
   })
 
-  // Generate SRT format
+  return formatSRT(subtitleSegments)
+}
+
+/**
+ * Serialize subtitle segments to SRT format
+ */
+function formatSRT(subtitleSegments: SubtitleSegment[]): string {
   return subtitleSegments
     .map(segment => {
       return `${segment.index}\n${segment.startTime} --> ${segment.endTime}\n${segment.text}\n`
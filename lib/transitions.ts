@@ -0,0 +1,147 @@
+/**
+ * Transitions and Motion
+ *
+ * FFmpeg filter builders for what happens between and within clips:
+ * - Transitions between clips using the xfade filter (crossfade, slide, zoom...)
+ * - Ken Burns pan/zoom on still images using the zoompan filter
+ *
+ * Transitions overlap neighbouring clips, so every clip except the last is
+ * rendered longer by the transition duration. Each transition then starts
+ * exactly at its scene boundary and the total length is unchanged.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TransitionType = 'cut' | 'fade' | 'dissolve' | 'slide' | 'wipe' | 'zoom'
+
+type KenBurnsMove = 'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const TRANSITION_TYPES: TransitionType[] = ['cut', 'fade', 'dissolve', 'slide', 'wipe', 'zoom']
+
+/** xfade transition used for each type (see ffmpeg -h filter=xfade) */
+const XFADE_TRANSITIONS: Record<Exclude<TransitionType, 'cut'>, string> = {
+  fade: 'fade',
+  dissolve: 'dissolve',
+  slide: 'slideleft',
+  wipe: 'wipeleft',
+  zoom: 'zoomin',
+}
+
+/** Stills alternate between these moves so consecutive images differ */
+const KEN_BURNS_MOVES: KenBurnsMove[] = ['zoom-in', 'pan-right', 'zoom-out', 'pan-left']
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export function isTransitionType(value: unknown): value is TransitionType {
+  return typeof value === 'string' && TRANSITION_TYPES.includes(value as TransitionType)
+}
+
+/**
+ * Transition length that fits between the given clips
+ * (at most half of the shortest clip, 0 for hard cuts)
+ */
+export function getTransitionDuration(
+  type: TransitionType,
+  requested: number,
+  clipDurations: number[]
+): number {
+  if (type === 'cut' || clipDurations.length < 2 || requested <= 0) {
+    return 0
+  }
+
+  return Math.min(requested, Math.min(...clipDurations) / 2)
+}
+
+/**
+ * zoompan filter that slowly moves over a still image
+ *
+ * @param index - Clip position (picks the move, so neighbours differ)
+ * @param zoom - Extra zoom over the clip, e.g. 0.1 = 10%
+ *
+ * @example
+ * ```typescript
+ * buildKenBurnsFilter(0, 5, 1080, 1920, 30, 0.1)
+ * // "zoompan=z='1+0.1*on/150':x='iw/2-iw/zoom/2':y='ih/2-ih/zoom/2':d=1:s=1080x1920:fps=30"
+ * ```
+ */
+export function buildKenBurnsFilter(
+  index: number,
+  duration: number,
+  width: number,
+  height: number,
+  fps: number,
+  zoom: number
+): string {
+  const frames = Math.max(1, Math.round(duration * fps))
+  const progress = `on/${frames}`
+  const centerX = 'iw/2-iw/zoom/2'
+  const centerY = 'ih/2-ih/zoom/2'
+
+  // Input is the looped still, so each input frame makes one output frame (d=1)
+  const zoompan = (z: string, x: string, y: string) =>
+    `zoompan=z='${z}':x='${x}':y='${y}':d=1:s=${width}x${height}:fps=${fps}`
+
+  switch (KEN_BURNS_MOVES[index % KEN_BURNS_MOVES.length]) {
+    case 'zoom-in':
+      return zoompan(`1+${zoom}*${progress}`, centerX, centerY)
+    case 'zoom-out':
+      return zoompan(`1+${zoom}*(1-${progress})`, centerX, centerY)
+    case 'pan-right':
+      return zoompan(`1+${zoom}`, `(iw-iw/zoom)*${progress}`, centerY)
+    case 'pan-left':
+      return zoompan(`1+${zoom}`, `(iw-iw/zoom)*(1-${progress})`, centerY)
+  }
+}
+
+/**
+ * Filters joining clip inputs 0..n-1 into one video stream
+ * Hard cuts use the concat filter; other types chain xfade between clips.
+ *
+ * @param clipDurations - On-screen time of each clip (excluding transition overlap)
+ * @param output - Label of the joined stream
+ */
+export function buildTransitionFilters(
+  clipDurations: number[],
+  type: TransitionType,
+  transitionDuration: number,
+  output: string
+): string[] {
+  const count = clipDurations.length
+
+  // Same timebase on every input (xfade requires it)
+  const filters = clipDurations.map((_, i) => `[${i}:v]settb=AVTB,setpts=PTS-STARTPTS[c${i}]`)
+
+  if (count === 1) {
+    return [...filters, `[c0]null[${output}]`]
+  }
+
+  if (type === 'cut' || transitionDuration <= 0) {
+    const inputs = clipDurations.map((_, i) => `[c${i}]`).join('')
+    return [...filters, `${inputs}concat=n=${count}:v=1:a=0[${output}]`]
+  }
+
+  // Each transition starts at its scene boundary
+  let offset = 0
+  let previous = 'c0'
+
+  for (let i = 1; i < count; i++) {
+    offset += clipDurations[i - 1]
+    const label = i === count - 1 ? output : `x${i}`
+
+    filters.push(
+      `[${previous}][c${i}]xfade=transition=${XFADE_TRANSITIONS[type]}:` +
+      `duration=${transitionDuration.toFixed(3)}:offset=${offset.toFixed(3)}[${label}]`
+    )
+    previous = label
+  }
+
+  return filters
+}
@@ -0,0 +1,274 @@
+/**
+ * Bestseller Trends
+ *
+ * Scores how books are moving on the NYT lists using the weekly rank
+ * history in BookRankSnapshot (see lib/bestseller-scheduler.ts):
+ *
+ * - Rank change over the window (or NYT's "rank last week" when there is
+ *   only one snapshot)
+ * - New entries (on the list for no longer than the window)
+ * - Weeks on list (long-running books slowly lose trend weight)
+ * - Ratings velocity (Google Books ratings gained per week, when known)
+ *
+ * Books are grouped per genre into rising, new and falling.
+ */
+
+import { Book, BookRankSnapshot } from '@prisma/client'
+import { prisma } from './db'
+import { availableGenres, genreToNYTList } from './nyt'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TrendDirection = 'rising' | 'new' | 'falling' | 'steady'
+
+export interface TrendSignals {
+  rank: number
+  /** Positions gained over the window (negative = dropped), null for new entries */
+  rankChange: number | null
+  weeksOnList: number
+  isNew: boolean
+  /** Google Books ratings gained per week, null when not tracked */
+  ratingsVelocity: number | null
+}
+
+export interface TrendingBook extends TrendSignals {
+  id: number
+  title: string
+  author: string
+  genre: string
+  isbn13: string | null
+  /** NYT list blurb */
+  description: string | null
+  coverImage: string | null
+  trendScore: number
+  direction: TrendDirection
+}
+
+export interface GenreTrends {
+  genre: string
+  list: string
+  /** Published date of the latest list (YYYY-MM-DD), null when there is no history */
+  listDate: string | null
+  rising: TrendingBook[]
+  new: TrendingBook[]
+  falling: TrendingBook[]
+}
+
+export interface TrendOptions {
+  /** Window to measure movement over (default: 7) */
+  days?: number
+  /** Books per category (default: 5) */
+  limit?: number
+}
+
+type SnapshotWithBook = BookRankSnapshot & { book: Book }
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_TREND_DAYS = 7
+export const MAX_TREND_DAYS = 365
+export const DEFAULT_TREND_LIMIT = 5
+
+/** NYT lists have 15 entries (some have 10) */
+const LIST_SIZE = 15
+
+const TREND_WEIGHTS = {
+  /** Per position gained */
+  rankChange: 3,
+  /** Bonus for entering the list within the window */
+  newEntry: 12,
+  /** Per position above the bottom of the list */
+  position: 0.5,
+  /** Penalty per week on the list beyond the grace period */
+  longevity: 0.5,
+  longevityGraceWeeks: 4,
+  maxLongevityPenalty: 8,
+  /** Multiplier for log10(1 + ratings gained per week) */
+  ratingsVelocity: 4,
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Combine the movement signals into a single trend score
+ * Higher is hotter; books dropping down the list score below zero.
+ *
+ * @example
+ * ```typescript
+ * computeTrendScore({ rank: 2, rankChange: 6, weeksOnList: 3, isNew: false, ratingsVelocity: 120 })
+ * // 18 + 7 + 8.3 = 33.3
+ * ```
+ */
+export function computeTrendScore(signals: TrendSignals): number {
+  const w = TREND_WEIGHTS
+  let score = 0
+
+  score += (signals.rankChange ?? 0) * w.rankChange
+  score += signals.isNew ? w.newEntry : 0
+  score += Math.max(0, LIST_SIZE + 1 - signals.rank) * w.position
+  score -= Math.min(
+    w.maxLongevityPenalty,
+    Math.max(0, signals.weeksOnList - w.longevityGraceWeeks) * w.longevity
+  )
+
+  if (signals.ratingsVelocity !== null && signals.ratingsVelocity > 0) {
+    score += Math.log10(1 + signals.ratingsVelocity) * w.ratingsVelocity
+  }
+
+  return Math.round(score * 10) / 10
+}
+
+/**
+ * Classify a book's movement for grouping
+ */
+export function getTrendDirection(signals: TrendSignals): TrendDirection {
+  if (signals.isNew) return 'new'
+  if (signals.rankChange !== null && signals.rankChange > 0) return 'rising'
+  if (signals.rankChange !== null && signals.rankChange < 0) return 'falling'
+  return 'steady'
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Trend signals for one book from its snapshots in the window (oldest first)
+ */
+function getSignals(history: BookRankSnapshot[], days: number): TrendSignals {
+  const latest = history[history.length - 1]
+  const earliest = history[0]
+  const windowWeeks = Math.max(1, Math.round(days / 7))
+
+  const isNew = latest.weeksOnList > 0 && latest.weeksOnList <= windowWeeks
+
+  let rankChange: number | null = null
+  if (!isNew && history.length > 1) {
+    rankChange = earliest.rank - latest.rank
+  } else if (!isNew && latest.rankLastWeek !== null) {
+    rankChange = latest.rankLastWeek - latest.rank
+  }
+
+  let ratingsVelocity: number | null = null
+  const rated = history.filter(snapshot => snapshot.ratingsCount !== null)
+  if (rated.length > 1) {
+    const first = rated[0]
+    const last = rated[rated.length - 1]
+    const weeks = (last.listDate.getTime() - first.listDate.getTime()) / (7 * DAY_MS)
+    if (weeks > 0) {
+      ratingsVelocity = Math.round(((last.ratingsCount ?? 0) - (first.ratingsCount ?? 0)) / weeks)
+    }
+  }
+
+  return {
+    rank: latest.rank,
+    rankChange,
+    weeksOnList: latest.weeksOnList,
+    isNew,
+    ratingsVelocity,
+  }
+}
+
+/**
+ * Trends for one genre's list
+ */
+async function getGenreTrends(genre: string, days: number, limit: number): Promise<GenreTrends> {
+  const list = genreToNYTList[genre]
+  const empty: GenreTrends = { genre, list, listDate: null, rising: [], new: [], falling: [] }
+
+  const latest = await prisma.bookRankSnapshot.findFirst({
+    where: { list },
+    orderBy: { listDate: 'desc' },
+    select: { listDate: true },
+  })
+
+  if (!latest) {
+    return empty
+  }
+
+  const snapshots: SnapshotWithBook[] = await prisma.bookRankSnapshot.findMany({
+    where: {
+      list,
+      listDate: { gte: new Date(latest.listDate.getTime() - days * DAY_MS) },
+    },
+    include: { book: true },
+    orderBy: { listDate: 'asc' },
+  })
+
+  // Group by book, keeping only books on the latest list
+  const histories = new Map<number, SnapshotWithBook[]>()
+  for (const snapshot of snapshots) {
+    const history = histories.get(snapshot.bookId) ?? []
+    history.push(snapshot)
+    histories.set(snapshot.bookId, history)
+  }
+
+  const books: TrendingBook[] = []
+  histories.forEach((history) => {
+    const current = history[history.length - 1]
+    if (current.listDate.getTime() !== latest.listDate.getTime()) {
+      return
+    }
+
+    const signals = getSignals(history, days)
+    books.push({
+      id: current.book.id,
+      title: current.book.book_title,
+      author: current.book.author,
+      genre,
+      isbn13: current.book.primary_isbn13,
+      description: current.book.description,
+      coverImage: current.book.book_image,
+      ...signals,
+      trendScore: computeTrendScore(signals),
+      direction: getTrendDirection(signals),
+    })
+  })
+
+  const byScore = (a: TrendingBook, b: TrendingBook) => b.trendScore - a.trendScore
+
+  return {
+    ...empty,
+    listDate: latest.listDate.toISOString().slice(0, 10),
+    rising: books.filter(book => book.direction === 'rising').sort(byScore).slice(0, limit),
+    new: books.filter(book => book.direction === 'new').sort(byScore).slice(0, limit),
+    // Biggest drops first
+    falling: books
+      .filter(book => book.direction === 'falling')
+      .sort((a, b) => (a.rankChange ?? 0) - (b.rankChange ?? 0) || a.trendScore - b.trendScore)
+      .slice(0, limit),
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Rising, new and falling books per genre
+ *
+ * @param genres - Genres to include (default: all NYT genres)
+ *
+ * @example
+ * ```typescript
+ * const [fiction] = await getTrendingBooks(['Fiction'], { days: 14 })
+ * fiction.rising[0] // { title: '...', rankChange: 5, trendScore: 24.5, ... }
+ * ```
+ */
+export async function getTrendingBooks(
+  genres: string[] = availableGenres,
+  options: TrendOptions = {}
+): Promise<GenreTrends[]> {
+  const days = options.days ?? DEFAULT_TREND_DAYS
+  const limit = options.limit ?? DEFAULT_TREND_LIMIT
+
+  return Promise.all(genres.map(genre => getGenreTrends(genre, days, limit)))
+}
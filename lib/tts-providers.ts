@@ -0,0 +1,256 @@
+/**
+ * Additional Text-to-Speech Providers
+ *
+ * Non-ElevenLabs engines used by generateVoice() (see lib/voice.ts):
+ * - openai: OpenAI TTS (/v1/audio/speech)
+ * - local: Piper or espeak-ng run as a subprocess, so audio can be
+ *   produced without network access (dev machines, CI)
+ *
+ * Environment Variables:
+ * - OPENAI_API_KEY, OPENAI_TTS_MODEL: OpenAI credentials and model (default: tts-1)
+ * - LOCAL_TTS_ENGINE: Enables the local provider (piper | espeak-ng)
+ * - PIPER_BIN, PIPER_MODEL: Piper executable (default: piper) and .onnx voice model
+ * - ESPEAK_BIN, ESPEAK_VOICE: espeak-ng executable (default: espeak-ng) and voice (default: en-us)
+ *
+ * @see https://platform.openai.com/docs/api-reference/audio/createSpeech
+ * @see https://github.com/rhasspy/piper
+ * @see https://github.com/espeak-ng/espeak-ng
+ */
+
+import OpenAI from 'openai'
+import ffmpeg from 'fluent-ffmpeg'
+import { spawn } from 'child_process'
+import { readFile, mkdir, unlink } from 'fs/promises'
+import { existsSync } from 'fs'
+import path from 'path'
+import os from 'os'
+import { randomUUID } from 'crypto'
+import type { TTSOutput, TTSProvider, TTSRequest, VoiceTone } from './voice'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type OpenAIVoice = 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer'
+
+type LocalEngine = 'piper' | 'espeak-ng'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_OPENAI_TTS_MODEL = 'tts-1'
+
+const OPENAI_VOICES: OpenAIVoice[] = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer']
+
+const OPENAI_TONE_VOICES: Record<VoiceTone, OpenAIVoice> = {
+  motivational: 'onyx',
+  energetic: 'echo',
+  narrative: 'fable',
+  professional: 'alloy',
+  calm: 'nova',
+}
+
+/** espeak-ng speaking rate (words per minute) by tone */
+const ESPEAK_TONE_RATES: Record<VoiceTone, number> = {
+  motivational: 170,
+  energetic: 185,
+  narrative: 160,
+  professional: 165,
+  calm: 145,
+}
+
+const LOCAL_TTS_TIMEOUT_MS = 120 * 1000
+const TEMP_DIR = path.join(os.tmpdir(), 'mindshelf-tts')
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Run a TTS command with the text on stdin
+ * @throws Error if the executable is missing, fails, or times out
+ */
+function runCommand(bin: string, args: string[], text: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(bin, args, { stdio: ['pipe', 'ignore', 'pipe'] })
+    let stderr = ''
+
+    const timer = setTimeout(() => {
+      child.kill()
+      reject(new Error(`${bin} timed out after ${LOCAL_TTS_TIMEOUT_MS / 1000}s`))
+    }, LOCAL_TTS_TIMEOUT_MS)
+
+    child.stderr.on('data', (chunk) => {
+      stderr += chunk.toString()
+    })
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer)
+      reject(
+        error.code === 'ENOENT'
+          ? new Error(`${bin} is not installed or not on PATH. Install it or update LOCAL_TTS_ENGINE.`)
+          : error
+      )
+    })
+
+    child.on('close', (code) => {
+      clearTimeout(timer)
+      if (code === 0) {
+        resolve()
+      } else {
+        reject(new Error(`${bin} exited with code ${code}: ${stderr.trim().slice(0, 300)}`))
+      }
+    })
+
+    child.stdin.end(text)
+  })
+}
+
+/**
+ * Encode a WAV file as MP3 so every provider returns the same format
+ */
+function convertToMp3(inputPath: string, outputPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(inputPath)
+      .audioCodec('libmp3lame')
+      .audioBitrate('128k')
+      .output(outputPath)
+      .on('end', () => resolve())
+      .on('error', reject)
+      .run()
+  })
+}
+
+/**
+ * Resolve which local engine to run
+ */
+function getLocalEngine(): LocalEngine {
+  const engine = process.env.LOCAL_TTS_ENGINE?.trim().toLowerCase()
+  return engine === 'piper' ? 'piper' : 'espeak-ng'
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+export const openaiTTSProvider: TTSProvider = {
+  name: 'openai',
+  label: 'OpenAI TTS',
+  isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+  async synthesize(request: TTSRequest): Promise<TTSOutput> {
+    const apiKey = process.env.OPENAI_API_KEY
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY is not configured. Add it to your .env.local file.')
+    }
+
+    const model = process.env.OPENAI_TTS_MODEL || DEFAULT_OPENAI_TTS_MODEL
+    const voice = OPENAI_VOICES.includes(request.voiceId as OpenAIVoice)
+      ? request.voiceId as OpenAIVoice
+      : OPENAI_TONE_VOICES[request.tone]
+
+    console.log(`[Voice] OpenAI TTS: voice "${voice}", model ${model}`)
+
+    try {
+      const client = new OpenAI({ apiKey })
+      const response = await client.audio.speech.create({
+        model,
+        voice,
+        input: request.text,
+        response_format: 'mp3',
+      })
+
+      return {
+        audioBuffer: Buffer.from(await response.arrayBuffer()),
+        contentType: 'audio/mpeg',
+        voiceId: voice,
+        voiceName: voice,
+        modelUsed: model,
+      }
+    } catch (error) {
+      if (error instanceof OpenAI.APIError) {
+        if (error.status === 401) {
+          throw new Error('Authentication failed. Your OPENAI_API_KEY is invalid (401).')
+        }
+        if (error.status === 429) {
+          throw new Error('Rate limit exceeded for OpenAI TTS (429). Please try again in a moment.')
+        }
+        throw new Error(`OpenAI TTS error (${error.status}): ${error.message}`)
+      }
+      throw error
+    }
+  },
+}
+
+export const localTTSProvider: TTSProvider = {
+  name: 'local',
+  label: 'Local TTS',
+  isConfigured: () => Boolean(process.env.LOCAL_TTS_ENGINE),
+  async synthesize(request: TTSRequest): Promise<TTSOutput> {
+    const engine = getLocalEngine()
+
+    if (!existsSync(TEMP_DIR)) {
+      await mkdir(TEMP_DIR, { recursive: true })
+    }
+
+    const id = randomUUID()
+    const wavPath = path.join(TEMP_DIR, `${id}.wav`)
+    const mp3Path = path.join(TEMP_DIR, `${id}.mp3`)
+
+    let bin: string
+    let voiceName: string
+
+    if (engine === 'piper') {
+      const model = process.env.PIPER_MODEL
+      if (!model) {
+        throw new Error('PIPER_MODEL is not configured. Set it to a Piper .onnx voice model path.')
+      }
+      bin = process.env.PIPER_BIN || 'piper'
+      voiceName = path.basename(model, '.onnx')
+    } else {
+      bin = process.env.ESPEAK_BIN || 'espeak-ng'
+      voiceName = process.env.ESPEAK_VOICE || 'en-us'
+    }
+
+    console.log(`[Voice] Local TTS: ${engine} (${voiceName})`)
+
+    try {
+      if (engine === 'piper') {
+        await runCommand(bin, ['--model', process.env.PIPER_MODEL as string, '--output_file', wavPath], request.text)
+      } else {
+        await runCommand(
+          bin,
+          ['-v', voiceName, '-s', String(ESPEAK_TONE_RATES[request.tone]), '-w', wavPath, '--stdin'],
+          request.text
+        )
+      }
+
+      // Prefer MP3 like the hosted providers; fall back to the raw WAV
+      try {
+        await convertToMp3(wavPath, mp3Path)
+        return {
+          audioBuffer: await readFile(mp3Path),
+          contentType: 'audio/mpeg',
+          voiceId: voiceName,
+          voiceName,
+          modelUsed: engine,
+        }
+      } catch (error) {
+        console.warn('[Voice] MP3 conversion failed, returning WAV:', error)
+        return {
+          audioBuffer: await readFile(wavPath),
+          contentType: 'audio/wav',
+          voiceId: voiceName,
+          voiceName,
+          modelUsed: engine,
+        }
+      }
+    } finally {
+      for (const file of [wavPath, mp3Path]) {
+        await unlink(file).catch(() => {
+          // Ignore cleanup errors
+        })
+      }
+    }
+  },
+}
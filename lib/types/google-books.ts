@@ -20,6 +20,10 @@ export interface GoogleBooksRequest {
   author: string
   /** Optional ISBN for more accurate matching */
   isbn?: string
+  /** Optional publication year, used as a tiebreaker between editions */
+  publishedYear?: number
+  /** Optional Book id; manually pinned data for that book wins over search */
+  bookId?: number
 }
 
 // ============================================================================
@@ -27,7 +31,32 @@ export interface GoogleBooksRequest {
 // ============================================================================
 
 /**
- * Enriched book data returned from Google Books API
+ * Where enriched data can come from
+ */
+export type EnrichmentProvider = 'google' | 'openlibrary'
+
+/**
+ * Fields merged individually across providers ('rating' covers averageRating and ratingsCount)
+ */
+export type EnrichedField =
+  | 'title'
+  | 'authors'
+  | 'description'
+  | 'publisher'
+  | 'publishedDate'
+  | 'rating'
+  | 'thumbnail'
+
+/**
+ * Provenance: which provider each field came from
+ * ('manual' for curated overrides, 'nyt' for bestseller list data used as a fallback)
+ */
+export type FieldSource = EnrichmentProvider | 'manual' | 'nyt'
+
+export type FieldSources = Partial<Record<EnrichedField, FieldSource>>
+
+/**
+ * Enriched book data, merged from Google Books and Open Library
  * This is the primary response type for successful requests
  */
 export interface GoogleBookDetails {
@@ -47,6 +76,14 @@ export interface GoogleBookDetails {
   ratingsCount: number | null
   /** URL to book cover thumbnail */
   thumbnail: string
+  /** Google Books volume id (absent for defaults and manual-only data) */
+  volumeId?: string
+  /** How sure we are this is the requested book (0-1, 0 when nothing matched) */
+  confidence: number
+  /** True for low-confidence matches that should be confirmed manually */
+  needsConfirmation: boolean
+  /** Which provider each field came from (absent for defaults) */
+  sources?: FieldSources
 }
 
 /**
@@ -80,8 +117,8 @@ export type GoogleBooksResponse =
 // ============================================================================
 
 /**
- * Data structure stored in the cache table
- * Can be either enriched book data or a "not found" marker
+ * Data stored per provider in the enrichment cache table
+ * Can be either that provider's book data or a "not found" marker
  */
 export type CachedGoogleBooksData = GoogleBookDetails | GoogleBooksNotFoundResponse
 
@@ -153,6 +190,8 @@ export function createDefaultBookDetails(
     averageRating: null,
     ratingsCount: null,
     thumbnail: '',
+    confidence: 0,
+    needsConfirmation: false,
   }
 }
 
@@ -163,10 +202,16 @@ export function createDefaultBookDetails(
 /** Cache duration in milliseconds (24 hours) */
 export const CACHE_DURATION_MS = 24 * 60 * 60 * 1000
 
+/** Cache duration for "not found" results (6 hours), so new titles are picked up sooner */
+export const NOT_FOUND_CACHE_DURATION_MS = 6 * 60 * 60 * 1000
+
+/** Expired entries are still served, and refreshed in the background, up to this age (7 days) */
+export const STALE_CACHE_DURATION_MS = 7 * 24 * 60 * 60 * 1000
+
 /** Maximum results to fetch from Google Books for best-match selection */
 export const MAX_GOOGLE_BOOKS_RESULTS = 5
 
-/** Timeout for Google Books API requests in milliseconds */
+/** Timeout for Google Books and Open Library requests in milliseconds */
 export const API_TIMEOUT_MS = 10000
 
 
@@ -0,0 +1,739 @@
+/**
+ * Video Generation Pipeline
+ *
+ * Runs the full book-to-video pipeline outside of any HTTP request so it can
+ * be executed by the render job worker (see lib/render-queue.ts).
+ *
+ * Pipeline:
+ * 1. generateScript() - Create video script from book info
+ * 2. generateVoice() - Convert script to speech audio (ElevenLabs/OpenAI/local TTS)
+ * 3. generateStoryboard() - Plan scenes with stock search terms and timing
+ * 4. fetchSceneAssets() - Get a video/image per scene (Pexels/Unsplash/local library)
+ * 5. createVideos() - Combine audio and visuals into one video per output profile (FFmpeg)
+ *
+ * Failures are thrown as VideoPipelineError, carrying the same
+ * step/code/details/suggestion fields the API has always returned.
+ */
+
+import { generateVoice, getConfiguredTTSProviders, VoiceTone } from './voice'
+import { fetchVisualAssets, fetchSceneAssets, downloadBookCover, SceneAsset } from './media'
+import { getLibraryMode } from './media-library'
+import { isMusicLibraryConfigured, pickMusicTrack, MusicTrack } from './music-library'
+import { TransitionType } from './transitions'
+import { BRAND_TEMPLATES, BrandTemplateName, DEFAULT_BRAND_TEMPLATE } from './brand-templates'
+import { loadVideoTemplate, resolveTemplate, TemplateRenderOptions } from './video-templates'
+import type { GoogleBookDetails } from './types/google-books'
+import { createVideos, VideoClip, VideoResult } from './video'
+import {
+  CropMode,
+  DEFAULT_OUTPUT_PROFILE,
+  getProfileOrientation,
+  OutputProfileName,
+} from './output-profiles'
+import { generateScriptWithFallback } from './script-generator'
+import { generateStoryboard, Storyboard, StoryboardScene } from './storyboard-generator'
+import { getLLMProvider, LLMProviderName } from './llm'
+import { getWordTimings, WordTiming } from './word-timing'
+import { createWorkspace, removeWorkspace, RenderWorkspace } from './workspace'
+import { writeFile } from 'fs/promises'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Tone = 'Motivational' | 'Emotional' | 'Educational' | 'Aggressive' | 'Calm'
+
+export interface GenerateVideoRequest {
+  title: string
+  description: string
+  tone: Tone
+  duration: number
+  /** LLM provider for the script (default: LLM_PROVIDER env, then openai) */
+  provider?: LLMProviderName
+  /** LLM model for the script (default: the provider's default model) */
+  model?: string
+  /** Output profiles to render (default: ['reels']); the first is the primary video */
+  profiles?: OutputProfileName[]
+  /** How footage is fitted to each profile's frame (default: 'smart') */
+  cropMode?: CropMode
+  /** Add a background music bed from MUSIC_LIBRARY_DIR (default: true when configured) */
+  music?: boolean
+  /** Transition between clips (default: the tone's transition) */
+  transition?: TransitionType
+  /** Book shown on the title card, cover badge and end card (default: title only) */
+  book?: Partial<Pick<GoogleBookDetails, 'title' | 'authors' | 'thumbnail'>>
+  /** Brand template for the cards (default: 'classic') */
+  template?: BrandTemplateName
+  /** End-card call-to-action and handle (default: the template's / BRAND_* env) */
+  callToAction?: string
+  handle?: string
+  /** Stored video template (see lib/video-templates.ts); explicit options above take precedence */
+  templateId?: number
+}
+
+/**
+ * Primary video (first profile) plus every rendered profile
+ */
+export interface PipelineResult extends VideoResult {
+  renditions: VideoResult[]
+  /** Credit for the background music, if any was used */
+  musicAttribution?: string
+}
+
+export interface PipelineHooks {
+  /** Called whenever the pipeline enters a new step */
+  onStep?: (step: string) => void | Promise<void>
+  /** Called with FFmpeg render progress (0-100) */
+  onProgress?: (percent: number) => void
+}
+
+interface ScriptResult {
+  script: string
+  keywords: string[]
+}
+
+export interface PipelineErrorDetails {
+  error: string
+  step: string
+  code: string
+  details?: string
+  suggestion?: string
+}
+
+// ============================================================================
+// Error Codes
+// ============================================================================
+
+export const ERROR_CODES = {
+  INVALID_JSON: 'ERR_INVALID_JSON',
+  MISSING_TITLE: 'ERR_MISSING_TITLE',
+  MISSING_DESCRIPTION: 'ERR_MISSING_DESCRIPTION',
+  INVALID_TONE: 'ERR_INVALID_TONE',
+  INVALID_DURATION: 'ERR_INVALID_DURATION',
+  INVALID_PROJECT: 'ERR_INVALID_PROJECT',
+  INVALID_PROVIDER: 'ERR_INVALID_PROVIDER',
+  INVALID_PROFILE: 'ERR_INVALID_PROFILE',
+  INVALID_MUSIC: 'ERR_INVALID_MUSIC',
+  INVALID_TRANSITION: 'ERR_INVALID_TRANSITION',
+  INVALID_BRANDING: 'ERR_INVALID_BRANDING',
+  INVALID_TEMPLATE: 'ERR_INVALID_TEMPLATE',
+  SCRIPT_FAILED: 'ERR_SCRIPT_GENERATION',
+  OPENAI_API_KEY_MISSING: 'ERR_OPENAI_KEY_MISSING',
+  OPENAI_API_ERROR: 'ERR_OPENAI_API',
+  VOICE_API_KEY_MISSING: 'ERR_ELEVENLABS_KEY_MISSING',
+  VOICE_API_ERROR: 'ERR_ELEVENLABS_API',
+  VOICE_QUOTA_EXCEEDED: 'ERR_ELEVENLABS_QUOTA',
+  VOICE_CONTENT_MODERATION: 'ERR_CONTENT_MODERATION',
+  VOICE_TEXT_VALIDATION: 'ERR_TEXT_VALIDATION',
+  MEDIA_API_KEYS_MISSING: 'ERR_MEDIA_KEYS_MISSING',
+  MEDIA_FETCH_FAILED: 'ERR_MEDIA_FETCH',
+  MEDIA_NO_ASSETS: 'ERR_NO_ASSETS_FOUND',
+  FFMPEG_NOT_INSTALLED: 'ERR_FFMPEG_MISSING',
+  VIDEO_CREATION_FAILED: 'ERR_VIDEO_CREATION',
+  UNKNOWN_ERROR: 'ERR_UNKNOWN',
+} as const
+
+/**
+ * Error raised by a pipeline step, with user-facing diagnostics
+ */
+export class VideoPipelineError extends Error {
+  readonly step: string
+  readonly code: string
+  readonly details?: string
+  readonly suggestion?: string
+
+  constructor(
+    error: string,
+    step: string,
+    code: string,
+    details?: string,
+    suggestion?: string
+  ) {
+    super(error)
+    this.name = 'VideoPipelineError'
+    this.step = step
+    this.code = code
+    this.details = details
+    this.suggestion = suggestion
+  }
+
+  toJSON(): PipelineErrorDetails {
+    const json: PipelineErrorDetails = {
+      error: this.message,
+      step: this.step,
+      code: this.code,
+    }
+
+    if (this.details) json.details = this.details
+    if (this.suggestion) json.suggestion = this.suggestion
+
+    return json
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const VALID_TONES: Tone[] = ['Motivational', 'Emotional', 'Educational', 'Aggressive', 'Calm']
+export const VALID_DURATIONS = [30, 45, 60]
+
+// ============================================================================
+// Voice tone mapping (each TTS provider picks its own voice per tone)
+// ============================================================================
+
+const toneToVoiceTone: Record<Tone, VoiceTone> = {
+  Motivational: 'motivational',
+  Emotional: 'calm',
+  Educational: 'professional',
+  Aggressive: 'energetic',
+  Calm: 'calm',
+}
+
+// ============================================================================
+// Music mood mapping (most preferred mood first)
+// ============================================================================
+
+const toneToMusicMoods: Record<Tone, string[]> = {
+  Motivational: ['motivational', 'uplifting', 'inspiring', 'epic'],
+  Emotional: ['emotional', 'sad', 'piano', 'cinematic'],
+  Educational: ['educational', 'ambient', 'corporate', 'light'],
+  Aggressive: ['aggressive', 'intense', 'energetic', 'epic'],
+  Calm: ['calm', 'relaxing', 'ambient', 'piano'],
+}
+
+// ============================================================================
+// Motion mapping (transition between clips, Ken Burns zoom on stills)
+// Durations also apply when a request overrides the transition type
+// ============================================================================
+
+const toneToMotion: Record<Tone, { transition: TransitionType; transitionDuration: number; kenBurnsZoom: number }> = {
+  Motivational: { transition: 'slide', transitionDuration: 0.4, kenBurnsZoom: 0.12 },
+  Emotional: { transition: 'fade', transitionDuration: 0.8, kenBurnsZoom: 0.08 },
+  Educational: { transition: 'wipe', transitionDuration: 0.5, kenBurnsZoom: 0.06 },
+  Aggressive: { transition: 'cut', transitionDuration: 0.25, kenBurnsZoom: 0.2 },
+  Calm: { transition: 'dissolve', transitionDuration: 1.2, kenBurnsZoom: 0.05 },
+}
+
+// ============================================================================
+// Main Function
+// ============================================================================
+
+/**
+ * Run the video generation pipeline for an already-validated request
+ *
+ * @param input - Validated title, description, tone and duration
+ * @param hooks - Optional step and progress callbacks
+ * @returns Promise<PipelineResult>
+ * @throws VideoPipelineError describing the failing step
+ */
+export async function runVideoPipeline(
+  input: GenerateVideoRequest,
+  hooks: PipelineHooks = {}
+): Promise<PipelineResult> {
+  let workspace: RenderWorkspace | null = null
+  let currentStep = 'initialization'
+
+  const enterStep = async (step: string) => {
+    currentStep = step
+    await hooks.onStep?.(step)
+  }
+
+  try {
+    const { title, description, tone, duration } = input
+    const profiles = input.profiles?.length ? input.profiles : [DEFAULT_OUTPUT_PROFILE]
+
+    // Stock footage is searched in the primary profile's orientation
+    const orientation = getProfileOrientation(profiles[0])
+
+    console.log(`[Video Generation] Starting pipeline for "${title}"`)
+    console.log(`  - Tone: ${tone}`)
+    console.log(`  - Duration: ${duration}s`)
+    console.log(`  - Profiles: ${profiles.join(', ')}`)
+
+    // Stored template, filled with this book's data (checked before any paid API call)
+    const bookTitle = input.book?.title || title
+    const bookAuthor = input.book?.authors?.length ? input.book.authors.join(', ') : undefined
+    let templateOptions: TemplateRenderOptions | null = null
+
+    if (input.templateId !== undefined) {
+      const template = await loadVideoTemplate(input.templateId)
+      if (!template) {
+        throw new VideoPipelineError(
+          'Video template not found',
+          currentStep,
+          ERROR_CODES.INVALID_TEMPLATE,
+          `Template ${input.templateId} was deleted after the job was queued`,
+          'Pick another template or render without templateId.'
+        )
+      }
+
+      templateOptions = resolveTemplate(template.definition, {
+        title: bookTitle,
+        author: bookAuthor,
+        handle: input.handle || process.env.BRAND_HANDLE,
+        tone,
+      })
+      console.log(`  - Template: ${template.name}`)
+    }
+
+    // Isolated workspace for this render's voice audio and downloads
+    workspace = await createWorkspace()
+
+    // ========================================================================
+    // Step 1: Generate Script (using the LLM provider)
+    // ========================================================================
+    await enterStep('generating script')
+    console.log(`[Video Generation] Step 1: ${currentStep}...`)
+
+    // Check if the LLM provider is configured
+    const llm = getLLMProvider(input.provider)
+    if (!llm.isConfigured()) {
+      console.warn(`[Video Generation] ${llm.label} not configured, will use template fallback`)
+    }
+
+    let scriptResult: ScriptResult
+    try {
+      scriptResult = await generateScriptWithFallback({
+        title,
+        description,
+        tone,
+        duration,
+        provider: input.provider,
+        model: input.model,
+      })
+      console.log(`[Video Generation] Script generated (${scriptResult.script.split(/\s+/).length} words)`)
+      console.log(`[Video Generation] Script preview: "${scriptResult.script.substring(0, 100)}..."`)
+    } catch (scriptError) {
+      const errorMessage = scriptError instanceof Error ? scriptError.message : 'Unknown script generation error'
+      console.error('[Video Generation] Script generation failed:', scriptError)
+
+      // Check for specific LLM provider errors
+      if (errorMessage.includes('not configured')) {
+        throw new VideoPipelineError(
+          `${llm.label} not configured`,
+          currentStep,
+          ERROR_CODES.OPENAI_API_KEY_MISSING,
+          errorMessage,
+          'Add the provider settings to .env.local (see lib/llm.ts). The system will use template-based scripts as a fallback.'
+        )
+      }
+
+      if (errorMessage.includes('rate limit') || errorMessage.includes('429')) {
+        throw new VideoPipelineError(
+          `${llm.label} rate limit exceeded`,
+          currentStep,
+          ERROR_CODES.OPENAI_API_ERROR,
+          errorMessage,
+          'Please wait a moment and try again, or switch LLM_PROVIDER.'
+        )
+      }
+
+      if (errorMessage.includes('API key') || errorMessage.includes('401')) {
+        throw new VideoPipelineError(
+          `Invalid ${llm.label} API key`,
+          currentStep,
+          ERROR_CODES.OPENAI_API_ERROR,
+          errorMessage,
+          'Check the API key in .env.local and ensure it is valid.'
+        )
+      }
+
+      throw new VideoPipelineError(
+        'Failed to generate video script',
+        currentStep,
+        ERROR_CODES.SCRIPT_FAILED,
+        errorMessage,
+        'This is an internal error. Please try again or contact support.'
+      )
+    }
+
+    // ========================================================================
+    // Step 2: Generate Voice-Over (first configured TTS provider)
+    // ========================================================================
+    await enterStep('generating voice-over')
+    console.log(`[Video Generation] Step 2: ${currentStep}...`)
+
+    // Check that at least one provider is configured first
+    if (getConfiguredTTSProviders().length === 0) {
+      throw new VideoPipelineError(
+        'Voice generation service not configured',
+        currentStep,
+        ERROR_CODES.VOICE_API_KEY_MISSING,
+        'No text-to-speech provider is configured',
+        'Add ELEVENLABS_API_KEY or OPENAI_API_KEY to .env.local, or set LOCAL_TTS_ENGINE=espeak-ng (or piper) to generate audio offline.'
+      )
+    }
+
+    let voiceFilePath: string
+    let wordTimings: WordTiming[] = []
+    try {
+      const voiceResult = await generateVoice({
+        text: scriptResult.script,
+        tone: toneToVoiceTone[tone],
+        settings: {
+          stability: tone === 'Calm' ? 0.7 : 0.5,
+          similarity_boost: 0.75,
+          style: tone === 'Aggressive' ? 0.8 : 0.5,
+        }
+      })
+
+      const voiceExtension = voiceResult.contentType === 'audio/wav' ? 'wav' : 'mp3'
+      voiceFilePath = workspace.file(`voice.${voiceExtension}`)
+      await writeFile(voiceFilePath, voiceResult.audioBuffer)
+      wordTimings = getWordTimings(voiceResult.alignment)
+
+      console.log(`[Video Generation] Voice (${voiceResult.provider}) saved to ${voiceFilePath}`)
+      console.log(`[Video Generation] Estimated duration: ${voiceResult.estimatedDuration.toFixed(1)}s`)
+    } catch (voiceError) {
+      const errorMessage = voiceError instanceof Error ? voiceError.message : 'Unknown error'
+      const lowerError = errorMessage.toLowerCase()
+      console.error('[Video Generation] Voice generation failed:', voiceError)
+
+      // Check for provider authentication and quota errors
+      if (lowerError.includes('401') || lowerError.includes('unauthorized') || lowerError.includes('invalid') && lowerError.includes('api key')) {
+        throw new VideoPipelineError(
+          'Voice API authentication failed',
+          currentStep,
+          ERROR_CODES.VOICE_API_ERROR,
+          errorMessage,
+          'Check ELEVENLABS_API_KEY / OPENAI_API_KEY in .env.local and ensure they are valid.'
+        )
+      }
+
+      if (lowerError.includes('429') || lowerError.includes('rate limit') || lowerError.includes('quota')) {
+        throw new VideoPipelineError(
+          'Voice API quota exceeded',
+          currentStep,
+          ERROR_CODES.VOICE_QUOTA_EXCEEDED,
+          errorMessage,
+          'Upgrade your plan, wait for your quota to reset, try again in a few minutes, or set LOCAL_TTS_ENGINE as an offline fallback.'
+        )
+      }
+
+      // Check for content moderation issues
+      if (lowerError.includes('content moderation') ||
+          lowerError.includes('safety') ||
+          lowerError.includes('policy') ||
+          lowerError.includes('inappropriate') ||
+          lowerError.includes('violat')) {
+        throw new VideoPipelineError(
+          'Content moderation issue detected',
+          currentStep,
+          ERROR_CODES.VOICE_CONTENT_MODERATION,
+          errorMessage,
+          'The book title or description may contain words that trigger content filters. Try rephrasing: avoid religious, political, or sensitive terms in the title.'
+        )
+      }
+
+      // Check for text validation errors
+      if (lowerError.includes('validation') || lowerError.includes('text') || lowerError.includes('422')) {
+        throw new VideoPipelineError(
+          'Text validation failed',
+          currentStep,
+          ERROR_CODES.VOICE_TEXT_VALIDATION,
+          errorMessage,
+          'The script may be too long or contain unsupported characters. Try a shorter description.'
+        )
+      }
+
+      throw new VideoPipelineError(
+        'Failed to generate voice-over audio',
+        currentStep,
+        ERROR_CODES.VOICE_API_ERROR,
+        errorMessage,
+        'Check your TTS provider configuration and ensure the service (or local engine) is available. The error details above may provide more information.'
+      )
+    }
+
+    // ========================================================================
+    // Step 3: Generate Storyboard (scenes + stock search terms)
+    // ========================================================================
+    await enterStep('generating storyboard')
+    console.log(`[Video Generation] Step 3: ${currentStep}...`)
+
+    // Falls back to the template library, so this only fails on bugs
+    const storyboard: Storyboard = await generateStoryboard({
+      title,
+      description,
+      script: scriptResult.script,
+      tone,
+      duration,
+      sceneCount: Math.max(4, Math.round(duration / 5)),
+      provider: input.provider,
+      model: input.model,
+    })
+    console.log(`[Video Generation] Storyboard has ${storyboard.scenes.length} scenes (${storyboard.source})`)
+
+    // ========================================================================
+    // Step 4: Fetch Visual Assets per Scene (Pexels/Unsplash/local library)
+    // ========================================================================
+    await enterStep('fetching visual assets')
+    console.log(`[Video Generation] Step 4: ${currentStep}...`)
+
+    // Check that at least one media source is configured first
+    const hasPexelsKey = !!process.env.PEXELS_API_KEY
+    const hasUnsplashKey = !!process.env.UNSPLASH_ACCESS_KEY
+    const hasMediaLibrary = getLibraryMode() !== null
+
+    if (!hasPexelsKey && !hasUnsplashKey && !hasMediaLibrary) {
+      throw new VideoPipelineError(
+        'No media API keys configured',
+        currentStep,
+        ERROR_CODES.MEDIA_API_KEYS_MISSING,
+        'Neither PEXELS_API_KEY, UNSPLASH_ACCESS_KEY nor MEDIA_LIBRARY_DIR environment variables are set',
+        'Add at least one media API key to .env.local: PEXELS_API_KEY=your_key or UNSPLASH_ACCESS_KEY=your_key, or point MEDIA_LIBRARY_DIR at a folder of your own clips'
+      )
+    }
+
+    let clips: VideoClip[]
+    try {
+      // Uncached downloads go into the workspace and are removed with it
+      const sceneAssets = await fetchSceneAssets(storyboard.scenes, {
+        orientation,
+        downloadDir: workspace.dir,
+      })
+
+      clips = buildSceneClips(storyboard.scenes, sceneAssets)
+
+      // No scene matched: fall back to generic footage for the title
+      if (clips.length === 0) {
+        console.warn('[Video Generation] No scene footage found, falling back to title search')
+        const assets = await fetchVisualAssets(title, description, {
+          count: 6,
+          orientation,
+          downloadDir: workspace.dir,
+        })
+        clips = assets.map(asset => ({ filePath: asset.filePath, type: asset.type }))
+      }
+
+      console.log(`[Video Generation] Prepared ${clips.length} clips`)
+    } catch (mediaError) {
+      const errorMessage = mediaError instanceof Error ? mediaError.message : 'Unknown error'
+      console.error('[Video Generation] Visual asset fetch failed:', mediaError)
+
+      // Check for specific API errors
+      if (errorMessage.includes('401') || errorMessage.includes('Invalid')) {
+        const invalidApi = errorMessage.includes('Pexels') ? 'Pexels' : 'Unsplash'
+        throw new VideoPipelineError(
+          `${invalidApi} API authentication failed`,
+          currentStep,
+          ERROR_CODES.MEDIA_FETCH_FAILED,
+          `Your ${invalidApi} API key is invalid`,
+          `Check your ${invalidApi === 'Pexels' ? 'PEXELS_API_KEY' : 'UNSPLASH_ACCESS_KEY'} in .env.local`
+        )
+      }
+
+      throw new VideoPipelineError(
+        'Failed to fetch visual assets',
+        currentStep,
+        ERROR_CODES.MEDIA_FETCH_FAILED,
+        errorMessage,
+        'Check your media API keys and MEDIA_LIBRARY_DIR, and ensure Pexels/Unsplash services are available.'
+      )
+    }
+
+    if (clips.length === 0) {
+      throw new VideoPipelineError(
+        'No visual assets found',
+        currentStep,
+        ERROR_CODES.MEDIA_NO_ASSETS,
+        `Could not find any videos or images matching "${title}"`,
+        'Try using a more generic book title or description with common keywords like "motivation", "success", or "mindset".'
+      )
+    }
+
+    // ========================================================================
+    // Step 5: Create Video (FFmpeg)
+    // ========================================================================
+    await enterStep('creating video with FFmpeg')
+    console.log(`[Video Generation] Step 5: ${currentStep}...`)
+
+    // Background music is optional: a missing or unreadable library never fails the render
+    let musicTrack: MusicTrack | null = null
+    if (input.music !== false && isMusicLibraryConfigured()) {
+      try {
+        musicTrack = await pickMusicTrack(toneToMusicMoods[tone], duration)
+        if (musicTrack) {
+          console.log(`[Video Generation] Music: ${musicTrack.filePath} (${musicTrack.moods.join(', ')})`)
+        } else {
+          console.warn(`[Video Generation] No music matches the ${tone} tone, rendering without music`)
+        }
+      } catch (musicError) {
+        console.warn('[Video Generation] Music library unavailable, rendering without music:', musicError)
+      }
+    }
+
+    // The book cover is optional too: without it the cards are text-only
+    let coverPath: string | undefined
+    if (input.book?.thumbnail) {
+      try {
+        coverPath = await downloadBookCover(input.book.thumbnail, workspace.dir)
+      } catch (coverError) {
+        console.warn('[Video Generation] Book cover unavailable, rendering text-only cards:', coverError)
+      }
+    }
+
+    // Request options win over the template, which wins over the tone's defaults
+    const motion = toneToMotion[tone]
+    const brand: BrandTemplateName | null = input.template ??
+      (templateOptions ? templateOptions.brand : DEFAULT_BRAND_TEMPLATE)
+
+    let videoResult: PipelineResult
+    try {
+      const renditions = await createVideos(
+        voiceFilePath,
+        clips,
+        scriptResult.script,
+        profiles,
+        {
+          fps: templateOptions?.fps ?? 30,
+          videoBitrate: templateOptions?.videoBitrate,
+          audioBitrate: templateOptions?.audioBitrate,
+          crf: templateOptions?.crf,
+          cropMode: input.cropMode ?? templateOptions?.cropMode,
+          transition: input.transition ?? templateOptions?.transition ?? motion.transition,
+          transitionDuration: templateOptions?.transitionDuration ?? motion.transitionDuration,
+          kenBurnsZoom: templateOptions?.kenBurnsZoom ?? motion.kenBurnsZoom,
+          music: musicTrack ? { filePath: musicTrack.filePath } : undefined,
+          branding: brand
+            ? {
+                template: BRAND_TEMPLATES[brand],
+                content: {
+                  title: bookTitle,
+                  author: bookAuthor,
+                  coverPath,
+                  callToAction: input.callToAction,
+                  handle: input.handle,
+                },
+              }
+            : undefined,
+          layers: templateOptions?.layers,
+          captions: templateOptions?.captions ?? true,
+          subtitleStyle: {
+            preset: 'tiktok',
+            ...templateOptions?.subtitleStyle,
+            emphasisWords: templateOptions?.emphasizeKeywords === false ? undefined : scriptResult.keywords,
+          },
+          wordTimings,
+          onProgress: hooks.onProgress,
+        }
+      )
+      videoResult = {
+        ...renditions[0],
+        renditions,
+        ...(musicTrack && { musicAttribution: musicTrack.attribution }),
+      }
+      for (const rendition of renditions) {
+        console.log(`[Video Generation] Video created (${rendition.profile}): ${rendition.videoUrl}`)
+      }
+    } catch (videoError) {
+      const errorMessage = videoError instanceof Error ? videoError.message : 'Unknown error'
+      console.error('[Video Generation] Video creation failed:', videoError)
+
+      // Check for FFmpeg-specific errors
+      if (errorMessage.includes('ffmpeg') || errorMessage.includes('ENOENT') || errorMessage.includes('spawn')) {
+        throw new VideoPipelineError(
+          'FFmpeg is not installed or not found',
+          currentStep,
+          ERROR_CODES.FFMPEG_NOT_INSTALLED,
+          errorMessage,
+          'Install FFmpeg on your system. On Windows: choco install ffmpeg. On Mac: brew install ffmpeg. On Ubuntu: sudo apt install ffmpeg'
+        )
+      }
+
+      if (errorMessage.includes('codec') || errorMessage.includes('encoder')) {
+        throw new VideoPipelineError(
+          'FFmpeg codec error',
+          currentStep,
+          ERROR_CODES.VIDEO_CREATION_FAILED,
+          errorMessage,
+          'Ensure FFmpeg is installed with libx264 and aac codec support.'
+        )
+      }
+
+      if (errorMessage.includes('permission') || errorMessage.includes('EACCES')) {
+        throw new VideoPipelineError(
+          'File permission error',
+          currentStep,
+          ERROR_CODES.VIDEO_CREATION_FAILED,
+          errorMessage,
+          'Check that the application has write permissions to the public/videos directory.'
+        )
+      }
+
+      throw new VideoPipelineError(
+        'Failed to create video',
+        currentStep,
+        ERROR_CODES.VIDEO_CREATION_FAILED,
+        errorMessage,
+        'Check server logs for more details. Ensure FFmpeg is properly installed.'
+      )
+    }
+
+    // ========================================================================
+    // Cleanup (the workspace itself is removed in finally)
+    // ========================================================================
+    await enterStep('cleanup')
+
+    console.log(`[Video Generation] ✅ Complete!`)
+    console.log(`[Video Generation] Video URL: ${videoResult.videoUrl}`)
+    console.log(`[Video Generation] Duration: ${videoResult.duration.toFixed(1)}s`)
+    console.log(`[Video Generation] File Size: ${(videoResult.fileSize / 1024 / 1024).toFixed(2)} MB`)
+
+    return videoResult
+
+  } catch (error) {
+    if (error instanceof VideoPipelineError) {
+      throw error
+    }
+
+    console.error(`[Video Generation] Unexpected error during "${currentStep}":`, error)
+
+    throw new VideoPipelineError(
+      'An unexpected error occurred during video generation',
+      currentStep,
+      ERROR_CODES.UNKNOWN_ERROR,
+      error instanceof Error ? error.message : 'Unknown error',
+      'Please try again. If the problem persists, check server logs or contact support.'
+    )
+  } finally {
+    // Runs on success and on every error path
+    if (workspace) {
+      await removeWorkspace(workspace)
+    }
+  }
+}
+
+/**
+ * Turn storyboard scenes and their footage into timed clips
+ *
+ * A scene without footage extends the previous clip (or the next one, for
+ * leading scenes), so the remaining visuals keep their scene timing.
+ */
+function buildSceneClips(scenes: StoryboardScene[], sceneAssets: SceneAsset[]): VideoClip[] {
+  const clips: VideoClip[] = []
+  let pendingDuration = 0
+
+  scenes.forEach((scene, index) => {
+    const asset = sceneAssets[index]?.asset
+
+    if (!asset) {
+      if (clips.length > 0) {
+        clips[clips.length - 1].duration = (clips[clips.length - 1].duration ?? 0) + scene.duration
+      } else {
+        pendingDuration += scene.duration
+      }
+      return
+    }
+
+    clips.push({
+      filePath: asset.filePath,
+      type: asset.type,
+      duration: scene.duration + pendingDuration,
+    })
+    pendingDuration = 0
+  })
+
+  return clips
+}
@@ -0,0 +1,670 @@
+/**
+ * Video Templates
+ *
+ * JSON-defined video layouts stored in the database (VideoTemplate model).
+ * A template is a stack of layers, drawn in order over the clip timeline:
+ * - background: how stock footage is framed and joined (crop, transition, motion)
+ * - captions: subtitle preset, position and colors
+ * - cards: title card / cover badge / end card from a brand template
+ * - logo: an image from public/ pinned to a corner
+ * - text: positioned text with {{title}}, {{author}}, {{handle}}, {{tone}} placeholders
+ * - progressBar: a bar growing across the top or bottom edge
+ *
+ * Logo, text and progress bar layers take timing rules anchored to the start
+ * of the video, the end of the narration or the end of the video (after any
+ * end card). Positions are fractions of the frame and sizes are designed for
+ * a 1080px frame, like brand templates.
+ *
+ * resolveTemplate() fills in project data and returns render options for
+ * createVideo(); compileOverlayLayers() turns the overlay layers into FFmpeg
+ * filters and ASS text for lib/video.ts.
+ *
+ * @example
+ * ```json
+ * {
+ *   "output": { "videoBitrate": "6000k", "crf": 20 },
+ *   "layers": [
+ *     { "type": "background", "transition": "fade", "kenBurnsZoom": 0.08 },
+ *     { "type": "captions", "style": { "preset": "boxed", "position": "bottom" } },
+ *     { "type": "cards", "brand": "minimal" },
+ *     { "type": "logo", "src": "/logo.png", "position": "top-right", "height": 0.06 },
+ *     { "type": "progressBar", "position": "bottom", "height": 12, "color": "#FFE500",
+ *       "timing": { "end": { "anchor": "narrationEnd" } } }
+ *   ]
+ * }
+ * ```
+ */
+
+import { existsSync } from 'fs'
+import path from 'path'
+import { prisma } from './db'
+import {
+  AssTextOverlay,
+  SubtitleStyleOptions,
+  SUBTITLE_POSITIONS,
+  isSubtitlePresetName,
+} from './ass-subtitles'
+import { BrandTemplateName, CoverBadgePosition, isBrandTemplateName, toFfmpegColor } from './brand-templates'
+import { CropMode, isCropMode } from './output-profiles'
+import { TransitionType, isTransitionType } from './transitions'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TimeAnchor = 'start' | 'narrationEnd' | 'end'
+
+/**
+ * A point in the video: an anchor plus an offset in seconds (may be negative)
+ */
+export interface TimePoint {
+  anchor: TimeAnchor
+  offset?: number
+}
+
+/**
+ * When a layer is shown (default: the whole video)
+ */
+export interface LayerTiming {
+  start?: TimePoint
+  end?: TimePoint
+}
+
+export interface BackgroundLayer {
+  type: 'background'
+  cropMode?: CropMode
+  transition?: TransitionType
+  transitionDuration?: number
+  kenBurnsZoom?: number
+}
+
+export interface CaptionsLayer {
+  type: 'captions'
+  /** Preset and overrides (keyword emphasis is added by the pipeline) */
+  style?: Omit<SubtitleStyleOptions, 'emphasisWords'>
+  /** Color the script's keywords (default: true) */
+  emphasizeKeywords?: boolean
+}
+
+export interface CardsLayer {
+  type: 'cards'
+  brand: BrandTemplateName
+}
+
+export interface LogoLayer {
+  type: 'logo'
+  /** Image path under public/, e.g. '/brand/logo.png' */
+  src: string
+  position: CoverBadgePosition
+  /** Logo height (fraction of frame height) */
+  height: number
+  /** Distance from the frame edges (fraction of the shorter side, default: 0.04) */
+  margin?: number
+  /** 0-1 (default: 1) */
+  opacity?: number
+  timing?: LayerTiming
+}
+
+export interface TextLayer {
+  type: 'text'
+  /** Text with optional {{title}}, {{author}}, {{handle}}, {{tone}} placeholders */
+  text: string
+  /** Center of the text (fractions of the frame) */
+  x: number
+  y: number
+  /** Font size for a 1080px frame */
+  fontSize: number
+  fontName?: string
+  color?: string
+  bold?: boolean
+  timing?: LayerTiming
+}
+
+export interface ProgressBarLayer {
+  type: 'progressBar'
+  position: 'top' | 'bottom'
+  /** Bar thickness in pixels for a 1080px frame */
+  height: number
+  color: string
+  /** 0-1 (default: 1) */
+  opacity?: number
+  timing?: LayerTiming
+}
+
+/**
+ * Layers drawn over the footage after branding (see compileOverlayLayers)
+ */
+export type OverlayLayer = LogoLayer | TextLayer | ProgressBarLayer
+
+export type TemplateLayer = BackgroundLayer | CaptionsLayer | CardsLayer | OverlayLayer
+
+export type TemplateLayerType = TemplateLayer['type']
+
+export interface VideoTemplateDefinition {
+  output?: {
+    fps?: number
+    videoBitrate?: string
+    audioBitrate?: string
+    /** x264 quality (0-51, default: 23) */
+    crf?: number
+  }
+  layers: TemplateLayer[]
+}
+
+/**
+ * Project data filled into text placeholders
+ */
+export interface TemplateData {
+  title: string
+  author?: string
+  handle?: string
+  tone?: string
+}
+
+/**
+ * Render options derived from a template (field names match CreateVideoOptions)
+ */
+export interface TemplateRenderOptions {
+  fps?: number
+  videoBitrate?: string
+  audioBitrate?: string
+  crf?: number
+  cropMode?: CropMode
+  transition?: TransitionType
+  transitionDuration?: number
+  kenBurnsZoom?: number
+  /** False when the template has no captions layer */
+  captions: boolean
+  subtitleStyle?: SubtitleStyleOptions
+  emphasizeKeywords: boolean
+  /** Brand template for the cards, or null when the template has no cards layer */
+  brand: BrandTemplateName | null
+  /** Overlay layers with placeholders filled in */
+  layers: OverlayLayer[]
+}
+
+export interface OverlayFrame {
+  width: number
+  height: number
+  fps: number
+  /** Narration length in seconds */
+  narrationDuration: number
+  /** Full video length in seconds (narration plus any end card) */
+  duration: number
+}
+
+/**
+ * Filter graph labels: the stream to draw on, the result, and the FFmpeg
+ * input index of the first logo image
+ */
+export interface OverlayLabels {
+  input: string
+  output: string
+  firstInput: number
+}
+
+export interface CompiledOverlays {
+  /** Logo image files, to be added as inputs from firstInput on */
+  inputs: string[]
+  /** Filters from [input] to [output] */
+  filters: string[]
+  /** Text layers, burned in with the captions */
+  overlays: AssTextOverlay[]
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const TEMPLATE_LAYER_TYPES: TemplateLayerType[] = [
+  'background',
+  'captions',
+  'cards',
+  'logo',
+  'text',
+  'progressBar',
+]
+
+const TIME_ANCHORS: TimeAnchor[] = ['start', 'narrationEnd', 'end']
+const CORNER_POSITIONS: CoverBadgePosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right']
+const PLACEHOLDER_PATTERN = /\{\{\s*(title|author|handle|tone)\s*\}\}/g
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i
+const BITRATE_PATTERN = /^\d+[km]?$/i
+const LOGO_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp']
+
+/** Layers that may appear only once */
+const SINGLE_LAYERS: TemplateLayerType[] = ['background', 'captions', 'cards']
+
+/** Max layers per template (each overlay adds filters to every render) */
+const MAX_LAYERS = 20
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * A JSON object (not null or an array); also used to check request bodies
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNumberInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+}
+
+function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR_PATTERN.test(value)
+}
+
+/**
+ * Absolute path of a public/ asset, or null if the path escapes public/
+ */
+function resolvePublicAsset(src: string): string | null {
+  if (!src.startsWith('/') || src.includes('..') || src.includes('\\')) {
+    return null
+  }
+  return path.join(process.cwd(), 'public', src)
+}
+
+function validateTiming(timing: unknown, prefix: string, errors: string[]): void {
+  if (timing === undefined) return
+  if (!isRecord(timing)) {
+    errors.push(`${prefix}.timing must be an object`)
+    return
+  }
+
+  for (const key of ['start', 'end'] as const) {
+    const point = timing[key]
+    if (point === undefined) continue
+
+    if (!isRecord(point) || !TIME_ANCHORS.includes(point.anchor as TimeAnchor)) {
+      errors.push(`${prefix}.timing.${key}.anchor must be one of: ${TIME_ANCHORS.join(', ')}`)
+    } else if (point.offset !== undefined && !isNumberInRange(point.offset, -600, 600)) {
+      errors.push(`${prefix}.timing.${key}.offset must be a number of seconds`)
+    }
+  }
+}
+
+function validateLayer(layer: unknown, prefix: string, errors: string[]): void {
+  if (!isRecord(layer)) {
+    errors.push(`${prefix} must be an object`)
+    return
+  }
+
+  switch (layer.type) {
+    case 'background':
+      if (layer.cropMode !== undefined && !isCropMode(layer.cropMode)) {
+        errors.push(`${prefix}.cropMode is not a valid crop mode`)
+      }
+      if (layer.transition !== undefined && !isTransitionType(layer.transition)) {
+        errors.push(`${prefix}.transition is not a valid transition`)
+      }
+      if (layer.transitionDuration !== undefined && !isNumberInRange(layer.transitionDuration, 0, 3)) {
+        errors.push(`${prefix}.transitionDuration must be between 0 and 3 seconds`)
+      }
+      if (layer.kenBurnsZoom !== undefined && !isNumberInRange(layer.kenBurnsZoom, 0, 0.5)) {
+        errors.push(`${prefix}.kenBurnsZoom must be between 0 and 0.5`)
+      }
+      break
+
+    case 'captions': {
+      if (layer.emphasizeKeywords !== undefined && typeof layer.emphasizeKeywords !== 'boolean') {
+        errors.push(`${prefix}.emphasizeKeywords must be a boolean`)
+      }
+      if (layer.style === undefined) break
+      if (!isRecord(layer.style)) {
+        errors.push(`${prefix}.style must be an object`)
+        break
+      }
+
+      const style = layer.style
+      if (style.preset !== undefined && !isSubtitlePresetName(style.preset)) {
+        errors.push(`${prefix}.style.preset is not a valid subtitle preset`)
+      }
+      if (style.position !== undefined && !SUBTITLE_POSITIONS.includes(style.position as never)) {
+        errors.push(`${prefix}.style.position must be one of: ${SUBTITLE_POSITIONS.join(', ')}`)
+      }
+      if (style.marginV !== undefined && !isNumberInRange(style.marginV, 0, 0.5)) {
+        errors.push(`${prefix}.style.marginV must be between 0 and 0.5`)
+      }
+      if (style.fontSize !== undefined && !isNumberInRange(style.fontSize, 8, 300)) {
+        errors.push(`${prefix}.style.fontSize must be between 8 and 300`)
+      }
+      if (style.fontName !== undefined && (typeof style.fontName !== 'string' || !style.fontName.trim())) {
+        errors.push(`${prefix}.style.fontName must be a non-empty string`)
+      }
+      if (style.karaoke !== undefined && typeof style.karaoke !== 'boolean') {
+        errors.push(`${prefix}.style.karaoke must be a boolean`)
+      }
+      for (const key of ['textColor', 'highlightColor', 'emphasisColor'] as const) {
+        if (style[key] !== undefined && !isHexColor(style[key])) {
+          errors.push(`${prefix}.style.${key} must be a #RRGGBB color`)
+        }
+      }
+      break
+    }
+
+    case 'cards':
+      if (!isBrandTemplateName(layer.brand)) {
+        errors.push(`${prefix}.brand is not a valid brand template`)
+      }
+      break
+
+    case 'logo':
+      if (typeof layer.src !== 'string' || !resolvePublicAsset(layer.src) ||
+          !LOGO_EXTENSIONS.includes(path.extname(layer.src).toLowerCase())) {
+        errors.push(`${prefix}.src must be a ${LOGO_EXTENSIONS.join('/')} path under public/, e.g. /logo.png`)
+      }
+      if (!CORNER_POSITIONS.includes(layer.position as CoverBadgePosition)) {
+        errors.push(`${prefix}.position must be one of: ${CORNER_POSITIONS.join(', ')}`)
+      }
+      if (!isNumberInRange(layer.height, 0.01, 0.5)) {
+        errors.push(`${prefix}.height must be between 0.01 and 0.5`)
+      }
+      if (layer.margin !== undefined && !isNumberInRange(layer.margin, 0, 0.25)) {
+        errors.push(`${prefix}.margin must be between 0 and 0.25`)
+      }
+      if (layer.opacity !== undefined && !isNumberInRange(layer.opacity, 0, 1)) {
+        errors.push(`${prefix}.opacity must be between 0 and 1`)
+      }
+      validateTiming(layer.timing, prefix, errors)
+      break
+
+    case 'text':
+      if (typeof layer.text !== 'string' || !layer.text.trim() || layer.text.length > 200) {
+        errors.push(`${prefix}.text must be a non-empty string of at most 200 characters`)
+      }
+      if (!isNumberInRange(layer.x, 0, 1) || !isNumberInRange(layer.y, 0, 1)) {
+        errors.push(`${prefix}.x and ${prefix}.y must be between 0 and 1`)
+      }
+      if (!isNumberInRange(layer.fontSize, 8, 300)) {
+        errors.push(`${prefix}.fontSize must be between 8 and 300`)
+      }
+      if (layer.fontName !== undefined && (typeof layer.fontName !== 'string' || !layer.fontName.trim())) {
+        errors.push(`${prefix}.fontName must be a non-empty string`)
+      }
+      if (layer.color !== undefined && !isHexColor(layer.color)) {
+        errors.push(`${prefix}.color must be a #RRGGBB color`)
+      }
+      if (layer.bold !== undefined && typeof layer.bold !== 'boolean') {
+        errors.push(`${prefix}.bold must be a boolean`)
+      }
+      validateTiming(layer.timing, prefix, errors)
+      break
+
+    case 'progressBar':
+      if (layer.position !== 'top' && layer.position !== 'bottom') {
+        errors.push(`${prefix}.position must be top or bottom`)
+      }
+      if (!isNumberInRange(layer.height, 1, 100)) {
+        errors.push(`${prefix}.height must be between 1 and 100`)
+      }
+      if (!isHexColor(layer.color)) {
+        errors.push(`${prefix}.color must be a #RRGGBB color`)
+      }
+      if (layer.opacity !== undefined && !isNumberInRange(layer.opacity, 0, 1)) {
+        errors.push(`${prefix}.opacity must be between 0 and 1`)
+      }
+      validateTiming(layer.timing, prefix, errors)
+      break
+
+    default:
+      errors.push(`${prefix}.type must be one of: ${TEMPLATE_LAYER_TYPES.join(', ')}`)
+  }
+}
+
+/**
+ * Resolve a layer's timing to seconds within the video
+ */
+function resolveTiming(timing: LayerTiming | undefined, frame: OverlayFrame): { start: number; end: number } {
+  const toSeconds = (point: TimePoint | undefined, fallback: number) => {
+    if (!point) return fallback
+    const base = point.anchor === 'start' ? 0 : point.anchor === 'narrationEnd' ? frame.narrationDuration : frame.duration
+    return Math.min(Math.max(base + (point.offset ?? 0), 0), frame.duration)
+  }
+
+  return {
+    start: toSeconds(timing?.start, 0),
+    end: toSeconds(timing?.end, frame.duration),
+  }
+}
+
+function fillPlaceholders(text: string, data: TemplateData): string {
+  return text
+    .replace(PLACEHOLDER_PATTERN, (_, key: keyof TemplateData) => data[key] ?? '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Parse a numeric route id, returning null if invalid
+ */
+export function parseTemplateId(id: string): number | null {
+  const templateId = parseInt(id, 10)
+  return isNaN(templateId) ? null : templateId
+}
+
+/**
+ * Check a template definition from an API request
+ *
+ * @returns Problems found (empty if the definition is valid)
+ */
+export function validateTemplateDefinition(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ['Definition must be an object']
+  }
+
+  const errors: string[] = []
+
+  if (value.output !== undefined) {
+    if (!isRecord(value.output)) {
+      errors.push('output must be an object')
+    } else {
+      const { fps, videoBitrate, audioBitrate, crf } = value.output
+      if (fps !== undefined && (!Number.isInteger(fps) || !isNumberInRange(fps, 12, 60))) {
+        errors.push('output.fps must be an integer between 12 and 60')
+      }
+      if (videoBitrate !== undefined && (typeof videoBitrate !== 'string' || !BITRATE_PATTERN.test(videoBitrate))) {
+        errors.push('output.videoBitrate must look like 4000k')
+      }
+      if (audioBitrate !== undefined && (typeof audioBitrate !== 'string' || !BITRATE_PATTERN.test(audioBitrate))) {
+        errors.push('output.audioBitrate must look like 128k')
+      }
+      if (crf !== undefined && (!Number.isInteger(crf) || !isNumberInRange(crf, 0, 51))) {
+        errors.push('output.crf must be an integer between 0 and 51')
+      }
+    }
+  }
+
+  if (!Array.isArray(value.layers)) {
+    errors.push('layers must be an array')
+    return errors
+  }
+
+  if (value.layers.length > MAX_LAYERS) {
+    errors.push(`layers can have at most ${MAX_LAYERS} entries`)
+  }
+
+  value.layers.forEach((layer, i) => validateLayer(layer, `layers[${i}]`, errors))
+
+  for (const type of SINGLE_LAYERS) {
+    if (value.layers.filter(layer => isRecord(layer) && layer.type === type).length > 1) {
+      errors.push(`Only one ${type} layer is allowed`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Fill a template with project data and turn it into render options
+ * Layers a template leaves out are off: no captions layer means no captions,
+ * no cards layer means no title or end card.
+ *
+ * @example
+ * ```typescript
+ * const options = resolveTemplate(template.definition, {
+ *   title: 'Atomic Habits',
+ *   author: 'James Clear',
+ *   tone: 'Motivational',
+ * })
+ * ```
+ */
+export function resolveTemplate(definition: VideoTemplateDefinition, data: TemplateData): TemplateRenderOptions {
+  const find = <T extends TemplateLayer['type']>(type: T) =>
+    definition.layers.find((layer): layer is Extract<TemplateLayer, { type: T }> => layer.type === type)
+
+  const background = find('background')
+  const captions = find('captions')
+  const cards = find('cards')
+
+  const layers = definition.layers
+    .filter((layer): layer is OverlayLayer => layer.type === 'logo' || layer.type === 'text' || layer.type === 'progressBar')
+    .map(layer => layer.type === 'text' ? { ...layer, text: fillPlaceholders(layer.text, data) } : layer)
+    .filter(layer => layer.type !== 'text' || layer.text.length > 0)
+
+  return {
+    ...definition.output,
+    cropMode: background?.cropMode,
+    transition: background?.transition,
+    transitionDuration: background?.transitionDuration,
+    kenBurnsZoom: background?.kenBurnsZoom,
+    captions: !!captions,
+    subtitleStyle: captions?.style,
+    emphasizeKeywords: captions?.emphasizeKeywords ?? true,
+    brand: cards?.brand ?? null,
+    layers,
+  }
+}
+
+/**
+ * Compile logo, text and progress bar layers into filters and text overlays
+ * Logos missing from public/ are skipped with a warning.
+ *
+ * @example
+ * ```typescript
+ * const compiled = compileOverlayLayers(
+ *   options.layers,
+ *   { width: 1080, height: 1920, fps: 30, narrationDuration: 42, duration: 45 },
+ *   { input: 'branded', output: 'layered', firstInput: 4 }
+ * )
+ * compiled.inputs.forEach(file => command.input(file))
+ * ```
+ */
+export function compileOverlayLayers(
+  layers: OverlayLayer[],
+  frame: OverlayFrame,
+  labels: OverlayLabels
+): CompiledOverlays {
+  const { width, height } = frame
+
+  // Font sizes and margins are designed for a 1080px frame
+  const scale = Math.min(width, height) / 1080
+
+  const inputs: string[] = []
+  const filters: string[] = []
+  const overlays: AssTextOverlay[] = []
+  let current = labels.input
+  let step = 0
+
+  const next = () => `layer${++step}`
+
+  for (const layer of layers) {
+    const { start, end } = resolveTiming(layer.timing, frame)
+    if (end <= start) continue
+
+    const enable = `between(t,${start.toFixed(2)},${end.toFixed(2)})`
+
+    if (layer.type === 'text') {
+      overlays.push({
+        text: layer.text,
+        start,
+        end,
+        x: width * layer.x,
+        y: height * layer.y,
+        fontName: layer.fontName ?? 'Noto Sans',
+        fontSize: layer.fontSize * scale,
+        color: layer.color ?? '#FFFFFF',
+        bold: layer.bold,
+      })
+      continue
+    }
+
+    if (layer.type === 'progressBar') {
+      const barHeight = Math.max(2, Math.round(layer.height * scale / 2) * 2)
+      const opacity = layer.opacity !== undefined && layer.opacity < 1
+        ? `,colorchannelmixer=aa=${layer.opacity}`
+        : ''
+      const bar = next()
+      const composed = next()
+      // A full-width bar slides in from the left, reaching the right edge at the layer's end
+      filters.push(
+        `color=c=${toFfmpegColor(layer.color)}:s=${width}x${barHeight}:r=${frame.fps}:d=${frame.duration.toFixed(3)},` +
+        `format=rgba${opacity}[${bar}]`,
+        `[${current}][${bar}]overlay=x='-w+w*(t-${start.toFixed(3)})/${(end - start).toFixed(3)}':` +
+        `y=${layer.position === 'top' ? 0 : `H-${barHeight}`}:enable='${enable}'[${composed}]`
+      )
+      current = composed
+      continue
+    }
+
+    const filePath = resolvePublicAsset(layer.src)
+    if (!filePath || !existsSync(filePath)) {
+      console.warn(`[Video Templates] Logo not found, skipping: ${layer.src}`)
+      continue
+    }
+
+    const input = labels.firstInput + inputs.length
+    inputs.push(filePath)
+
+    const margin = Math.round(Math.min(width, height) * (layer.margin ?? 0.04))
+    const [vertical, horizontal] = layer.position.split('-')
+    const opacity = layer.opacity !== undefined && layer.opacity < 1
+      ? `,colorchannelmixer=aa=${layer.opacity}`
+      : ''
+    const scaled = next()
+    const composed = next()
+
+    filters.push(
+      `[${input}:v]scale=-2:${Math.round(height * layer.height)},format=rgba${opacity}[${scaled}]`,
+      `[${current}][${scaled}]overlay=x=${horizontal === 'left' ? margin : `W-w-${margin}`}:` +
+      `y=${vertical === 'top' ? margin : `H-h-${margin}`}:enable='${enable}'[${composed}]`
+    )
+    current = composed
+  }
+
+  if (current === labels.input) {
+    filters.push(`[${current}]null[${labels.output}]`)
+  } else {
+    // Rename the last label to the requested output
+    const last = filters.length - 1
+    filters[last] = filters[last].replace(new RegExp(`\\[${current}\\]$`), `[${labels.output}]`)
+  }
+
+  return { inputs, filters, overlays }
+}
+
+/**
+ * Load a stored template's definition
+ *
+ * @returns null if there is no template with this id
+ */
+export async function loadVideoTemplate(
+  id: number
+): Promise<{ id: number; name: string; definition: VideoTemplateDefinition } | null> {
+  const template = await prisma.videoTemplate.findUnique({ where: { id } })
+  if (!template) {
+    return null
+  }
+
+  return {
+    id: template.id,
+    name: template.name,
+    definition: template.definition as unknown as VideoTemplateDefinition,
+  }
+}
@@ -2,20 +2,39 @@
  * Video Generation Utility using FFmpeg
  * 
  * This module provides functions to create videos by combining
- * visual assets with audio narration and subtitles.
+ * visual assets with audio narration and subtitles. An optional music bed
+ * is ducked under the narration, and the mix is normalized to -14 LUFS.
+ * Book branding (title card, cover badge, end card) comes from a brand
+ * template (see lib/brand-templates.ts); logos, text and progress bars come
+ * from video template layers (see lib/video-templates.ts).
  * 
  * Prerequisites:
  * - FFmpeg must be installed on the system
  * - npm install fluent-ffmpeg @types/fluent-ffmpeg
  * 
  * Output: 1080x1920 vertical video (9:16 aspect ratio for social media reels)
+ * by default, or any profile from lib/output-profiles.ts (several profiles
+ * can be rendered from the same narration with createVideos())
  */
 
 import ffmpeg from 'fluent-ffmpeg'
-import { writeFile, mkdir, unlink } from 'fs/promises'
+import { writeFile, mkdir, unlink, stat } from 'fs/promises'
 import { existsSync } from 'fs'
 import path from 'path'
 import { randomUUID } from 'crypto'
+import { WordTiming, matchWordTimings } from './word-timing'
+import { createWorkspace, removeWorkspace } from './workspace'
+import { buildAssSubtitles, resolveSubtitlePreset, SubtitleStyleOptions, AssTextOverlay } from './ass-subtitles'
+import { BrandTemplate, BrandingContent, compileBranding } from './brand-templates'
+import { OverlayLayer, compileOverlayLayers } from './video-templates'
+import { OUTPUT_PROFILES, OutputProfileName, CropMode, DEFAULT_CROP_MODE } from './output-profiles'
+import { analyzeClipFraming, getFramingFilters } from './smart-crop'
+import {
+  TransitionType,
+  buildKenBurnsFilter,
+  buildTransitionFilters,
+  getTransitionDuration,
+} from './transitions'
 
 // ============================================================================
 // Types
@@ -26,7 +45,11 @@ export interface VideoClip {
   filePath: string
   /** Type of media */
   type: 'video' | 'image'
-  /** Duration to show this clip (for images, or to trim videos) */
+  /**
+   * Planned on-screen time in seconds (e.g. a storyboard scene's duration).
+   * When every clip has one, they are scaled to the narration length;
+   * otherwise the narration is split evenly across clips.
+   */
   duration?: number
 }
 
@@ -37,6 +60,26 @@ export interface SubtitleSegment {
   endTime: number
   /** Text to display */
   text: string
+  /** Per-word timing from the narration (drives word highlighting) */
+  words?: WordTiming[]
+}
+
+export interface MusicOptions {
+  /** Path to the music track (looped or trimmed to the narration length) */
+  filePath: string
+  /** Music level before ducking, relative to the narration (default: 0.35) */
+  volume?: number
+  /** Fade-in length in seconds (default: 1.5) */
+  fadeIn?: number
+  /** Fade-out length in seconds (default: 2.5) */
+  fadeOut?: number
+}
+
+export interface BrandingOptions {
+  /** Layout and colors of the title card, cover badge and end card */
+  template: BrandTemplate
+  /** Book title, author, cover and call-to-action */
+  content: BrandingContent
 }
 
 export interface CreateVideoOptions {
@@ -50,12 +93,36 @@ export interface CreateVideoOptions {
   videoBitrate?: string
   /** Audio bitrate (default: '128k') */
   audioBitrate?: string
+  /** x264 quality, lower is better (default: 23) */
+  crf?: number
   /** Background color for letterboxing (default: '#000000') */
   backgroundColor?: string
-  /** Font for subtitles (default: 'Arial') */
+  /** How footage is fitted to the frame (default: 'smart' crop) */
+  cropMode?: CropMode
+  /** Background music, ducked under the narration */
+  music?: MusicOptions
+  /** Transition between clips (default: 'cut') */
+  transition?: TransitionType
+  /** Transition length in seconds (default: 0.5, capped at half the shortest clip) */
+  transitionDuration?: number
+  /** Ken Burns zoom applied over each still image, e.g. 0.1 = 10% (default: 0.1, 0 disables) */
+  kenBurnsZoom?: number
+  /** Title card, cover badge and end card (none by default) */
+  branding?: BrandingOptions
+  /** Logo, text and progress bar layers drawn over the branded video */
+  layers?: OverlayLayer[]
+  /** Burn in the narration captions (default: true; layer and card text is always drawn) */
+  captions?: boolean
+  /** Subtitle preset, word highlighting and keyword emphasis (default: 'tiktok' preset) */
+  subtitleStyle?: SubtitleStyleOptions
+  /** Font for subtitles (overrides the preset font) */
   subtitleFont?: string
-  /** Font size for subtitles (default: 48) */
+  /** Font size for subtitles in pixels (overrides the preset size) */
   subtitleFontSize?: number
+  /** Word timings from the voiceover, used to sync subtitles to the narration */
+  wordTimings?: WordTiming[]
+  /** Called with render progress (0-100) from FFmpeg's progress events */
+  onProgress?: (percent: number) => void
 }
 
 export interface VideoResult {
@@ -63,10 +130,21 @@ export interface VideoResult {
   videoUrl: string
   /** Absolute file path */
   filePath: string
-  /** Duration in seconds */
+  /** Duration in seconds (narration plus any end card) */
   duration: number
   /** File size in bytes */
   fileSize: number
+  /** Frame size */
+  width: number
+  height: number
+  /** Output profile, when rendered with createVideos() */
+  profile?: OutputProfileName
+}
+
+interface RenderTarget {
+  width: number
+  height: number
+  profile?: OutputProfileName
 }
 
 // ============================================================================
@@ -77,6 +155,11 @@ const OUTPUT_DIR = 'public/videos'
 const OUTPUT_WIDTH = 1080
 const OUTPUT_HEIGHT = 1920
 
+/** Integrated loudness target for social platforms (LUFS) */
+const LOUDNESS_TARGET = -14
+const TRUE_PEAK_LIMIT = -1.5
+const AUDIO_SAMPLE_RATE = 44100
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -94,11 +177,16 @@ async function ensureOutputDir(): Promise<string> {
 
 /**
  * Generate subtitle timing from script
- * Splits script into segments based on punctuation and estimates timing
+ * Splits script into segments based on punctuation. Uses word timings from
+ * the voiceover when provided, otherwise estimates timing evenly.
+ *
+ * @param maxWords - Maximum words per caption (default: 8)
  */
 export function generateSubtitleSegments(
   script: string,
-  totalDuration: number
+  totalDuration: number,
+  wordTimings?: WordTiming[],
+  maxWords: number = 8
 ): SubtitleSegment[] {
   // Split script into sentences
   const sentences = script
@@ -110,20 +198,51 @@ export function generateSubtitleSegments(
     return []
   }
 
+  // Split each sentence into chunks of at most maxWords words for readability
+  const sentenceChunks = sentences.map(sentence => {
+    const words = sentence.split(/\s+/)
+    const chunks: string[][] = []
+
+    for (let i = 0; i < words.length; i += maxWords) {
+      chunks.push(words.slice(i, i + maxWords))
+    }
+
+    return chunks
+  })
+
+  // Use real word start/end times when the narration alignment is available
+  const timings = wordTimings && wordTimings.length > 0
+    ? matchWordTimings(sentenceChunks.flat(2), wordTimings)
+    : null
+
+  if (timings) {
+    const alignedSegments: SubtitleSegment[] = []
+    let offset = 0
+
+    for (const chunk of sentenceChunks.flat()) {
+      const words = timings.slice(offset, offset + chunk.length)
+      const first = words[0]
+      const last = words[words.length - 1]
+      offset += chunk.length
+
+      alignedSegments.push({
+        startTime: Math.min(first.start, totalDuration),
+        endTime: Math.min(Math.max(last.end, first.start), totalDuration),
+        text: chunk.join(' '),
+        words,
+      })
+    }
+
+    return alignedSegments
+  }
+
   const segments: SubtitleSegment[] = []
   const durationPerSentence = totalDuration / sentences.length
   
-  // Further split long sentences for better readability
   let currentTime = 0
   
-  for (const sentence of sentences) {
-    // Split into chunks of ~10 words max
-    const words = sentence.split(/\s+/)
-    const chunks: string[] = []
-    
-    for (let i = 0; i < words.length; i += 8) {
-      chunks.push(words.slice(i, i + 8).join(' '))
-    }
+  for (const sentenceChunk of sentenceChunks) {
+    const chunks = sentenceChunk.map(words => words.join(' '))
     
     const chunkDuration = durationPerSentence / chunks.length
     
@@ -141,37 +260,21 @@ export function generateSubtitleSegments(
 }
 
 /**
- * Create an SRT subtitle file
+ * Create an ASS subtitle file (styled captions with word highlighting,
+ * plus any title/end card text)
  */
 async function createSubtitleFile(
   segments: SubtitleSegment[],
-  outputPath: string
+  assPath: string,
+  width: number,
+  height: number,
+  style: SubtitleStyleOptions,
+  overlays: AssTextOverlay[] = []
 ): Promise<string> {
-  const srtContent = segments
-    .map((segment, index) => {
-      const startTime = formatSrtTime(segment.startTime)
-      const endTime = formatSrtTime(segment.endTime)
-      return `${index + 1}\n${startTime} --> ${endTime}\n${segment.text}\n`
-    })
-    .join('\n')
+  await writeFile(assPath, buildAssSubtitles(segments, width, height, style, overlays), 'utf-8')
 
-  const srtPath = outputPath.replace('.mp4', '.srt')
-  await writeFile(srtPath, srtContent, 'utf-8')
-  
-  console.log(`[Video] Created subtitle file: ${srtPath}`)
-  return srtPath
-}
-
-/**
- * Format seconds to SRT time format (HH:MM:SS,mmm)
- */
-function formatSrtTime(seconds: number): string {
-  const hours = Math.floor(seconds / 3600)
-  const minutes = Math.floor((seconds % 3600) / 60)
-  const secs = Math.floor(seconds % 60)
-  const ms = Math.floor((seconds % 1) * 1000)
-  
-  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')},${String(ms).padStart(3, '0')}`
+  console.log(`[Video] Created subtitle file: ${assPath} (${style.preset ?? 'default'} preset)`)
+  return assPath
 }
 
 /**
@@ -190,13 +293,40 @@ function getMediaDuration(filePath: string): Promise<number> {
 }
 
 /**
- * Create a video from a single clip, scaled and padded to target dimensions
+ * Work out how long each clip is shown
+ * Planned durations (storyboard scenes) are scaled to the narration length,
+ * so each clip stays at its scene's relative position in the voiceover.
+ */
+function getClipDurations(clips: VideoClip[], totalDuration: number): number[] {
+  const planned = clips.map(clip => clip.duration ?? 0)
+  const plannedTotal = planned.reduce((sum, d) => sum + d, 0)
+
+  if (planned.some(d => d <= 0) || plannedTotal <= 0) {
+    return clips.map(() => totalDuration / clips.length)
+  }
+
+  return planned.map(d => (d / plannedTotal) * totalDuration)
+}
+
+/**
+ * Convert an FFmpeg timemark (HH:MM:SS.xx) to seconds
+ */
+function parseTimemark(timemark: string): number {
+  return timemark
+    .split(':')
+    .reduce((total, part) => total * 60 + (parseFloat(part) || 0), 0)
+}
+
+/**
+ * Create a video from a single clip, framed to target dimensions
+ *
+ * @param clipFilters - Framing filters, plus motion for stills
  */
 async function processClip(
   clip: VideoClip,
   targetDuration: number,
-  width: number,
-  height: number,
+  fps: number,
+  clipFilters: string[],
   outputPath: string
 ): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -206,17 +336,19 @@ async function processClip(
     if (clip.type === 'image') {
       command = command
         .loop(targetDuration)
-        .inputOptions(['-t', targetDuration.toString()])
+        // Read the still at the output rate so zoompan makes one frame per output frame
+        .inputOptions(['-framerate', fps.toString(), '-t', targetDuration.toString()])
+    } else {
+      // Loop short footage so it fills its scene
+      command = command.inputOptions(['-stream_loop', '-1'])
     }
     
     command
       .videoFilters([
-        // Scale to fit within dimensions while maintaining aspect ratio
-        `scale=${width}:${height}:force_original_aspect_ratio=decrease`,
-        // Pad to exact dimensions with black background
-        `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black`,
+        // Crop (or letterbox) to the target frame, then Ken Burns motion
+        ...clipFilters,
         // Set frame rate
-        'fps=30',
+        `fps=${fps}`,
       ])
       .outputOptions([
         '-t', targetDuration.toString(),
@@ -231,39 +363,170 @@ async function processClip(
   })
 }
 
-// ============================================================================
-// Main Function
-// ============================================================================
+/**
+ * Build the audio filters: narration (plus ducked, faded music) normalized
+ * to LOUDNESS_TARGET. The music input (if any) follows the narration input;
+ * the result is labelled [a].
+ *
+ * @param tailDuration - Seconds after the narration (end card), filled with music or silence
+ */
+function buildAudioFilters(
+  voiceInput: number,
+  narrationDuration: number,
+  tailDuration: number,
+  music?: MusicOptions
+): string[] {
+  const format = `aformat=sample_rates=${AUDIO_SAMPLE_RATE}:channel_layouts=stereo`
+  const loudnorm = `loudnorm=I=${LOUDNESS_TARGET}:TP=${TRUE_PEAK_LIMIT}:LRA=11`
+  const pad = tailDuration > 0 ? `,apad=pad_dur=${tailDuration.toFixed(3)}` : ''
+  const duration = narrationDuration + tailDuration
+
+  if (!music) {
+    return [`[${voiceInput}:a]${format}${pad},${loudnorm},aresample=${AUDIO_SAMPLE_RATE}[a]`]
+  }
+
+  const volume = music.volume ?? 0.35
+  const fadeIn = Math.min(music.fadeIn ?? 1.5, duration / 2)
+  const fadeOut = Math.min(music.fadeOut ?? 2.5, duration / 2)
+  const fadeOutStart = Math.max(0, duration - fadeOut)
+
+  return [
+    // Narration is both mixed and used as the ducking key
+    `[${voiceInput}:a]${format}${pad},asplit=2[voice][key]`,
+    // Music: trimmed to the narration (the input loops), leveled and faded
+    `[${voiceInput + 1}:a]${format},atrim=duration=${duration.toFixed(3)},asetpts=PTS-STARTPTS,volume=${volume},` +
+      `afade=t=in:st=0:d=${fadeIn.toFixed(2)},afade=t=out:st=${fadeOutStart.toFixed(3)}:d=${fadeOut.toFixed(2)}[music]`,
+    // Duck the music whenever the narration speaks
+    '[music][key]sidechaincompress=threshold=0.03:ratio=8:attack=20:release=400[ducked]',
+    '[voice][ducked]amix=inputs=2:duration=first:dropout_transition=0[mixed]',
+    `[mixed]${loudnorm},aresample=${AUDIO_SAMPLE_RATE}[a]`,
+  ]
+}
 
 /**
- * Create a video from clips, audio, and script
- * 
- * @param voiceFile - Path to the narration audio file (MP3)
- * @param clips - Array of video/image clips to combine
- * @param script - Script text for generating subtitles
- * @param options - Video creation options
- * @returns Promise<VideoResult>
- * 
- * @example
- * ```typescript
- * const result = await createVideo(
- *   '/tmp/voice.mp3',
- *   [
- *     { filePath: '/tmp/clip1.mp4', type: 'video' },
- *     { filePath: '/tmp/image1.jpg', type: 'image' },
- *   ],
- *   'This is the narration script for the video.',
- *   { width: 1080, height: 1920 }
- * )
- * // result.videoUrl -> '/videos/abc123.mp4'
- * ```
+ * Join processed clips (with transitions) and combine them with narration,
+ * music and subtitles into the final MP4
  */
-export async function createVideo(
+function renderFinalVideo(
+  processedClips: string[],
+  voiceFile: string,
+  subtitlePath: string,
+  outputPath: string,
+  settings: {
+    fps: number
+    videoBitrate: string
+    audioBitrate: string
+    crf: number
+    duration: number
+    clipDurations: number[]
+    transition: TransitionType
+    transitionDuration: number
+    music?: MusicOptions
+    /** Seconds after the narration (end card) */
+    tailDuration: number
+    /** Filters from [joined] to [layered] (branding, then template layers) */
+    overlayFilters: string[]
+    /** Images used by the overlay filters (cover, logos), added after the audio inputs */
+    imageInputs: string[]
+  },
+  onProgress?: (percent: number) => void
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const command = ffmpeg()
+
+    // Inputs: processed clips, in timeline order
+    for (const clipPath of processedClips) {
+      command.input(clipPath)
+    }
+
+    // Input: audio narration
+    const voiceInput = processedClips.length
+    command.input(voiceFile)
+
+    // Input: music bed, looped so short tracks cover the whole video
+    if (settings.music) {
+      command
+        .input(settings.music.filePath)
+        .inputOptions(['-stream_loop', '-1'])
+    }
+
+    // Inputs: book cover and logos for the overlay layers
+    for (const imagePath of settings.imageInputs) {
+      command.input(imagePath)
+    }
+
+    command
+      // Complex filter for transitions, branding, template layers, subtitles and the audio mix
+      .complexFilter([
+        ...buildTransitionFilters(
+          settings.clipDurations,
+          settings.transition,
+          settings.transitionDuration,
+          'joined'
+        ),
+        ...settings.overlayFilters,
+        // Burn subtitles into video (styling lives in the .ass file)
+        {
+          filter: 'subtitles',
+          options: {
+            filename: subtitlePath,
+            ...(process.env.SUBTITLE_FONTS_DIR && { fontsdir: process.env.SUBTITLE_FONTS_DIR }),
+          },
+          inputs: 'layered',
+          outputs: 'v',
+        },
+        ...buildAudioFilters(voiceInput, settings.duration - settings.tailDuration, settings.tailDuration, settings.music),
+      ])
+      .outputOptions([
+        '-map', '[v]',
+        '-map', '[a]',
+        '-c:v', 'libx264',
+        '-preset', 'medium',
+        '-crf', settings.crf.toString(),
+        '-b:v', settings.videoBitrate,
+        '-c:a', 'aac',
+        '-b:a', settings.audioBitrate,
+        '-r', settings.fps.toString(),
+        '-pix_fmt', 'yuv420p',
+        '-movflags', '+faststart',
+        '-shortest',
+      ])
+      .output(outputPath)
+      .on('start', (cmd) => {
+        console.log(`[Video] FFmpeg command: ${cmd.substring(0, 100)}...`)
+      })
+      .on('progress', (progress) => {
+        // FFmpeg's own percent follows the first input (one clip), so use the timemark
+        if (progress.timemark && settings.duration > 0) {
+          const percent = Math.min(100, (parseTimemark(progress.timemark) / settings.duration) * 100)
+          console.log(`[Video] Progress: ${percent.toFixed(1)}%`)
+          onProgress?.(Math.max(0, percent))
+        }
+      })
+      .on('end', () => {
+        console.log(`[Video] Video created successfully`)
+        resolve()
+      })
+      .on('error', (err) => {
+        console.error(`[Video] FFmpeg error:`, err)
+        reject(err)
+      })
+      .run()
+  })
+}
+
+/**
+ * Render one or more frame sizes from the same narration and clip timeline
+ * Clip timing, subtitle timing and focus points are worked out once and
+ * shared by every target.
+ */
+async function renderTargets(
   voiceFile: string,
   clips: VideoClip[],
   script: string,
-  options: CreateVideoOptions = {}
-): Promise<VideoResult> {
+  targets: RenderTarget[],
+  options: CreateVideoOptions
+): Promise<VideoResult[]> {
   // Validate inputs
   if (!voiceFile) {
     throw new Error('Voice file is required')
@@ -272,150 +535,268 @@ export async function createVideo(
     throw new Error('At least one clip is required')
   }
 
-  const width = options.width || OUTPUT_WIDTH
-  const height = options.height || OUTPUT_HEIGHT
   const fps = options.fps || 30
   const videoBitrate = options.videoBitrate || '4000k'
   const audioBitrate = options.audioBitrate || '128k'
-  const subtitleFontSize = options.subtitleFontSize || 48
+  const crf = options.crf ?? 23
+  const cropMode = options.cropMode || DEFAULT_CROP_MODE
+  const transition = options.transition || 'cut'
+  const kenBurnsZoom = options.kenBurnsZoom ?? 0.1
+  const subtitleStyle: SubtitleStyleOptions = {
+    ...options.subtitleStyle,
+    fontName: options.subtitleFont ?? options.subtitleStyle?.fontName,
+    fontSize: options.subtitleFontSize ?? options.subtitleStyle?.fontSize,
+  }
 
   console.log(`[Video] Starting video creation`)
-  console.log(`[Video] Resolution: ${width}x${height}`)
+  console.log(`[Video] Resolution: ${targets.map(t => `${t.width}x${t.height}`).join(', ')} (${cropMode} framing)`)
   console.log(`[Video] Clips: ${clips.length}`)
+  if (options.music) {
+    console.log(`[Video] Music: ${path.basename(options.music.filePath)}`)
+  }
 
   // Ensure output directory exists
   const outputDir = await ensureOutputDir()
-  const videoId = randomUUID()
-  const outputPath = path.join(outputDir, `${videoId}.mp4`)
-  const tempDir = '/tmp/mindshelf-video'
+  const outputPaths: string[] = []
 
-  // Create temp directory
-  if (!existsSync(tempDir)) {
-    await mkdir(tempDir, { recursive: true })
-  }
+  // Isolated workspace so concurrent renders never share intermediate files
+  const workspace = await createWorkspace()
 
   try {
     // Get audio duration to determine total video length
     const audioDuration = await getMediaDuration(voiceFile)
     console.log(`[Video] Audio duration: ${audioDuration.toFixed(2)}s`)
 
-    // Calculate duration per clip
-    const clipDuration = audioDuration / clips.length
-    console.log(`[Video] Duration per clip: ${clipDuration.toFixed(2)}s`)
-
-    // Process each clip to match target dimensions
-    console.log(`[Video] Processing ${clips.length} clips...`)
-    const processedClips: string[] = []
-
-    for (let i = 0; i < clips.length; i++) {
-      const clip = clips[i]
-      const clipOutput = path.join(tempDir, `clip_${i}.mp4`)
-      
-      await processClip(clip, clipDuration, width, height, clipOutput)
-      processedClips.push(clipOutput)
-      console.log(`[Video] Processed clip ${i + 1}/${clips.length}`)
-    }
+    // Calculate on-screen time for each clip
+    const clipDurations = getClipDurations(clips, audioDuration)
+    console.log(`[Video] Clip durations: ${clipDurations.map(d => d.toFixed(2)).join('s, ')}s`)
 
-    // Create concat file for FFmpeg
-    const concatFilePath = path.join(tempDir, 'concat.txt')
-    const concatContent = processedClips.map(p => `file '${p}'`).join('\n')
-    await writeFile(concatFilePath, concatContent, 'utf-8')
-
-    // Generate subtitle segments
-    const subtitleSegments = generateSubtitleSegments(script, audioDuration)
-    const subtitlePath = await createSubtitleFile(subtitleSegments, outputPath)
-
-    // Create final video with audio and subtitles
-    console.log(`[Video] Creating final video with audio and subtitles...`)
-
-    await new Promise<void>((resolve, reject) => {
-      ffmpeg()
-        // Input: concatenated clips
-        .input(concatFilePath)
-        .inputOptions(['-f', 'concat', '-safe', '0'])
-        // Input: audio narration
-        .input(voiceFile)
-        // Complex filter for subtitles
-        .complexFilter([
-          // Burn subtitles into video
-          {
-            filter: 'subtitles',
-            options: {
-              filename: subtitlePath,
-              force_style: `FontSize=${subtitleFontSize},FontName=Arial,PrimaryColour=&HFFFFFF,OutlineColour=&H000000,Outline=2,Shadow=1,Alignment=2,MarginV=100`,
-            },
-            inputs: '0:v',
-            outputs: 'v',
-          },
-        ])
-        .outputOptions([
-          '-map', '[v]',
-          '-map', '1:a',
-          '-c:v', 'libx264',
-          '-preset', 'medium',
-          '-crf', '23',
-          '-b:v', videoBitrate,
-          '-c:a', 'aac',
-          '-b:a', audioBitrate,
-          '-r', fps.toString(),
-          '-pix_fmt', 'yuv420p',
-          '-movflags', '+faststart',
-          '-shortest',
-        ])
-        .output(outputPath)
-        .on('start', (cmd) => {
-          console.log(`[Video] FFmpeg command: ${cmd.substring(0, 100)}...`)
-        })
-        .on('progress', (progress) => {
-          if (progress.percent) {
-            console.log(`[Video] Progress: ${progress.percent.toFixed(1)}%`)
-          }
-        })
-        .on('end', () => {
-          console.log(`[Video] Video created successfully`)
-          resolve()
-        })
-        .on('error', (err) => {
-          console.error(`[Video] FFmpeg error:`, err)
-          reject(err)
-        })
-        .run()
-    })
-
-    // Get output file stats
-    const { stat } = await import('fs/promises')
-    const stats = await stat(outputPath)
-
-    // Clean up temp files
-    console.log(`[Video] Cleaning up temp files...`)
-    for (const clipPath of processedClips) {
-      try {
-        await unlink(clipPath)
-      } catch (e) {
-        // Ignore cleanup errors
-      }
-    }
-    try {
-      await unlink(concatFilePath)
-      await unlink(subtitlePath)
-    } catch (e) {
-      // Ignore cleanup errors
+    // Clips before a transition run longer so the overlap keeps scene timing
+    const transitionDuration = getTransitionDuration(transition, options.transitionDuration ?? 0.5, clipDurations)
+    const renderDurations = clipDurations.map((d, i) => i < clips.length - 1 ? d + transitionDuration : d)
+    if (transitionDuration > 0) {
+      console.log(`[Video] Transitions: ${transition} (${transitionDuration.toFixed(2)}s)`)
     }
 
-    const videoUrl = `/videos/${videoId}.mp4`
-    console.log(`[Video] Output: ${videoUrl}`)
+    // Find each clip's focus point once; every target crops around it
+    const framings = cropMode === 'smart'
+      ? await Promise.all(clips.map(clip => analyzeClipFraming(clip.filePath)))
+      : clips.map(() => null)
+
+    // Generate subtitle segments (caption length follows the preset)
+    const subtitleSegments = options.captions === false
+      ? []
+      : generateSubtitleSegments(
+          script,
+          audioDuration,
+          options.wordTimings,
+          resolveSubtitlePreset(subtitleStyle).maxWords
+        )
+
+    const results: VideoResult[] = []
+
+    for (let t = 0; t < targets.length; t++) {
+      const { width, height, profile } = targets[t]
+      const targetName = profile ?? `${width}x${height}`
+
+      // Process each clip to match target dimensions
+      console.log(`[Video] Processing ${clips.length} clips for ${targetName}...`)
+      const processedClips: string[] = []
+
+      for (let i = 0; i < clips.length; i++) {
+        const clipOutput = workspace.file(`clip_${t}_${i}.mp4`)
+        const clipFilters = getFramingFilters(width, height, cropMode, framings[i])
+
+        // Slow pan/zoom so stills don't sit as static frames
+        if (clips[i].type === 'image' && kenBurnsZoom > 0) {
+          clipFilters.push(buildKenBurnsFilter(i, renderDurations[i], width, height, fps, kenBurnsZoom))
+        }
+
+        await processClip(clips[i], renderDurations[i], fps, clipFilters, clipOutput)
+        processedClips.push(clipOutput)
+        console.log(`[Video] Processed clip ${i + 1}/${clips.length}`)
+      }
 
-    return {
-      videoUrl,
-      filePath: outputPath,
-      duration: audioDuration,
-      fileSize: stats.size,
+      // Branding and template layers are laid out per frame size;
+      // their images follow the narration and music inputs
+      const firstImageInput = clips.length + (options.music ? 2 : 1)
+      const coverPath = options.branding?.content.coverPath
+      const branding = options.branding
+        ? compileBranding(
+            options.branding.template,
+            options.branding.content,
+            { width, height, fps, narrationDuration: audioDuration },
+            {
+              input: 'joined',
+              output: 'branded',
+              coverInput: coverPath ? firstImageInput : undefined,
+            }
+          )
+        : null
+      const tailDuration = branding?.tailDuration ?? 0
+
+      const layers = compileOverlayLayers(
+        options.layers ?? [],
+        { width, height, fps, narrationDuration: audioDuration, duration: audioDuration + tailDuration },
+        {
+          input: branding ? 'branded' : 'joined',
+          output: 'layered',
+          firstInput: firstImageInput + (coverPath ? 1 : 0),
+        }
+      )
+
+      // Subtitles are laid out per frame size
+      const subtitlePath = await createSubtitleFile(
+        subtitleSegments,
+        workspace.file(`subtitles_${t}.ass`),
+        width,
+        height,
+        subtitleStyle,
+        [...(branding?.overlays ?? []), ...layers.overlays]
+      )
+
+      // Create final video with audio and subtitles
+      console.log(`[Video] Creating final ${targetName} video with audio and subtitles...`)
+
+      const videoId = randomUUID()
+      const outputPath = path.join(outputDir, `${videoId}.mp4`)
+      outputPaths.push(outputPath)
+
+      await renderFinalVideo(
+        processedClips,
+        voiceFile,
+        subtitlePath,
+        outputPath,
+        {
+          fps,
+          videoBitrate,
+          audioBitrate,
+          crf,
+          duration: audioDuration + tailDuration,
+          clipDurations,
+          transition,
+          transitionDuration,
+          music: options.music,
+          tailDuration,
+          overlayFilters: [...(branding?.filters ?? []), ...layers.filters],
+          imageInputs: [...(coverPath ? [coverPath] : []), ...layers.inputs],
+        },
+        // Report progress across all targets
+        options.onProgress && ((percent) => options.onProgress?.((t * 100 + percent) / targets.length))
+      )
+
+      // Get output file stats
+      const stats = await stat(outputPath)
+
+      const videoUrl = `/videos/${videoId}.mp4`
+      console.log(`[Video] Output: ${videoUrl}`)
+
+      results.push({
+        videoUrl,
+        filePath: outputPath,
+        duration: audioDuration + tailDuration,
+        fileSize: stats.size,
+        width,
+        height,
+        ...(profile && { profile }),
+      })
     }
 
+    return results
+
   } catch (error) {
     console.error(`[Video] Error creating video:`, error)
+    // Don't leave partial (or orphaned sibling) videos behind
+    for (const outputPath of outputPaths) {
+      await unlink(outputPath).catch(() => {
+        // Never written
+      })
+    }
     throw error
+  } finally {
+    await removeWorkspace(workspace)
+  }
+}
+
+// ============================================================================
+// Main Functions
+// ============================================================================
+
+/**
+ * Create a video from clips, audio, and script
+ * 
+ * @param voiceFile - Path to the narration audio file (MP3)
+ * @param clips - Array of video/image clips to combine
+ * @param script - Script text for generating subtitles
+ * @param options - Video creation options
+ * @returns Promise<VideoResult>
+ * 
+ * @example
+ * ```typescript
+ * const result = await createVideo(
+ *   '/tmp/voice.mp3',
+ *   [
+ *     { filePath: '/tmp/clip1.mp4', type: 'video', duration: 4 },
+ *     { filePath: '/tmp/image1.jpg', type: 'image', duration: 6 },
+ *   ],
+ *   'This is the narration script for the video.',
+ *   { width: 1080, height: 1920 }
+ * )
+ * // result.videoUrl -> '/videos/abc123.mp4'
+ * ```
+ */
+export async function createVideo(
+  voiceFile: string,
+  clips: VideoClip[],
+  script: string,
+  options: CreateVideoOptions = {}
+): Promise<VideoResult> {
+  const [result] = await renderTargets(
+    voiceFile,
+    clips,
+    script,
+    [{ width: options.width || OUTPUT_WIDTH, height: options.height || OUTPUT_HEIGHT }],
+    options
+  )
+
+  return result
+}
+
+/**
+ * Create one video per output profile from the same clips, audio and script
+ *
+ * @param profiles - Profiles to render (e.g. ['reels', 'square', 'landscape'])
+ * @returns One VideoResult per profile, in the requested order
+ *
+ * @example
+ * ```typescript
+ * const [reel, youtube] = await createVideos(
+ *   '/tmp/voice.mp3',
+ *   clips,
+ *   script,
+ *   ['reels', 'landscape'],
+ *   { cropMode: 'smart' }
+ * )
+ * ```
+ */
+export async function createVideos(
+  voiceFile: string,
+  clips: VideoClip[],
+  script: string,
+  profiles: OutputProfileName[],
+  options: Omit<CreateVideoOptions, 'width' | 'height'> = {}
+): Promise<VideoResult[]> {
+  if (profiles.length === 0) {
+    throw new Error('At least one output profile is required')
   }
+
+  const targets = Array.from(new Set(profiles)).map(name => ({
+    width: OUTPUT_PROFILES[name].width,
+    height: OUTPUT_PROFILES[name].height,
+    profile: name,
+  }))
+
+  return renderTargets(voiceFile, clips, script, targets, options)
 }
 
 /**
@@ -444,7 +825,7 @@ export async function createSimpleVideo(
         '-pix_fmt', 'yuv420p',
         '-shortest',
         '-t', duration.toString(),
-        '-vf', `scale=1080:1920:force_original_aspect_ratio=decrease,pad=1080:1920:(ow-iw)/2:(oh-ih)/2:black`,
+        '-vf', `scale=${OUTPUT_WIDTH}:${OUTPUT_HEIGHT}:force_original_aspect_ratio=decrease,pad=${OUTPUT_WIDTH}:${OUTPUT_HEIGHT}:(ow-iw)/2:(oh-ih)/2:black`,
       ])
       .output(outputPath)
       .on('end', () => resolve())
@@ -452,7 +833,6 @@ export async function createSimpleVideo(
       .run()
   })
 
-  const { stat } = await import('fs/promises')
   const stats = await stat(outputPath)
 
   return {
@@ -460,6 +840,8 @@ export async function createSimpleVideo(
     filePath: outputPath,
     duration,
     fileSize: stats.size,
+    width: OUTPUT_WIDTH,
+    height: OUTPUT_HEIGHT,
   }
 }
 
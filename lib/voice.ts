@@ -1,19 +1,28 @@
 /**
- * Production-Grade ElevenLabs Text-to-Speech Integration
+ * Production-Grade Text-to-Speech Integration
  * 
  * This module provides fault-tolerant, validated voice generation with:
+ * - Pluggable TTS providers (ElevenLabs, OpenAI TTS, local Piper/espeak-ng)
+ * - Fallback across configured providers
  * - Runtime voice validation
  * - Capability-aware voice profiles
  * - Safe model enforcement
  * - Silent failure protection
  * - Comprehensive error handling
+ * - Character timestamps for subtitle sync (ElevenLabs only)
  * 
- * Environment Variables Required:
+ * Environment Variables (at least one provider must be configured):
  * - ELEVENLABS_API_KEY: Your ElevenLabs API key
+ * - OPENAI_API_KEY: Enables OpenAI TTS (see lib/tts-providers.ts)
+ * - LOCAL_TTS_ENGINE: Enables the offline engine (piper | espeak-ng)
+ * - TTS_PROVIDER: Provider to try first (elevenlabs | openai | local)
  * 
  * @see https://elevenlabs.io/docs/api-reference/text-to-speech
+ * @see https://elevenlabs.io/docs/api-reference/text-to-speech/convert-with-timestamps
  */
 
+import { openaiTTSProvider, localTTSProvider } from './tts-providers'
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -58,6 +67,18 @@ export interface GenerateVoiceInput {
   voiceId?: string
   /** Custom voice settings (optional, only if supported) */
   settings?: Partial<VoiceSettings>
+  /** Use only this provider (default: try configured providers in order) */
+  provider?: TTSProviderName
+}
+
+/**
+ * Character-level timing of the generated audio
+ * (from the ElevenLabs "with-timestamps" endpoint)
+ */
+export interface VoiceAlignment {
+  characters: string[]
+  characterStartTimes: number[]
+  characterEndTimes: number[]
 }
 
 /**
@@ -70,6 +91,58 @@ export interface VoiceResult {
   voiceName: string
   voiceId: string
   modelUsed: string
+  /** Provider that produced the audio */
+  provider: TTSProviderName
+  /** Character timestamps, if the API returned them */
+  alignment?: VoiceAlignment
+}
+
+export type TTSProviderName = 'elevenlabs' | 'openai' | 'local'
+
+/**
+ * Validated request handed to a provider
+ */
+export interface TTSRequest {
+  /** Sanitized text */
+  text: string
+  tone: VoiceTone
+  /** Provider-specific voice ID; providers that don't know it pick by tone */
+  voiceId?: string
+  settings?: Partial<VoiceSettings>
+}
+
+/**
+ * Audio produced by a provider (duration is added by generateVoice)
+ */
+export interface TTSOutput {
+  audioBuffer: Buffer
+  contentType: string
+  voiceName: string
+  voiceId: string
+  modelUsed: string
+  alignment?: VoiceAlignment
+}
+
+export interface TTSProvider {
+  name: TTSProviderName
+  /** Human-readable name used in logs and error messages */
+  label: string
+  /** Whether the credentials/binaries this provider needs are set */
+  isConfigured(): boolean
+  synthesize(request: TTSRequest): Promise<TTSOutput>
+}
+
+/**
+ * Raw API response from /v1/text-to-speech/{voice_id}/with-timestamps
+ */
+interface ElevenLabsTimestampsResponse {
+  audio_base64: string
+  alignment?: {
+    characters: string[]
+    character_start_times_seconds: number[]
+    character_end_times_seconds: number[]
+  } | null
+  normalized_alignment?: ElevenLabsTimestampsResponse['alignment']
 }
 
 /**
@@ -89,6 +162,8 @@ interface ElevenLabsVoice {
 
 const ELEVENLABS_API_URL = 'https://api.elevenlabs.io/v1'
 
+export const TTS_PROVIDERS: TTSProviderName[] = ['elevenlabs', 'openai', 'local']
+
 /**
  * Safe default model - works with all voices
  */
@@ -472,13 +547,41 @@ function buildRequestBody(
   return body
 }
 
+/**
+ * Convert the API alignment payload into a VoiceAlignment
+ * Returns undefined if the payload is missing or inconsistent
+ */
+function parseAlignment(
+  data: ElevenLabsTimestampsResponse
+): VoiceAlignment | undefined {
+  const raw = data.alignment || data.normalized_alignment
+
+  if (
+    !raw ||
+    !Array.isArray(raw.characters) ||
+    !Array.isArray(raw.character_start_times_seconds) ||
+    !Array.isArray(raw.character_end_times_seconds) ||
+    raw.characters.length === 0 ||
+    raw.characters.length !== raw.character_start_times_seconds.length ||
+    raw.characters.length !== raw.character_end_times_seconds.length
+  ) {
+    return undefined
+  }
+
+  return {
+    characters: raw.characters,
+    characterStartTimes: raw.character_start_times_seconds,
+    characterEndTimes: raw.character_end_times_seconds,
+  }
+}
+
 /**
  * Validate audio buffer to prevent silent failures
  * @throws Error if buffer is invalid or too small
  */
 function validateAudioBuffer(buffer: Buffer): void {
   if (!buffer || !(buffer instanceof Buffer)) {
-    throw new Error('Invalid audio buffer received from API')
+    throw new Error('Invalid audio buffer received from provider')
   }
 
   if (buffer.length < MIN_AUDIO_BUFFER_SIZE) {
@@ -490,81 +593,56 @@ function validateAudioBuffer(buffer: Buffer): void {
   }
 }
 
+// ============================================================================
+// Providers
+// ============================================================================
+
 /**
- * Generate voice-over audio with full validation and error handling
- * 
- * This is the main public API - use this function for all TTS generation
- * 
- * @param input - Generation parameters (text, tone, or voiceId)
- * @returns Promise<VoiceResult> - Audio buffer and metadata
- * 
- * @throws Error with descriptive message if generation fails
- * 
- * @example
- * ```typescript
- * // Generate with tone preset
- * const result = await generateVoice({
- *   text: "Transform your life with these habits!",
- *   tone: "motivational"
- * });
- * 
- * // Generate with specific voice ID
- * const result = await generateVoice({
- *   text: "Welcome to our podcast",
- *   voiceId: "21m00Tcm4TlvDq8ikWAM"
- * });
- * ```
+ * ElevenLabs text-to-speech (the only provider with character timestamps)
  */
-export async function generateVoice(input: GenerateVoiceInput): Promise<VoiceResult> {
-  console.log('[Voice] Starting generation...')
-
-  try {
-    // Step 1: Validate and sanitize input text
-    const sanitizedText = validateAndSanitizeText(input.text)
-    console.log(`[Voice] Text validated: ${sanitizedText.length} characters`)
-
-    // Step 2: Select and validate voice
+const elevenLabsProvider: TTSProvider = {
+  name: 'elevenlabs',
+  label: 'ElevenLabs',
+  isConfigured: () => Boolean(process.env.ELEVENLABS_API_KEY),
+  async synthesize(input: TTSRequest): Promise<TTSOutput> {
+    // Step 1: Select and validate voice
     let voice: VoiceProfile
 
     if (input.voiceId) {
       // Validate provided voice ID
       console.log(`[Voice] Validating provided voice ID: ${input.voiceId}`)
       voice = await validateVoiceId(input.voiceId)
-    } else if (input.tone) {
+    } else {
       // Select voice by tone
       console.log(`[Voice] Selecting voice for tone: ${input.tone}`)
       voice = await selectVoiceByTone(input.tone)
-    } else {
-      // Default to motivational
-      console.log('[Voice] No tone or voiceId provided, using default (motivational)')
-      voice = await selectVoiceByTone('motivational')
     }
 
     console.log(`[Voice] Using voice: ${voice.name} (${voice.voiceId})`)
     console.log(`[Voice] Model: ${voice.recommendedModel}`)
     console.log(`[Voice] Features - Style: ${voice.supportsStyle}, SpeakerBoost: ${voice.supportsSpeakerBoost}`)
 
-    // Step 3: Build safe request body
-    const requestBody = buildRequestBody(sanitizedText, voice, input.settings)
+    // Step 2: Build safe request body
+    const requestBody = buildRequestBody(input.text, voice, input.settings)
 
-    // Step 4: Get API key
+    // Step 3: Get API key
     const apiKey = getApiKey()
 
-    // Step 5: Make API request
-    const url = `${ELEVENLABS_API_URL}/text-to-speech/${voice.voiceId}`
+    // Step 4: Make API request (with character timestamps for subtitle sync)
+    const url = `${ELEVENLABS_API_URL}/text-to-speech/${voice.voiceId}/with-timestamps`
     console.log(`[Voice] Calling API: ${url}`)
 
     const response = await fetch(url, {
       method: 'POST',
       headers: {
-        'Accept': 'audio/mpeg',
+        'Accept': 'application/json',
         'Content-Type': 'application/json',
         'xi-api-key': apiKey,
       },
       body: JSON.stringify(requestBody),
     })
 
-    // Step 6: Handle errors with detailed information
+    // Step 5: Handle errors with detailed information
     if (!response.ok) {
       const errorText = await response.text()
       console.error(`[Voice] API error (${response.status}):`, errorText)
@@ -615,27 +693,162 @@ export async function generateVoice(input: GenerateVoiceInput): Promise<VoiceRes
       )
     }
 
-    // Step 7: Extract and validate audio buffer
-    const arrayBuffer = await response.arrayBuffer()
-    const audioBuffer = Buffer.from(arrayBuffer)
+    // Step 6: Extract audio buffer and alignment
+    let data: ElevenLabsTimestampsResponse
+    try {
+      data = await response.json()
+    } catch {
+      throw new Error('Invalid response format from ElevenLabs API (expected JSON with audio_base64)')
+    }
 
-    console.log(`[Voice] Received audio buffer: ${audioBuffer.length} bytes`)
-    validateAudioBuffer(audioBuffer)
+    if (!data.audio_base64 || typeof data.audio_base64 !== 'string') {
+      throw new Error('Invalid audio buffer received from API')
+    }
 
-    // Step 8: Calculate duration
-    const estimatedDuration = estimateDuration(sanitizedText)
+    const audioBuffer = Buffer.from(data.audio_base64, 'base64')
 
-    console.log('[Voice] Generation successful')
-    console.log(`[Voice] Duration: ~${estimatedDuration}s`)
+    console.log(`[Voice] Received audio buffer: ${audioBuffer.length} bytes`)
 
     return {
       audioBuffer,
       contentType: 'audio/mpeg',
-      estimatedDuration,
       voiceName: voice.name,
       voiceId: voice.voiceId,
       modelUsed: voice.recommendedModel,
+      alignment: parseAlignment(data),
     }
+  },
+}
+
+const PROVIDERS: Record<TTSProviderName, TTSProvider> = {
+  elevenlabs: elevenLabsProvider,
+  openai: openaiTTSProvider,
+  local: localTTSProvider,
+}
+
+/**
+ * Check whether a value names a known TTS provider
+ */
+export function isTTSProviderName(value: unknown): value is TTSProviderName {
+  return typeof value === 'string' && TTS_PROVIDERS.includes(value as TTSProviderName)
+}
+
+/**
+ * Configured providers in the order generateVoice() tries them
+ * (TTS_PROVIDER first, then ElevenLabs, OpenAI, local)
+ */
+export function getConfiguredTTSProviders(): TTSProviderName[] {
+  const envName = process.env.TTS_PROVIDER?.trim().toLowerCase()
+  if (envName && !isTTSProviderName(envName)) {
+    console.warn(`[Voice] Unknown TTS_PROVIDER "${envName}", ignoring`)
+  }
+
+  const order = isTTSProviderName(envName)
+    ? [envName, ...TTS_PROVIDERS.filter(name => name !== envName)]
+    : TTS_PROVIDERS
+
+  return order.filter(name => PROVIDERS[name].isConfigured())
+}
+
+/**
+ * Generate voice-over audio with full validation and error handling
+ * 
+ * This is the main public API - use this function for all TTS generation.
+ * Configured providers are tried in order until one returns valid audio;
+ * pass `provider` to use a single provider without fallback.
+ * 
+ * @param input - Generation parameters (text, tone, voiceId, or provider)
+ * @returns Promise<VoiceResult> - Audio buffer and metadata
+ * 
+ * @throws Error with descriptive message if generation fails
+ * 
+ * @example
+ * ```typescript
+ * // Generate with tone preset
+ * const result = await generateVoice({
+ *   text: "Transform your life with these habits!",
+ *   tone: "motivational"
+ * });
+ * 
+ * // Generate with specific voice ID
+ * const result = await generateVoice({
+ *   text: "Welcome to our podcast",
+ *   voiceId: "21m00Tcm4TlvDq8ikWAM"
+ * });
+ * 
+ * // Generate offline (LOCAL_TTS_ENGINE=espeak-ng)
+ * const result = await generateVoice({
+ *   text: "Testing without network access",
+ *   provider: "local"
+ * });
+ * ```
+ */
+export async function generateVoice(input: GenerateVoiceInput): Promise<VoiceResult> {
+  console.log('[Voice] Starting generation...')
+
+  try {
+    // Step 1: Validate and sanitize input text
+    const sanitizedText = validateAndSanitizeText(input.text)
+    console.log(`[Voice] Text validated: ${sanitizedText.length} characters`)
+
+    // Step 2: Resolve which providers to try
+    const providers = input.provider ? [input.provider] : getConfiguredTTSProviders()
+
+    if (providers.length === 0) {
+      throw new Error(
+        'No text-to-speech provider configured. ' +
+        'Set ELEVENLABS_API_KEY, OPENAI_API_KEY or LOCAL_TTS_ENGINE in your .env.local file.'
+      )
+    }
+
+    const request: TTSRequest = {
+      text: sanitizedText,
+      tone: input.tone || 'motivational',
+      voiceId: input.voiceId,
+      settings: input.settings,
+    }
+
+    // Step 3: Try each provider until one produces valid audio
+    const failures: string[] = []
+
+    for (const name of providers) {
+      const provider = PROVIDERS[name]
+      console.log(`[Voice] Using provider: ${provider.label}`)
+
+      try {
+        const output = await provider.synthesize(request)
+        validateAudioBuffer(output.audioBuffer)
+
+        if (output.alignment) {
+          console.log(`[Voice] Received alignment for ${output.alignment.characters.length} characters`)
+        } else {
+          console.warn('[Voice] No alignment data returned, subtitles will use estimated timing')
+        }
+
+        // Step 4: Calculate duration
+        const estimatedDuration = estimateDuration(sanitizedText)
+
+        console.log(`[Voice] Generation successful (${provider.label})`)
+        console.log(`[Voice] Duration: ~${estimatedDuration}s`)
+
+        return {
+          ...output,
+          estimatedDuration,
+          provider: name,
+        }
+      } catch (error) {
+        // A single provider keeps its original error for the caller to classify
+        if (providers.length === 1) {
+          throw error
+        }
+
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        console.warn(`[Voice] ${provider.label} failed, trying next provider: ${message}`)
+        failures.push(`${provider.label}: ${message}`)
+      }
+    }
+
+    throw new Error(`Every configured voice provider failed. ${failures.join(' | ')}`)
 
   } catch (error) {
     // Log error without exposing API key
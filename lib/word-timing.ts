@@ -0,0 +1,102 @@
+/**
+ * Word Timing Utility
+ *
+ * Turns ElevenLabs character-level alignment ("with-timestamps" output)
+ * into per-word start/end times, and maps those onto the words of a script
+ * so subtitle generators can place cues where the narration actually is.
+ */
+
+import type { VoiceAlignment } from './voice'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WordTiming {
+  /** The spoken word (including attached punctuation) */
+  word: string
+  /** Start time in seconds */
+  start: number
+  /** End time in seconds */
+  end: number
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Group character timestamps into words (split on whitespace)
+ *
+ * @param alignment - Character alignment from generateVoice()
+ * @returns Word timings in spoken order (empty if alignment is missing)
+ */
+export function getWordTimings(alignment?: VoiceAlignment | null): WordTiming[] {
+  if (!alignment || !Array.isArray(alignment.characters)) {
+    return []
+  }
+
+  const { characters, characterStartTimes, characterEndTimes } = alignment
+  const words: WordTiming[] = []
+  let current: WordTiming | null = null
+
+  for (let i = 0; i < characters.length; i++) {
+    const char = characters[i]
+
+    if (/\s/.test(char)) {
+      if (current) {
+        words.push(current)
+        current = null
+      }
+      continue
+    }
+
+    const start = characterStartTimes[i] ?? 0
+    const end = characterEndTimes[i] ?? start
+
+    if (!current) {
+      current = { word: char, start, end }
+    } else {
+      current.word += char
+      current.end = end
+    }
+  }
+
+  if (current) {
+    words.push(current)
+  }
+
+  return words
+}
+
+/**
+ * Assign a timing to each script word
+ *
+ * When the script and the narration have the same word count the timings
+ * are used one-to-one. Otherwise (e.g. the script was re-punctuated after
+ * voicing) each script word takes the timing at the same relative position.
+ *
+ * @param scriptWords - Words of the script in order
+ * @param timings - Word timings from getWordTimings()
+ * @returns One timing per script word, or null if no timings are available
+ */
+export function matchWordTimings(
+  scriptWords: string[],
+  timings: WordTiming[]
+): WordTiming[] | null {
+  if (timings.length === 0 || scriptWords.length === 0) {
+    return null
+  }
+
+  if (scriptWords.length === timings.length) {
+    return scriptWords.map((word, i) => ({ ...timings[i], word }))
+  }
+
+  return scriptWords.map((word, i) => {
+    const index = Math.min(
+      timings.length - 1,
+      Math.floor((i * timings.length) / scriptWords.length)
+    )
+    return { ...timings[index], word }
+  })
+}
@@ -0,0 +1,131 @@
+/**
+ * Render Workspaces
+ *
+ * Each render gets its own temp directory for intermediate files (voice
+ * audio, downloaded media, processed clips, concat lists, subtitles), so
+ * concurrent renders never overwrite each other and cleanup is a single
+ * recursive delete.
+ *
+ * Workspaces left behind by a crashed process are removed by
+ * sweepStaleWorkspaces(), which the render worker runs when it starts
+ * (at server boot, see instrumentation.ts).
+ *
+ * Environment Variables:
+ * - RENDER_WORKSPACE_DIR: Parent directory (default: <os tmp>/mindshelf-render)
+ * - RENDER_WORKSPACE_MAX_AGE_HOURS: Age after which a workspace is stale (default: 6)
+ */
+
+import { mkdir, readdir, rm, stat } from 'fs/promises'
+import path from 'path'
+import os from 'os'
+import { randomUUID } from 'crypto'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RenderWorkspace {
+  /** Absolute path of the workspace directory */
+  dir: string
+  /** Path of a file inside the workspace */
+  file(name: string): string
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_MAX_AGE_HOURS = 6
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function getWorkspaceRoot(): string {
+  return process.env.RENDER_WORKSPACE_DIR || path.join(os.tmpdir(), 'mindshelf-render')
+}
+
+function getMaxAgeMs(): number {
+  const hours = Number(process.env.RENDER_WORKSPACE_MAX_AGE_HOURS)
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_MAX_AGE_HOURS) * 60 * 60 * 1000
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Create an empty workspace directory for one render
+ *
+ * @example
+ * ```typescript
+ * const workspace = await createWorkspace()
+ * try {
+ *   await writeFile(workspace.file('voice.mp3'), audio)
+ * } finally {
+ *   await removeWorkspace(workspace)
+ * }
+ * ```
+ */
+export async function createWorkspace(): Promise<RenderWorkspace> {
+  const dir = path.join(getWorkspaceRoot(), randomUUID())
+  await mkdir(dir, { recursive: true })
+
+  return {
+    dir,
+    file: (name: string) => path.join(dir, name),
+  }
+}
+
+/**
+ * Delete a workspace and everything in it (never throws)
+ */
+export async function removeWorkspace(workspace: RenderWorkspace): Promise<void> {
+  try {
+    await rm(workspace.dir, { recursive: true, force: true })
+    console.log(`[Workspace] Removed ${workspace.dir}`)
+  } catch (error) {
+    console.error(`[Workspace] Failed to remove ${workspace.dir}:`, error)
+  }
+}
+
+/**
+ * Remove workspaces older than RENDER_WORKSPACE_MAX_AGE_HOURS
+ * (left behind when a process died mid-render)
+ *
+ * @param maxAgeMs - Override the configured maximum age
+ * @returns Number of workspaces removed
+ */
+export async function sweepStaleWorkspaces(maxAgeMs: number = getMaxAgeMs()): Promise<number> {
+  const root = getWorkspaceRoot()
+
+  let entries: string[]
+  try {
+    entries = await readdir(root)
+  } catch {
+    // Nothing rendered yet
+    return 0
+  }
+
+  const staleBefore = Date.now() - maxAgeMs
+  let removed = 0
+
+  for (const entry of entries) {
+    const dir = path.join(root, entry)
+    try {
+      const stats = await stat(dir)
+      if (stats.isDirectory() && stats.mtimeMs < staleBefore) {
+        await rm(dir, { recursive: true, force: true })
+        removed++
+      }
+    } catch (error) {
+      console.warn(`[Workspace] Could not sweep ${dir}:`, error)
+    }
+  }
+
+  if (removed > 0) {
+    console.log(`[Workspace] Removed ${removed} stale workspace(s)`)
+  }
+
+  return removed
+}
@@ -1,7 +1,14 @@
+const { COVER_HOSTS } = require('./lib/cover-hosts')
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   // Enable standalone output for Docker optimization
   output: 'standalone',
+
+  // Run instrumentation.ts on server start (bestseller scheduler)
+  experimental: {
+    instrumentationHook: true,
+  },
   
   // Optimize webpack configuration
   webpack: (config, { isServer }) => {
@@ -16,9 +23,9 @@ const nextConfig = {
   
   images: {
     /**
-     * Remote patterns for book cover images
-     * - books.google.com: Google Books API thumbnails
-     * - covers.openlibrary.org: Open Library covers (legacy)
+     * Remote patterns for book cover images and stock photos
+     * - Book covers: the hosts in lib/cover-hosts.js (Google Books, Open
+     *   Library, NYT), shared with the server-side cover URL checks
      * - images.pexels.com: Pexels stock photos
      * - images.unsplash.com: Unsplash stock photos
      * 
@@ -26,20 +33,16 @@ const nextConfig = {
      * in the API route for security. Both protocols included as fallback.
      */
     remotePatterns: [
-      {
+      ...COVER_HOSTS.map(({ hostname, pathname }) => ({
         protocol: 'https',
-        hostname: 'books.google.com',
-        pathname: '/books/**',
-      },
+        hostname,
+        ...(pathname ? { pathname: `${pathname}**` } : {}),
+      })),
       {
         protocol: 'http',
         hostname: 'books.google.com',
         pathname: '/books/**',
       },
-      {
-        protocol: 'https',
-        hostname: 'covers.openlibrary.org',
-      },
       {
         protocol: 'https',
         hostname: 'images.pexels.com',